@@ -0,0 +1,233 @@
+import crypto from 'crypto';
+import TelegramBot from 'node-telegram-bot-api';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { storeCallbackNonce, consumeCallbackNonce, getCallbackReceipt, storeCallbackReceipt } from '../utils/session';
+
+// Telegram rejects callback_data longer than 64 bytes
+const MAX_CALLBACK_DATA_BYTES = 64;
+
+// Separator between the fields of encoded callback_data
+const SEPARATOR = ':';
+
+// Bytes of randomness in a keyboard nonce (8 base64url characters)
+const NONCE_BYTES = 6;
+
+// Bytes of the HMAC kept in callback_data (8 base64url characters)
+const SIGNATURE_BYTES = 6;
+
+/**
+ * A button to be encoded into a signed inline keyboard
+ */
+export interface CallbackButton<A extends string = string> {
+  text: string;
+  action: A;
+}
+
+/**
+ * Decoded and verified callback_data
+ */
+export interface CallbackPayload<A extends string = string> {
+  flow: string;
+  step: string;
+  action: A;
+  nonce: string;
+}
+
+/**
+ * Context passed to callback handlers
+ */
+export interface CallbackContext<A extends string = string> extends CallbackPayload<A> {
+  bot: TelegramBot;
+  query: TelegramBot.CallbackQuery;
+  chatId: number;
+  messageId: number;
+  // Answers the callback query; the router answers it if the handler does not
+  answer: (text?: string) => Promise<void>;
+}
+
+/**
+ * Handler for verified taps on keyboards of one flow
+ */
+export type CallbackHandler<A extends string = string> = (ctx: CallbackContext<A>) => Promise<void>;
+
+// Registered handlers by flow ID
+const handlers = new Map<string, CallbackHandler<any>>();
+
+/**
+ * Register the handler for all keyboards of a flow
+ * @param flow - Flow ID used when building the keyboards
+ * @param handler - Handler receiving verified taps
+ */
+export function registerCallbackHandler<A extends string>(flow: string, handler: CallbackHandler<A>): void {
+  if (handlers.has(flow)) {
+    throw new Error(`Callback handler for "${flow}" is already registered`);
+  }
+  handlers.set(flow, handler);
+}
+
+/**
+ * Build a signed inline keyboard whose buttons can be used once and only until they expire
+ * @param chatId - Chat the keyboard is sent to
+ * @param flow - Flow ID the taps are dispatched to
+ * @param step - Step the keyboard belongs to
+ * @param rows - Button rows
+ * @returns Inline keyboard markup ready for sendMessage
+ */
+export async function createKeyboard<A extends string>(
+  chatId: number,
+  flow: string,
+  step: string,
+  rows: CallbackButton<A>[][]
+): Promise<TelegramBot.InlineKeyboardMarkup> {
+  // All buttons of one keyboard share a nonce, so tapping one spends them all
+  const nonce = crypto.randomBytes(NONCE_BYTES).toString('base64url');
+
+  const inline_keyboard = rows.map((row) => row.map((button) => ({
+    text: button.text,
+    callback_data: encodeCallbackData(chatId, { flow, step, action: button.action, nonce })
+  })));
+
+  await storeCallbackNonce(nonce, chatId);
+
+  return { inline_keyboard };
+}
+
+/**
+ * Set what a repeated tap on the spent keyboard of a message is answered with,
+ * e.g. the result of the transfer its first tap confirmed
+ * @param chatId - Chat of the message
+ * @param messageId - Message carrying the keyboard
+ * @param text - Answer shown to the user, up to 200 characters
+ */
+export async function setRepeatTapAnswer(chatId: number, messageId: number, text: string): Promise<void> {
+  await storeCallbackReceipt(chatId, messageId, text);
+}
+
+/**
+ * Encode and sign callback_data for a chat
+ * @param chatId - Chat the button is sent to
+ * @param payload - Flow, step, action and nonce
+ */
+export function encodeCallbackData(chatId: number, payload: CallbackPayload): string {
+  const fields = [payload.flow, payload.step, payload.action, payload.nonce];
+
+  if (fields.some((field) => !field || field.includes(SEPARATOR))) {
+    throw new Error(`Invalid callback payload ${JSON.stringify(payload)}`);
+  }
+
+  const data = [...fields, sign(chatId, fields)].join(SEPARATOR);
+
+  if (Buffer.byteLength(data, 'utf8') > MAX_CALLBACK_DATA_BYTES) {
+    throw new Error(`Callback data "${data}" exceeds ${MAX_CALLBACK_DATA_BYTES} bytes`);
+  }
+
+  return data;
+}
+
+/**
+ * Decode callback_data and verify its signature for a chat
+ * @param chatId - Chat the tap came from
+ * @param data - Raw callback_data
+ * @returns The payload, or null if the data is malformed or forged
+ */
+export function decodeCallbackData(chatId: number, data: string): CallbackPayload | null {
+  const parts = data.split(SEPARATOR);
+  if (parts.length !== 5) return null;
+
+  const [flow, step, action, nonce, signature] = parts;
+  const expected = Buffer.from(sign(chatId, [flow, step, action, nonce]));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return { flow, step, action, nonce };
+}
+
+/**
+ * Sets up the single callback query listener that verifies and routes every tap
+ * @param bot - The Telegram bot instance
+ */
+export function setupCallbackRouter(bot: TelegramBot): void {
+  bot.on('callback_query', (query) => {
+    routeCallbackQuery(bot, query).catch((error) => {
+      logger.error('Error handling callback query:', error);
+      if (query.message) {
+        bot.sendMessage(query.message.chat.id, "❌ Something went wrong while processing your request. Please try again later.");
+      }
+    });
+  });
+
+  logger.info('Callback router has been set up');
+}
+
+/**
+ * Verify a tap and dispatch it to the handler of its flow
+ */
+async function routeCallbackQuery(bot: TelegramBot, query: TelegramBot.CallbackQuery): Promise<void> {
+  if (!query.message || !query.data) {
+    await bot.answerCallbackQuery(query.id);
+    return;
+  }
+
+  const chatId = query.message.chat.id;
+  const payload = decodeCallbackData(chatId, query.data);
+
+  if (!payload) {
+    logger.warn(`Rejected callback with invalid data from chat ${chatId}`);
+    await bot.answerCallbackQuery(query.id, { text: 'This button is no longer valid.' });
+    return;
+  }
+
+  const handler = handlers.get(payload.flow);
+  if (!handler) {
+    logger.warn(`No callback handler for flow "${payload.flow}"`);
+    await bot.answerCallbackQuery(query.id, { text: 'This button is no longer valid.' });
+    return;
+  }
+
+  // Expired keyboards and repeated taps find no nonce
+  if (!await consumeCallbackNonce(payload.nonce)) {
+    const receipt = await getCallbackReceipt(chatId, query.message.message_id);
+    await bot.answerCallbackQuery(query.id, { text: receipt ?? 'This button has expired or was already used.' });
+    return;
+  }
+
+  let answered = false;
+  const answer = async (text?: string) => {
+    if (answered) return;
+    answered = true;
+    await bot.answerCallbackQuery(query.id, text ? { text } : undefined);
+  };
+
+  try {
+    await handler({
+      ...payload,
+      bot,
+      query,
+      chatId,
+      messageId: query.message.message_id,
+      answer
+    });
+  } finally {
+    await answer();
+  }
+}
+
+/**
+ * Compute the truncated HMAC binding callback fields to a chat
+ */
+function sign(chatId: number, fields: string[]): string {
+  if (!config.callbacks.secret) {
+    throw new Error('CALLBACK_SECRET or SESSION_SECRET must be set to sign inline keyboards');
+  }
+
+  return crypto
+    .createHmac('sha256', config.callbacks.secret)
+    .update([chatId, ...fields].join(SEPARATOR))
+    .digest()
+    .subarray(0, SIGNATURE_BYTES)
+    .toString('base64url');
+}
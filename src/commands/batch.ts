@@ -0,0 +1,325 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { logger } from '../utils/logger';
+import { sendBatch } from '../services/transfer';
+import { getDefaultBalance } from '../services/wallet';
+import { BatchPayment, BatchPaymentResult } from '../types';
+import { formatTransferAmount, truncateMiddle } from '../utils/formatter';
+import { AuthContext } from '../middleware/auth';
+import { checkRateLimit } from '../middleware/rateLimit';
+import { ConversationFlow, StepValidation, registerConversation, startConversation, goto, stay, end } from '../conversations';
+import {
+  ConfirmationData,
+  describeAllowance,
+  replyConfirmation,
+  submitConfirmed,
+  validateAmount,
+  validateDescription,
+  validateEmail
+} from './transfer';
+import { registerCommand } from './registry';
+import { stepUpCheck, stepUpStep } from './security';
+
+// Most payments accepted in one batch, which keeps the summary within one Telegram message
+export const MAX_BATCH_SIZE = 50;
+
+// Width of the recipient column in summaries
+const RECIPIENT_WIDTH = 28;
+
+/**
+ * Rows of a batch that passed validation, or the problems found in it
+ */
+export type BatchParseResult =
+  | { valid: true; payments: BatchPayment[] }
+  | { valid: false; errors: string[] };
+
+/**
+ * Conversation state for a batch payout
+ */
+interface BatchConversationData extends ConfirmationData {
+  payments?: BatchPayment[];
+}
+
+/**
+ * Parse a batch written one payment per line as "recipient, amount, description"
+ *
+ * Commas or spaces separate the fields and the description is optional.
+ * Blank lines and lines starting with # are ignored. Every row is checked
+ * with the rules of /send.
+ * @param text - The pasted list
+ */
+export function parseBatch(text: string): BatchParseResult {
+  const payments: BatchPayment[] = [];
+  const errors: string[] = [];
+
+  text.split('\n').forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const [recipient = '', amount = '', description = ''] = splitRow(line);
+    const payment = validatePayment(recipient, amount, description);
+
+    if (!payment.valid) {
+      errors.push(`Line ${index + 1}: ${payment.error}`);
+      return;
+    }
+
+    payments.push(payment.value);
+  });
+
+  if (errors.length === 0 && payments.length === 0) {
+    errors.push('⚠️ The list has no payments.');
+  }
+  if (payments.length > MAX_BATCH_SIZE) {
+    errors.push(`⚠️ A batch can have at most ${MAX_BATCH_SIZE} payments; this one has ${payments.length}.`);
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, payments };
+}
+
+/**
+ * Check one payment with the rules of /send
+ * @param recipient - Recipient email
+ * @param amount - Amount in USDC as typed
+ * @param description - Optional description
+ */
+export function validatePayment(recipient: string, amount: string, description = ''): StepValidation<BatchPayment> {
+  const email = validateEmail(recipient);
+  const value = validateAmount(amount);
+  const note = validateDescription(description);
+
+  if (!email.valid || !value.valid || !note.valid) {
+    const problems = [email, value, note].flatMap((check) => check.valid ? [] : [check.error]);
+    return { valid: false, error: problems.join(' ') };
+  }
+
+  return { valid: true, value: { recipient: email.value, amount: value.value, description: note.value || undefined } };
+}
+
+/**
+ * Split a row into recipient, amount and description
+ */
+function splitRow(line: string): string[] {
+  const separator = line.includes(',') ? ',' : /\s+/;
+  const [recipient, amount, ...description] = line.split(separator).map((field) => field.trim());
+  const joined = description.join(typeof separator === 'string' ? ', ' : ' ').trim();
+
+  // Descriptions may be quoted, as they are for /send
+  return [recipient, amount, joined.replace(/^["“](.*)["”]$/, '$1')];
+}
+
+/**
+ * Sum of the payments, in USDC
+ */
+export function batchTotal(payments: BatchPayment[]): number {
+  // Add in millionths so decimal amounts do not pick up rounding errors
+  return payments.reduce((sum, payment) => sum + Math.round(payment.amount * 1e6), 0) / 1e6;
+}
+
+/**
+ * Monospace table of payments, one per line, with an optional status column
+ */
+function formatPaymentTable(rows: { status?: string; payment: BatchPayment; note?: string }[]): string {
+  const lines = rows.map(({ status, payment, note }) => {
+    const recipient = payment.recipient.length > RECIPIENT_WIDTH
+      ? truncateMiddle(payment.recipient, RECIPIENT_WIDTH - 7, 4)
+      : payment.recipient;
+    const amount = payment.amount.toFixed(2).padStart(10);
+    return [status, recipient.padEnd(RECIPIENT_WIDTH), amount, note].filter(Boolean).join(' ');
+  });
+
+  // Backticks would end the code block
+  return '```\n' + lines.join('\n').replace(/`/g, "'") + '\n```';
+}
+
+/**
+ * Conversation flow for paying several recipients at once
+ */
+const batchConversation: ConversationFlow<BatchConversationData> = {
+  id: 'send_batch',
+  steps: [
+    {
+      id: 'payments',
+      field: 'payments',
+      prompt: async ({ reply }) => {
+        await reply(
+          "📦 *Batch Payout*\n\n" +
+          "Send the payments, one per line, as recipient, amount and an optional description:\n\n" +
+          "```\nalice@example.com, 120, March invoice\nbob@example.com, 80.50\n```\n" +
+          `Up to ${MAX_BATCH_SIZE} payments per batch. You can also upload them as a .csv or .xlsx file.`,
+          { parse_mode: 'Markdown' }
+        );
+      },
+      validate: (text) => {
+        const result = parseBatch(text);
+        return result.valid
+          ? { valid: true, value: result.payments }
+          : { valid: false, error: `❌ Please fix these lines and send the whole list again:\n\n${result.errors.join('\n')}` };
+      }
+    },
+    {
+      id: 'confirm',
+      prompt: async (ctx) => {
+        const { chatId, data } = ctx;
+        const payments = data.payments!;
+        const total = batchTotal(payments);
+        const balance = await getDefaultBalance(chatId);
+        const insufficient = balance !== undefined && total > balance;
+        const allowance = await describeAllowance(chatId, total);
+
+        const details = `📦 *Batch Payout Confirmation*\n\n` +
+          `${formatPaymentTable(payments.map((payment) => ({ payment })))}\n\n` +
+          `Payments: ${payments.length}\n` +
+          `Total: ${formatTransferAmount(total)}\n` +
+          `Balance: ${balance === undefined ? 'unavailable' : formatTransferAmount(balance)}\n` +
+          allowance.text;
+
+        await replyConfirmation(ctx, details, 'Please confirm this batch:',
+          insufficient ? 'The total exceeds your balance. Cancel and send a smaller batch.' : allowance.error);
+      },
+      handleCallback: async (action, { bot, chatId, data, messageId }) => {
+        if (action === 'cancel') {
+          await bot.sendMessage(chatId, "❌ Batch payout has been canceled.");
+          return end();
+        }
+
+        if (action !== 'confirm') {
+          return stay();
+        }
+        data.confirmationId = messageId;
+
+        // The tapped keyboard is spent; offer a fresh one to confirm once the cooldown is over
+        if (!(await checkRateLimit(bot, chatId, 'money'))) {
+          return goto('confirm');
+        }
+
+        const stepUp = await stepUpCheck(bot, chatId, batchTotal(data.payments!));
+        if (stepUp) return stepUp;
+
+        await completeBatch(bot, chatId, data);
+        return end();
+      }
+    },
+    stepUpStep<BatchConversationData>(async ({ bot, chatId, data }) => {
+      await completeBatch(bot, chatId, data);
+      return end();
+    })
+  ]
+};
+
+/**
+ * Submit a confirmed batch once under the key of its confirmation
+ */
+async function completeBatch(bot: TelegramBot, chatId: number, data: BatchConversationData): Promise<void> {
+  await submitConfirmed(bot, chatId, data, (idempotencyKey) => executeBatch(bot, chatId, data.payments!, idempotencyKey));
+}
+
+/**
+ * Submit a confirmed batch and report the result of every payment
+ * @param bot Telegram bot instance
+ * @param chatId Chat ID
+ * @param payments Validated payments
+ * @param idempotencyKey Key of the confirmation
+ * @returns true if the batch was accepted, even if some payments failed; null if it is already being submitted
+ */
+async function executeBatch(
+  bot: TelegramBot,
+  chatId: number,
+  payments: BatchPayment[],
+  idempotencyKey: string
+): Promise<boolean | null> {
+  try {
+    const result = await sendBatch(chatId, payments, idempotencyKey);
+
+    if (result.pending) {
+      return null;
+    }
+    if (!result.success || !result.data) {
+      await bot.sendMessage(chatId, `❌ Batch payout failed: ${result.error || 'Unknown error'}\n\nCheck /history before trying again.`);
+      return false;
+    }
+
+    await bot.sendMessage(chatId, formatBatchReport(result.data), { parse_mode: 'Markdown' });
+    return true;
+  } catch (error) {
+    logger.error('Error in batch payout:', error);
+    await bot.sendMessage(chatId, "❌ Something went wrong while sending your batch. Check /history before trying again.");
+    return false;
+  }
+}
+
+/**
+ * Per-recipient report of a submitted batch, with the failed rows ready to resend
+ */
+function formatBatchReport(results: BatchPaymentResult[]): string {
+  const sent = results.filter((result) => !result.error);
+  const failed = results.filter((result) => result.error);
+
+  const table = formatPaymentTable(results.map(({ payment, error }) => ({
+    status: error ? '❌' : '✅',
+    payment,
+    note: error
+  })));
+
+  const heading = failed.length === 0
+    ? `✅ *Batch Payout Complete*`
+    : sent.length === 0
+      ? `❌ *Batch Payout Failed*`
+      : `⚠️ *Batch Payout Partially Complete*`;
+
+  let message = `${heading}\n\n${table}\n\n` +
+    `Sent: ${sent.length} of ${results.length} (${formatTransferAmount(batchTotal(sent.map((result) => result.payment)))})`;
+
+  if (failed.length > 0) {
+    const retry = failed
+      .map(({ payment }) => [payment.recipient, payment.amount, payment.description].filter((field) => field !== undefined).join(', '))
+      .join('\n');
+    message += `\nFailed: ${failed.length}\n\n` +
+      `To retry the failed payments, send /sendbatch and paste:\n` +
+      '```\n' + retry.replace(/`/g, "'") + '\n```';
+  }
+
+  return message;
+}
+
+/**
+ * Handle /sendbatch command to pay several recipients at once
+ * @param bot Telegram bot instance
+ * @param auth Session resolved by the command router
+ * @param list Payments given with the command, one per line
+ */
+export async function sendBatchCommand(bot: TelegramBot, { chatId }: AuthContext, list?: string): Promise<void> {
+  try {
+    if (list) {
+      const result = parseBatch(list);
+      if (result.valid) {
+        await startConversation(bot, chatId, 'send_batch', { payments: result.payments });
+        return;
+      }
+      await bot.sendMessage(chatId, `❌ Some lines need fixing:\n\n${result.errors.join('\n')}`);
+    }
+
+    await startConversation(bot, chatId, 'send_batch');
+  } catch (error) {
+    logger.error('Error in sendbatch command:', error);
+    await bot.sendMessage(chatId, "❌ Something went wrong while processing your request. Please try again later.");
+  }
+}
+
+/**
+ * Registers the batch payout command and conversation
+ */
+export function registerBatchCommands(): void {
+  registerConversation(batchConversation);
+
+  registerCommand({
+    name: 'sendbatch',
+    aliases: ['batch'],
+    args: [{ name: 'payments', optional: true, rest: true }],
+    description: 'Pay several email recipients at once',
+    examples: ['/sendbatch\nalice@example.com, 120, March invoice\nbob@example.com, 80.50'],
+    category: 'transfer',
+    rateLimit: 'read',
+    auth: { kyc: true, unlocked: true },
+    handler: ({ bot, args }, auth) => sendBatchCommand(bot, auth, args.payments)
+  });
+}
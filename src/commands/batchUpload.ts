@@ -0,0 +1,283 @@
+import path from 'path';
+import TelegramBot from 'node-telegram-bot-api';
+import { logger } from '../utils/logger';
+import { formatTransferAmount } from '../utils/formatter';
+import { SheetRows, SheetTooLargeError, parseCsv, readXlsx, toCsv } from '../utils/spreadsheet';
+import { getDefaultBalance } from '../services/wallet';
+import { BatchPayment } from '../types';
+import { authorize } from '../middleware/auth';
+import { checkRateLimit } from '../middleware/rateLimit';
+import { startConversation } from '../conversations';
+import { MAX_BATCH_SIZE, batchTotal, validatePayment } from './batch';
+
+// Largest payout file accepted; a full batch needs a few kilobytes
+const MAX_FILE_SIZE = 256 * 1024;
+
+// Sheet rows read beyond a full batch, for the header, notes and blank lines
+const EXTRA_SHEET_ROWS = 20;
+
+// Problems listed in the chat; the corrected file has all of them
+const MAX_LISTED_PROBLEMS = 15;
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Header names recognised for each column, compared without case, spaces or punctuation
+const COLUMN_HEADERS = {
+  recipient: ['email', 'emailaddress', 'recipient', 'recipientemail', 'to', 'payee'],
+  amount: ['amount', 'amountusdc', 'usdc', 'value', 'sum'],
+  description: ['note', 'notes', 'description', 'memo', 'reference', 'purpose']
+};
+
+type PayoutColumn = keyof typeof COLUMN_HEADERS;
+
+type PayoutFileFormat = 'csv' | 'xlsx';
+
+/**
+ * A data row of a payout file and the result of checking it
+ */
+interface PayoutFileRow {
+  // Row number as shown by a spreadsheet
+  row: number;
+  recipient: string;
+  amount: string;
+  description: string;
+  payment?: BatchPayment;
+  issue?: string;
+}
+
+/**
+ * Everything found when checking a payout file
+ */
+interface PayoutFileReport {
+  rows: PayoutFileRow[];
+  // Problems with the file as a whole
+  errors: string[];
+}
+
+/**
+ * Work out the format of an uploaded document from its name or MIME type
+ */
+function detectFormat(document: TelegramBot.Document): PayoutFileFormat | null {
+  const extension = path.extname(document.file_name ?? '').toLowerCase();
+
+  if (extension === '.csv' || document.mime_type === 'text/csv') return 'csv';
+  if (extension === '.xlsx' || document.mime_type === XLSX_MIME_TYPE) return 'xlsx';
+  return null;
+}
+
+/**
+ * Download a file through the Telegram file API
+ * @throws If the file is larger than MAX_FILE_SIZE
+ */
+async function downloadFile(bot: TelegramBot, fileId: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of bot.getFileStream(fileId)) {
+    size += chunk.length;
+    if (size > MAX_FILE_SIZE) {
+      throw new Error('File is too large');
+    }
+    chunks.push(Buffer.from(chunk));
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Find which columns hold the recipient, amount and note
+ *
+ * A first row without an email address whose cells name the columns is
+ * taken as a header; otherwise the columns are recipient, amount and note
+ * in that order.
+ * @returns The column of each field, and the index of the first data row
+ */
+function detectColumns(rows: SheetRows): { columns: Partial<Record<PayoutColumn, number>>; start: number } {
+  const first = rows.findIndex((row) => row.length > 0);
+  const header = rows[first] ?? [];
+  const names = header.map((cell) => cell.toLowerCase().replace(/[^a-z]/g, ''));
+
+  const columns: Partial<Record<PayoutColumn, number>> = {};
+  for (const column of Object.keys(COLUMN_HEADERS) as PayoutColumn[]) {
+    const index = names.findIndex((name) => COLUMN_HEADERS[column].includes(name));
+    if (index !== -1) columns[column] = index;
+  }
+
+  if (Object.keys(columns).length === 0 || header.some((cell) => cell.includes('@'))) {
+    return { columns: { recipient: 0, amount: 1, description: 2 }, start: 0 };
+  }
+  return { columns, start: first + 1 };
+}
+
+/**
+ * Check every row of a payout file with the rules of /send
+ *
+ * A recipient may appear only once; later rows for the same email are
+ * reported as duplicates.
+ */
+function checkPayoutFile(rows: SheetRows): PayoutFileReport {
+  const { columns, start } = detectColumns(rows);
+  const errors: string[] = [];
+
+  if (columns.recipient === undefined || columns.amount === undefined) {
+    errors.push('⚠️ The header row needs an email and an amount column.');
+    return { rows: [], errors };
+  }
+
+  const cell = (row: string[], column?: number) => column === undefined ? '' : row[column] ?? '';
+  const seen = new Map<string, number>();
+  const checked: PayoutFileRow[] = [];
+
+  rows.forEach((row, index) => {
+    if (index < start || row.length === 0) return;
+
+    const entry: PayoutFileRow = {
+      row: index + 1,
+      recipient: cell(row, columns.recipient),
+      amount: cell(row, columns.amount),
+      description: cell(row, columns.description)
+    };
+    checked.push(entry);
+
+    const payment = validatePayment(entry.recipient, entry.amount, entry.description);
+    if (!payment.valid) {
+      entry.issue = payment.error;
+      return;
+    }
+
+    const key = payment.value.recipient.toLowerCase();
+    const duplicateOf = seen.get(key);
+    if (duplicateOf !== undefined) {
+      entry.issue = `⚠️ Duplicate of row ${duplicateOf}; combine the payments into one row.`;
+      return;
+    }
+
+    seen.set(key, entry.row);
+    entry.payment = payment.value;
+  });
+
+  const valid = checked.filter((entry) => entry.payment).length;
+  if (checked.length === 0) {
+    errors.push('⚠️ The file has no payments.');
+  }
+  if (valid > MAX_BATCH_SIZE) {
+    errors.push(`⚠️ A batch can have at most ${MAX_BATCH_SIZE} payments; this file has ${valid}.`);
+  }
+
+  return { rows: checked, errors };
+}
+
+/**
+ * Validation report of a payout file
+ */
+function formatFileReport(fileName: string, report: PayoutFileReport, balance?: number): string {
+  const payments = report.rows.flatMap((entry) => entry.payment ? [entry.payment] : []);
+  const problems = report.rows.filter((entry) => entry.issue);
+  const total = batchTotal(payments);
+
+  let message = `📄 Payout file checked: ${fileName}\n\n` +
+    `Rows: ${report.rows.length}\n` +
+    `Valid: ${payments.length} (${formatTransferAmount(total)})\n` +
+    `Problems: ${problems.length + report.errors.length}\n` +
+    `Balance: ${balance === undefined ? 'unavailable' : formatTransferAmount(balance)}`;
+
+  if (balance !== undefined && total > balance) {
+    message += `\n\n⚠️ The total exceeds your balance.`;
+  }
+
+  if (report.errors.length > 0 || problems.length > 0) {
+    const listed = problems.slice(0, MAX_LISTED_PROBLEMS).map((entry) => `Row ${entry.row}: ${entry.issue}`);
+    if (problems.length > listed.length) {
+      listed.push(`...and ${problems.length - listed.length} more in the corrected file.`);
+    }
+    message += `\n\n${[...report.errors, ...listed].join('\n')}`;
+  }
+
+  return message;
+}
+
+/**
+ * The checked rows as CSV, with valid values normalized and an issue column for the rest
+ */
+function formatCorrectedCsv(report: PayoutFileReport): Buffer {
+  const rows = report.rows.map((entry) => entry.payment
+    ? [entry.payment.recipient, String(entry.payment.amount), entry.payment.description ?? '', '']
+    : [entry.recipient, entry.amount, entry.description, entry.issue!.replace(/⚠️\s*/g, '')]);
+
+  return Buffer.from(toCsv([['email', 'amount', 'note', 'issue'], ...rows]), 'utf8');
+}
+
+/**
+ * Handle a payout file uploaded as a document
+ * @param bot Telegram bot instance
+ * @param msg Message carrying the document
+ */
+export async function handlePayoutFile(bot: TelegramBot, msg: TelegramBot.Message): Promise<void> {
+  const chatId = msg.chat.id;
+  const document = msg.document!;
+  const fileName = document.file_name ?? 'payouts';
+
+  const format = detectFormat(document);
+  if (!format) {
+    await bot.sendMessage(chatId, "📄 To pay several recipients at once, upload a .csv or .xlsx file with email, amount and note columns.");
+    return;
+  }
+
+  if (!(await checkRateLimit(bot, chatId, 'read'))) return;
+  if (!(await authorize(bot, chatId, { kyc: true, unlocked: true }))) return;
+
+  if ((document.file_size ?? 0) > MAX_FILE_SIZE) {
+    await bot.sendMessage(chatId, `❌ The file is too large. Payout files can be up to ${MAX_FILE_SIZE / 1024} KB.`);
+    return;
+  }
+
+  let rows: SheetRows;
+  try {
+    const data = await downloadFile(bot, document.file_id);
+    rows = format === 'csv' ? parseCsv(data.toString('utf8')) : readXlsx(data, MAX_BATCH_SIZE + EXTRA_SHEET_ROWS);
+  } catch (error) {
+    logger.error(`Error reading payout file for chat ${chatId}:`, error);
+    if (error instanceof SheetTooLargeError) {
+      await bot.sendMessage(chatId, `❌ ${fileName} is too long; only its first ${error.maxRows} rows are read. A batch can have at most ${MAX_BATCH_SIZE} payments.`);
+      return;
+    }
+    await bot.sendMessage(chatId, `❌ Could not read ${fileName}. Check that it is a valid ${format.toUpperCase()} file and upload it again.`);
+    return;
+  }
+
+  const report = checkPayoutFile(rows);
+  const payments = report.rows.flatMap((entry) => entry.payment ? [entry.payment] : []);
+  const balance = await getDefaultBalance(chatId);
+
+  await bot.sendMessage(chatId, formatFileReport(fileName, report, balance));
+
+  if (report.errors.length > 0 || payments.length < report.rows.length) {
+    if (report.rows.length > 0) {
+      const corrected = `${path.basename(fileName, path.extname(fileName))}-checked.csv`;
+      await bot.sendDocument(
+        chatId,
+        formatCorrectedCsv(report),
+        { caption: '📝 Fix the rows with an issue and upload the file again.' },
+        { filename: corrected, contentType: 'text/csv' }
+      );
+    }
+    return;
+  }
+
+  await startConversation(bot, chatId, 'send_batch', { payments });
+}
+
+/**
+ * Sets up the handler for payout files sent as documents
+ * @param bot - The Telegram bot instance
+ */
+export function setupBatchUploadHandler(bot: TelegramBot): void {
+  bot.on('document', (msg) => {
+    handlePayoutFile(bot, msg).catch((error) => {
+      logger.error('Error handling payout file:', error);
+      bot.sendMessage(msg.chat.id, "❌ Something went wrong while processing your file. Please try again later.");
+    });
+  });
+
+  logger.info('Payout file upload handler has been set up');
+}
@@ -0,0 +1,371 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { logger } from '../utils/logger';
+import {
+  MAX_CONTACTS,
+  addContact,
+  declineContact,
+  findContact,
+  getContacts,
+  removeContact,
+  renameContact
+} from '../services/contacts';
+import { Contact, PayoutDestination } from '../types';
+import { AuthContext } from '../middleware/auth';
+import { CallbackButton } from '../callbacks';
+import {
+  ConversationContext,
+  ConversationFlow,
+  ConversationStep,
+  StepValidation,
+  registerConversation,
+  startConversation,
+  next,
+  goto,
+  stay,
+  end,
+  switchTo
+} from '../conversations';
+import {
+  WITHDRAWAL_NETWORKS,
+  addressNetworkButtons,
+  contactButtonRows,
+  pickedContact,
+  validateAddress,
+  validateEmail
+} from './transfer';
+import { registerCommand } from './registry';
+
+// Longest contact label, which keeps picker buttons readable
+const MAX_LABEL_LENGTH = 32;
+
+/**
+ * Conversation state for adding, renaming or removing a contact
+ */
+interface ContactConversationData {
+  // Contact being renamed
+  id?: string;
+  currentLabel?: string;
+  email?: string;
+  address?: string;
+  network?: string;
+}
+
+/**
+ * List of saved contacts for /contacts
+ */
+function formatContacts(contacts: Contact[]): string {
+  if (contacts.length === 0) {
+    return "📇 Contacts\n\nYou have no saved contacts yet. Saved recipients and withdrawal addresses " +
+      "are offered as buttons by /send and /withdraw.";
+  }
+
+  const recipients = contacts.flatMap((contact) => contact.kind === 'email' ? [`👤 ${contact.label}: ${contact.email}`] : []);
+  const addresses = contacts.flatMap((contact) => contact.kind === 'wallet'
+    ? [`🔑 ${contact.label}: ${contact.address} (${WITHDRAWAL_NETWORKS[contact.network] ?? contact.network})`]
+    : []);
+
+  const sections = [
+    recipients.length > 0 ? `Recipients:\n${recipients.join('\n')}` : null,
+    addresses.length > 0 ? `Withdrawal addresses:\n${addresses.join('\n')}` : null
+  ].filter(Boolean);
+
+  return `📇 Contacts\n\n${sections.join('\n\n')}`;
+}
+
+/**
+ * Validate a contact label; labels are unique per user regardless of case
+ * @param text Raw text reply
+ * @param ctx Conversation context; the contact being renamed may keep its label
+ */
+async function validateLabel(
+  text: string,
+  { chatId, data }: ConversationContext<ContactConversationData>
+): Promise<StepValidation<string>> {
+  const label = text.trim();
+  if (!label || label.length > MAX_LABEL_LENGTH || label.includes('\n')) {
+    return { valid: false, error: `⚠️ Please enter a name of up to ${MAX_LABEL_LENGTH} characters on one line.` };
+  }
+
+  const taken = (await getContacts(chatId))
+    .some((contact) => contact.id !== data.id && contact.label.toLowerCase() === label.toLowerCase());
+  return taken
+    ? { valid: false, error: `⚠️ You already have a contact named ${label}. Please choose another name.` }
+    : { valid: true, value: label };
+}
+
+/**
+ * Label step shared by the flows that save a contact
+ * @param save Saves the contact and confirms it to the user
+ */
+function labelStep(
+  save: (label: string, ctx: ConversationContext<ContactConversationData>) => Promise<void>
+): ConversationStep<ContactConversationData> {
+  return {
+    id: 'label',
+    prompt: async ({ reply, data }) => {
+      await reply(`Please enter a name for ${data.email ?? data.address}:`);
+    },
+    validate: validateLabel,
+    handleText: async (label, ctx) => {
+      await save(label, ctx);
+      return end();
+    }
+  };
+}
+
+/**
+ * Conversation flow for the /contacts menu
+ */
+const contactsConversation: ConversationFlow = {
+  id: 'contacts',
+  steps: [
+    {
+      id: 'menu',
+      prompt: async ({ reply, keyboard, chatId }) => {
+        const contacts = await getContacts(chatId);
+        const rows: CallbackButton[][] = [
+          [
+            { text: '➕ Recipient', action: 'add_email' },
+            { text: '➕ Address', action: 'add_wallet' }
+          ]
+        ];
+        if (contacts.length > 0) {
+          rows.push([
+            { text: '✏️ Rename', action: 'rename' },
+            { text: '🗑️ Remove', action: 'remove' }
+          ]);
+        }
+        rows.push([{ text: '✅ Done', action: 'done' }]);
+
+        await reply(formatContacts(contacts), { reply_markup: await keyboard(rows) });
+      },
+      handleCallback: async (action, { bot, chatId }) => {
+        switch (action) {
+          case 'add_email':
+          case 'add_wallet':
+            if ((await getContacts(chatId)).length >= MAX_CONTACTS) {
+              await bot.sendMessage(chatId, `⚠️ You can save up to ${MAX_CONTACTS} contacts. Remove one to add another.`);
+              return goto('menu');
+            }
+            return switchTo(action === 'add_email' ? 'add_recipient' : 'add_address');
+          case 'rename':
+            return switchTo('rename_contact');
+          case 'remove':
+            return switchTo('remove_contact');
+          case 'done':
+            return end();
+          default:
+            return stay();
+        }
+      }
+    }
+  ]
+};
+
+/**
+ * Conversation flow for saving an email recipient
+ */
+const addRecipientConversation: ConversationFlow<ContactConversationData> = {
+  id: 'add_recipient',
+  steps: [
+    {
+      id: 'email',
+      field: 'email',
+      prompt: async ({ reply }) => {
+        await reply("📇 *New Recipient*\n\nPlease enter the recipient's email address:", { parse_mode: 'Markdown' });
+      },
+      validate: async (text, { chatId }) => {
+        const email = validateEmail(text);
+        if (!email.valid) return email;
+
+        const existing = await findContact(chatId, { kind: 'email', email: email.value });
+        return existing
+          ? { valid: false, error: `⚠️ ${email.value} is already saved as ${existing.label}.` }
+          : email;
+      }
+    },
+    labelStep(async (label, { bot, chatId, data }) => {
+      const contact = await addContact(chatId, { kind: 'email', email: data.email!, label });
+      await bot.sendMessage(chatId, `✅ Saved ${contact.label}. Pick it the next time you use /send.`);
+    })
+  ]
+};
+
+/**
+ * Conversation flow for saving a withdrawal address
+ */
+const addAddressConversation: ConversationFlow<ContactConversationData> = {
+  id: 'add_address',
+  steps: [
+    {
+      id: 'address',
+      field: 'address',
+      prompt: async ({ reply }) => {
+        await reply("📇 *New Withdrawal Address*\n\nPlease enter the wallet address:", { parse_mode: 'Markdown' });
+      },
+      validate: (text) => validateAddress(text)
+    },
+    {
+      id: 'network',
+      field: 'network',
+      prompt: async ({ reply, keyboard, data }) => {
+        await reply("Please select the network of this address:", {
+          reply_markup: await keyboard(addressNetworkButtons(data.address!))
+        });
+      },
+      handleCallback: async (action, { bot, chatId, data }) => {
+        if (!(action in WITHDRAWAL_NETWORKS) || !validateAddress(data.address!, action).valid) return stay();
+
+        const existing = await findContact(chatId, { kind: 'wallet', address: data.address!, network: action });
+        if (existing) {
+          await bot.sendMessage(chatId, `⚠️ This address is already saved as ${existing.label}.`);
+          return end();
+        }
+
+        data.network = action;
+        return next();
+      }
+    },
+    labelStep(async (label, { bot, chatId, data }) => {
+      const contact = await addContact(chatId, { kind: 'wallet', address: data.address!, network: data.network!, label });
+      await bot.sendMessage(chatId, `✅ Saved ${contact.label}. Pick it the next time you withdraw to a wallet.`);
+    })
+  ]
+};
+
+/**
+ * Conversation flow for renaming a contact
+ */
+const renameContactConversation: ConversationFlow<ContactConversationData> = {
+  id: 'rename_contact',
+  steps: [
+    {
+      id: 'contact',
+      prompt: async ({ reply, keyboard, chatId }) => {
+        await reply("✏️ Which contact do you want to rename?", {
+          reply_markup: await keyboard(contactButtonRows(await getContacts(chatId)))
+        });
+      },
+      handleCallback: async (action, { chatId, data }) => {
+        const contact = pickedContact(action, await getContacts(chatId));
+        if (!contact) return stay();
+
+        data.id = contact.id;
+        data.currentLabel = contact.label;
+        return next();
+      }
+    },
+    {
+      id: 'label',
+      prompt: async ({ reply, data }) => {
+        await reply(`Please enter a new name for ${data.currentLabel}:`);
+      },
+      validate: validateLabel,
+      handleText: async (label, { bot, chatId, data }) => {
+        const contact = await renameContact(chatId, data.id!, label);
+        await bot.sendMessage(chatId, contact
+          ? `✅ ${data.currentLabel} is now called ${contact.label}.`
+          : "⚠️ That contact no longer exists.");
+        return end();
+      }
+    }
+  ]
+};
+
+/**
+ * Conversation flow for removing a contact
+ */
+const removeContactConversation: ConversationFlow<ContactConversationData> = {
+  id: 'remove_contact',
+  steps: [
+    {
+      id: 'contact',
+      prompt: async ({ reply, keyboard, chatId }) => {
+        await reply("🗑️ Which contact do you want to remove?", {
+          reply_markup: await keyboard(contactButtonRows(await getContacts(chatId)))
+        });
+      },
+      handleCallback: async (action, { bot, chatId }) => {
+        const contact = pickedContact(action, await getContacts(chatId));
+        if (!contact) return stay();
+
+        await removeContact(chatId, contact.id);
+        await bot.sendMessage(chatId, `🗑️ Removed ${contact.label} from your contacts.`);
+        return end();
+      }
+    }
+  ]
+};
+
+/**
+ * Conversation flow offering to save the destination of a completed transfer
+ */
+const saveContactConversation: ConversationFlow<PayoutDestination> = {
+  id: 'save_contact',
+  steps: [
+    {
+      id: 'offer',
+      prompt: async ({ reply, keyboard, data }) => {
+        const destination = data.kind === 'email' ? data.email : data.address;
+        await reply(`💾 Save ${destination} to your contacts? You can then pick it instead of typing it.`, {
+          reply_markup: await keyboard([
+            [
+              { text: '💾 Save', action: 'save' },
+              { text: 'Not now', action: 'skip' }
+            ]
+          ])
+        });
+      },
+      handleCallback: async (action, { bot, chatId, data }) => {
+        if (action === 'save') {
+          // The destination fills its steps, so only the label is asked for
+          const { kind, ...destination } = data;
+          return switchTo(kind === 'email' ? 'add_recipient' : 'add_address', destination);
+        }
+
+        if (action !== 'skip') {
+          return stay();
+        }
+
+        await declineContact(chatId, data);
+        await bot.sendMessage(chatId, "👍 I won't offer to save it again. You can still add it with /contacts.");
+        return end();
+      }
+    }
+  ]
+};
+
+/**
+ * Handle /contacts command to manage saved recipients and withdrawal addresses
+ * @param bot Telegram bot instance
+ * @param auth Session resolved by the command router
+ */
+export async function contactsCommand(bot: TelegramBot, { chatId }: AuthContext): Promise<void> {
+  try {
+    await startConversation(bot, chatId, 'contacts');
+  } catch (error) {
+    logger.error('Error in contacts command:', error);
+    await bot.sendMessage(chatId, "❌ Something went wrong while loading your contacts. Please try again later.");
+  }
+}
+
+/**
+ * Registers the address book command and conversations
+ */
+export function registerContactCommands(): void {
+  registerConversation(contactsConversation);
+  registerConversation(addRecipientConversation);
+  registerConversation(addAddressConversation);
+  registerConversation(renameContactConversation);
+  registerConversation(removeContactConversation);
+  registerConversation(saveContactConversation);
+
+  registerCommand({
+    name: 'contacts',
+    description: 'Manage saved recipients and withdrawal addresses',
+    category: 'transfer',
+    rateLimit: 'read',
+    auth: true,
+    handler: ({ bot }, auth) => contactsCommand(bot, auth)
+  });
+}
@@ -1,47 +1,76 @@
 import TelegramBot from 'node-telegram-bot-api';
 import { logger } from '../utils/logger';
+import { COMMAND_CATEGORIES, CommandCategory, CommandDefinition, findCommand, formatUsage, getCommands } from './registry';
 
 /**
- * Handles the /help command
+ * Handles the /help command, listing every registered command or describing one
  * @param bot - The Telegram bot instance
  * @param msg - The message object from Telegram
- * @param match - The RegExp match result
+ * @param commandName - Optional command to describe, e.g. "send" or "/send"
  */
-export function handleHelpCommand(bot: TelegramBot, msg: TelegramBot.Message, match: RegExpExecArray | null): void {
+export async function handleHelpCommand(bot: TelegramBot, msg: TelegramBot.Message, commandName?: string): Promise<void> {
   const chatId = msg.chat.id;
-  
+
   try {
-    const helpMessage = `
-Copperx Payout Bot Commands:
-
-🔐 *Authentication*
-/login - Log in with your Copperx credentials
-/logout - Log out from your account
-/profile - View your account profile
-
-💰 *Wallet Management*
-/balance - Check your wallet balances
-/wallets - View your wallets
-/setdefault - Set your default wallet
-
-💸 *Transfers*
-/send - Send funds to an email address
-/withdraw - Withdraw funds to your bank or wallet
-/history - View your transaction history
-
-ℹ️ *Help & Support*
-/help - Show this help message
-/support - Get support information
-
-For more help, visit: https://t.me/copperxcommunity/2183
-`;
-    
+    if (commandName) {
+      const command = findCommand(commandName);
+      await bot.sendMessage(
+        chatId,
+        command ? formatCommandHelp(command) : `❓ Unknown command ${escapeMarkdown(commandName)}. Use /help to see available commands.`,
+        { parse_mode: 'Markdown' }
+      );
+      return;
+    }
+
     // Send help message with markdown formatting
-    bot.sendMessage(chatId, helpMessage, { parse_mode: 'Markdown' });
+    await bot.sendMessage(chatId, formatHelp(), { parse_mode: 'Markdown' });
     logger.info(`Help command handled for user ${msg.from?.id}`);
   } catch (error) {
     logger.error(`Error handling help command for user ${msg.from?.id}:`, error);
-    bot.sendMessage(chatId, 'Sorry, there was an error processing your request. Please try again later.');
+    await bot.sendMessage(chatId, 'Sorry, there was an error processing your request. Please try again later.');
   }
 }
 
+/**
+ * Build the command overview from the registry, grouped by category
+ */
+function formatHelp(): string {
+  const sections = (Object.keys(COMMAND_CATEGORIES) as CommandCategory[])
+    .map((category) => {
+      const commands = getCommands().filter((command) => command.category === category);
+      if (commands.length === 0) return null;
+
+      const lines = commands.map((command) => `${escapeMarkdown(formatUsage(command))} - ${command.description}`);
+      return `${COMMAND_CATEGORIES[category]}\n${lines.join('\n')}`;
+    })
+    .filter(Boolean);
+
+  return `Copperx Payout Bot Commands:\n\n${sections.join('\n\n')}\n\n` +
+    'Use /help <command> for details on a command.\n' +
+    'For more help, visit: https://t.me/copperxcommunity/2183';
+}
+
+/**
+ * Describe a single command with its usage and aliases
+ */
+function formatCommandHelp(command: CommandDefinition): string {
+  const aliases = command.aliases?.length
+    ? `\nAlso available as ${command.aliases.map((alias) => escapeMarkdown(`/${alias}`)).join(', ')}`
+    : '';
+  const auth = command.auth ? '\n🔒 Requires login' : '';
+  const kyc = typeof command.auth === 'object' && command.auth.kyc ? ' and an approved KYC' : '';
+
+  const examples = command.examples?.length
+    ? `\n\nExamples:\n${command.examples.map(escapeMarkdown).join('\n')}`
+    : '';
+
+  return `*${escapeMarkdown(`/${command.name}`)}* - ${command.description}\n\n` +
+    `Usage: ${escapeMarkdown(formatUsage(command))}${aliases}${auth}${kyc}${examples}`;
+}
+
+/**
+ * Escape characters with a meaning in Telegram's legacy Markdown
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/[_*`[]/g, '\\$&');
+}
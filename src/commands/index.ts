@@ -2,9 +2,19 @@ import TelegramBot from 'node-telegram-bot-api';
 import { logger } from '../utils/logger';
 import { handleStartCommand } from './start';
 import { handleHelpCommand } from './help';
+import { handleCancelCommand, handleBackCommand } from './navigation';
 import { registerAuthCommands } from './auth';
 import { registerWalletCommands } from './wallet';
 import { registerTransferCommands } from './transfer';
+import { registerBatchCommands } from './batch';
+import { setupBatchUploadHandler } from './batchUpload';
+import { registerContactCommands } from './contacts';
+import { registerScheduleCommands } from './schedule';
+import { registerLimitCommands } from './limits';
+import { registerSecurityCommands } from './security';
+import { registerCommand, setupCommandRouter } from './registry';
+import { setupConversationHandlers } from '../conversations';
+import { setupCallbackRouter } from '../callbacks';
 
 /**
  * Sets up all command handlers for the bot
@@ -12,14 +22,22 @@ import { registerTransferCommands } from './transfer';
  */
 export async function setupCommandHandlers(bot: TelegramBot): Promise<void> {
   try {
-    // Basic commands
-    bot.onText(/\/start/, (msg, match) => handleStartCommand(bot, msg, match || null));
-    bot.onText(/\/help/, (msg, match) => handleHelpCommand(bot, msg, match || null));
+    // Register command groups; registration order is the order of the Telegram menu
+    registerAuthCommands();
+    registerWalletCommands();
+    registerTransferCommands();
+    registerBatchCommands();
+    registerContactCommands();
+    registerScheduleCommands();
+    registerLimitCommands();
+    registerSecurityCommands();
+    registerBasicCommands();
     
-    // Register command groups
-    await registerAuthCommands(bot);
-    registerWalletCommands(bot);
-    registerTransferCommands(bot);
+    // Single dispatchers for all commands, multi-step conversations and inline keyboards
+    await setupCommandRouter(bot);
+    setupConversationHandlers(bot);
+    setupCallbackRouter(bot);
+    setupBatchUploadHandler(bot);
     
     logger.info('Command handlers have been set up');
   } catch (error) {
@@ -27,3 +45,34 @@ export async function setupCommandHandlers(bot: TelegramBot): Promise<void> {
     throw error;
   }
 }
+
+/**
+ * Registers conversation navigation and general commands
+ */
+function registerBasicCommands(): void {
+  registerCommand({
+    name: 'cancel',
+    description: 'Cancel the current operation',
+    category: 'navigation',
+    handler: ({ bot, msg }) => handleCancelCommand(bot, msg)
+  });
+  registerCommand({
+    name: 'back',
+    description: 'Go back to the previous step',
+    category: 'navigation',
+    handler: ({ bot, msg }) => handleBackCommand(bot, msg)
+  });
+  registerCommand({
+    name: 'help',
+    args: [{ name: 'command', optional: true }],
+    description: 'Show available commands',
+    category: 'general',
+    handler: ({ bot, msg, args }) => handleHelpCommand(bot, msg, args.command)
+  });
+  registerCommand({
+    name: 'start',
+    description: 'Show the welcome message',
+    category: 'general',
+    handler: ({ bot, msg }) => handleStartCommand(bot, msg)
+  });
+}
@@ -0,0 +1,131 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { formatUtcTime, formatTransferAmount } from '../utils/formatter';
+import { cancelLimitRaises, changeSpendingLimit, getAllowance } from '../services/limits';
+import { SpendingAllowance, SpendingLimits } from '../types';
+import { AuthContext } from '../middleware/auth';
+import { CallbackButton } from '../callbacks';
+import { ConversationFlow, registerConversation, startConversation, goto, stay, end } from '../conversations';
+import { validateAmount } from './transfer';
+import { registerCommand } from './registry';
+
+// Names of the limits as shown to users, also the actions of their buttons
+const LIMIT_NAMES: Record<keyof SpendingLimits, string> = {
+  perTransaction: 'per-transaction',
+  daily: 'daily',
+  monthly: 'monthly'
+};
+
+/**
+ * Conversation state for changing a limit
+ */
+interface LimitsConversationData {
+  limit?: keyof SpendingLimits;
+}
+
+/**
+ * Limits, what is left of them and raises waiting to apply
+ */
+function formatLimits(allowance: SpendingAllowance): string {
+  const { limits, pending } = allowance;
+  const raises = (Object.keys(pending) as (keyof SpendingLimits)[]).map((limit) =>
+    `⏳ ${LIMIT_NAMES[limit]} limit rises to ${formatTransferAmount(pending[limit]!.value)} on ${formatUtcTime(pending[limit]!.effectiveAt)}`);
+
+  return `🛡️ *Spending Limits*\n\n` +
+    `Per transaction: ${formatTransferAmount(limits.perTransaction)}\n` +
+    `Daily: ${formatTransferAmount(limits.daily)} (${formatTransferAmount(allowance.spentToday)} used today)\n` +
+    `Monthly: ${formatTransferAmount(limits.monthly)} (${formatTransferAmount(allowance.spentThisMonth)} used this month)\n\n` +
+    (raises.length > 0 ? `${raises.join('\n')}\n\n` : '') +
+    `Lower limits apply at once. Raised limits apply after ${config.limits.raiseDelayHours} hours, ` +
+    `so you can cancel a raise you did not make. Days and months are in UTC.`;
+}
+
+/**
+ * Conversation flow for /limits
+ */
+const limitsConversation: ConversationFlow<LimitsConversationData> = {
+  id: 'limits',
+  steps: [
+    {
+      id: 'menu',
+      prompt: async ({ reply, keyboard, chatId }) => {
+        const allowance = await getAllowance(chatId);
+        const rows: CallbackButton[][] = [
+          [
+            { text: '✏️ Per transaction', action: 'perTransaction' },
+            { text: '✏️ Daily', action: 'daily' },
+            { text: '✏️ Monthly', action: 'monthly' }
+          ]
+        ];
+        if (Object.keys(allowance.pending).length > 0) {
+          rows.push([{ text: '🚫 Cancel raise', action: 'cancel_raise' }]);
+        }
+        rows.push([{ text: '✅ Done', action: 'done' }]);
+
+        await reply(formatLimits(allowance), { parse_mode: 'Markdown', reply_markup: await keyboard(rows) });
+      },
+      handleCallback: async (action, { bot, chatId, data }) => {
+        if (action === 'done') return end();
+
+        if (action === 'cancel_raise') {
+          await cancelLimitRaises(chatId);
+          await bot.sendMessage(chatId, "🚫 Pending raises cancelled. Your current limits stay as they are.");
+          return goto('menu');
+        }
+
+        if (!(action in LIMIT_NAMES)) return stay();
+
+        data.limit = action as keyof SpendingLimits;
+        return goto('value');
+      }
+    },
+    {
+      id: 'value',
+      prompt: async ({ reply, data }) => {
+        await reply(`Please enter your new ${LIMIT_NAMES[data.limit!]} limit in USDC:`);
+      },
+      validate: validateAmount,
+      handleText: async (value: number, { bot, chatId, data }) => {
+        const change = await changeSpendingLimit(chatId, data.limit!, value);
+        const name = LIMIT_NAMES[data.limit!];
+
+        await bot.sendMessage(chatId, change.applied
+          ? `✅ Your ${name} limit is now ${formatTransferAmount(value)}.`
+          : `⏳ Your ${name} limit rises to ${formatTransferAmount(value)} on ${formatUtcTime(change.effectiveAt)}. ` +
+            `If you did not ask for this, cancel it in /limits and log out.`);
+        return goto('menu');
+      }
+    }
+  ]
+};
+
+/**
+ * Handle /limits command to view and change spending limits
+ * @param bot Telegram bot instance
+ * @param auth Session resolved by the command router
+ */
+export async function limitsCommand(bot: TelegramBot, { chatId }: AuthContext): Promise<void> {
+  try {
+    await startConversation(bot, chatId, 'limits');
+  } catch (error) {
+    logger.error('Error in limits command:', error);
+    await bot.sendMessage(chatId, "❌ Something went wrong while loading your spending limits. Please try again later.");
+  }
+}
+
+/**
+ * Registers the spending limit command and conversation
+ */
+export function registerLimitCommands(): void {
+  registerConversation(limitsConversation);
+
+  registerCommand({
+    name: 'limits',
+    description: 'View and change your spending limits',
+    category: 'transfer',
+    rateLimit: 'read',
+    auth: true,
+    handler: ({ bot }, auth) => limitsCommand(bot, auth)
+  });
+}
@@ -0,0 +1,48 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { logger } from '../utils/logger';
+import { cancelConversation, goBack, hasActiveConversation } from '../conversations';
+
+/**
+ * Handles the /cancel command by aborting whatever conversation is active
+ * @param bot - The Telegram bot instance
+ * @param msg - The message object from Telegram
+ */
+export async function handleCancelCommand(bot: TelegramBot, msg: TelegramBot.Message): Promise<void> {
+  const chatId = msg.chat.id;
+  
+  try {
+    if (await cancelConversation(bot, chatId)) {
+      await bot.sendMessage(chatId, '❌ Canceled. Use /help to see available commands.');
+    } else {
+      await bot.sendMessage(chatId, 'There is nothing to cancel right now.');
+    }
+    logger.info(`Cancel command handled for user ${msg.from?.id}`);
+  } catch (error) {
+    logger.error(`Error handling cancel command for user ${msg.from?.id}:`, error);
+    await bot.sendMessage(chatId, 'Sorry, there was an error processing your request. Please try again later.');
+  }
+}
+
+/**
+ * Handles the /back command by returning the active conversation to its previous step
+ * @param bot - The Telegram bot instance
+ * @param msg - The message object from Telegram
+ */
+export async function handleBackCommand(bot: TelegramBot, msg: TelegramBot.Message): Promise<void> {
+  const chatId = msg.chat.id;
+  
+  try {
+    if (await goBack(bot, chatId)) {
+      return;
+    }
+    
+    if (await hasActiveConversation(chatId)) {
+      await bot.sendMessage(chatId, 'You are already at the first step. Use /cancel to stop.');
+    } else {
+      await bot.sendMessage(chatId, 'There is nothing to go back to right now.');
+    }
+  } catch (error) {
+    logger.error(`Error handling back command for user ${msg.from?.id}:`, error);
+    await bot.sendMessage(chatId, 'Sorry, there was an error processing your request. Please try again later.');
+  }
+}
@@ -0,0 +1,239 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { logger } from '../utils/logger';
+import { AuthContext, AuthRequirements, authorize } from '../middleware/auth';
+import { RateLimitClass, checkRateLimit } from '../middleware/rateLimit';
+
+// A command message: /name, optionally addressed as /name@bot, followed by arguments
+const COMMAND_REGEX = /^\/([a-zA-Z0-9_]+)(?:@(\w+))?(?:\s+([\s\S]*))?$/;
+
+// An argument: a double-quoted phrase (straight or curly quotes, as phone keyboards type them) or a word
+const ARGUMENT_REGEX = /["“”]([^"“”]*)["“”]|(\S+)/g;
+
+/**
+ * Sections of /help, in display order
+ */
+export const COMMAND_CATEGORIES = {
+  auth: '🔐 *Authentication*',
+  wallet: '💰 *Wallet Management*',
+  transfer: '💸 *Transfers*',
+  navigation: '🧭 *Navigation*',
+  general: 'ℹ️ *Help*'
+};
+
+export type CommandCategory = keyof typeof COMMAND_CATEGORIES;
+
+/**
+ * A positional argument of a command
+ */
+export interface CommandArgument {
+  name: string;
+  optional?: boolean;
+  // Takes the rest of the message as typed, line breaks included; only valid as the last argument
+  rest?: boolean;
+}
+
+/**
+ * Context passed to command handlers
+ */
+export interface CommandContext {
+  bot: TelegramBot;
+  msg: TelegramBot.Message;
+  chatId: number;
+  // Parsed arguments by name; optional arguments that were left out are missing
+  args: Record<string, string | undefined>;
+}
+
+interface CommandBase {
+  // Name without the slash; lowercase letters, digits and underscores as Telegram requires
+  name: string;
+  // Other names the command answers to; shown in /help but not in the menu
+  aliases?: string[];
+  args?: CommandArgument[];
+  // One line shown in /help and the Telegram menu
+  description: string;
+  // Sample invocations shown by /help <command>
+  examples?: string[];
+  category: CommandCategory;
+  // Budget drawn from before the command runs
+  rateLimit?: RateLimitClass;
+}
+
+/**
+ * A command anyone can run
+ */
+export interface PublicCommand extends CommandBase {
+  auth?: false;
+  handler: (ctx: CommandContext) => Promise<unknown> | unknown;
+}
+
+/**
+ * A command that requires a logged-in user, and optionally more
+ */
+export interface ProtectedCommand extends CommandBase {
+  auth: true | AuthRequirements;
+  handler: (ctx: CommandContext, auth: AuthContext) => Promise<unknown> | unknown;
+}
+
+export type CommandDefinition = PublicCommand | ProtectedCommand;
+
+// Registered commands in registration order
+const commands: CommandDefinition[] = [];
+
+// Commands by name and alias
+const lookup = new Map<string, CommandDefinition>();
+
+/**
+ * Register a command with the router
+ * @param command - The command definition
+ */
+export function registerCommand(command: CommandDefinition): void {
+  const restIndex = command.args?.findIndex((arg) => arg.rest) ?? -1;
+  if (restIndex !== -1 && restIndex !== command.args!.length - 1) {
+    throw new Error(`Only the last argument of /${command.name} can take the rest of the message`);
+  }
+
+  for (const name of [command.name, ...(command.aliases ?? [])]) {
+    if (!/^[a-z0-9_]{1,32}$/.test(name)) {
+      throw new Error(`Invalid command name "${name}"`);
+    }
+    if (lookup.has(name)) {
+      throw new Error(`Command /${name} is already registered`);
+    }
+    lookup.set(name, command);
+  }
+  commands.push(command);
+}
+
+/**
+ * All registered commands in registration order
+ */
+export function getCommands(): readonly CommandDefinition[] {
+  return commands;
+}
+
+/**
+ * Find a command by name or alias
+ * @param name - Name with or without the leading slash
+ */
+export function findCommand(name: string): CommandDefinition | undefined {
+  return lookup.get(name.replace(/^\//, '').toLowerCase());
+}
+
+/**
+ * Usage line of a command, e.g. "/send [email] [amount]"
+ */
+export function formatUsage(command: CommandDefinition): string {
+  const args = (command.args ?? []).map((arg) => {
+    const name = arg.rest ? `${arg.name}...` : arg.name;
+    return arg.optional ? `[${name}]` : `<${name}>`;
+  });
+  return [`/${command.name}`, ...args].join(' ');
+}
+
+/**
+ * Sets up the single dispatcher for all registered commands and syncs the Telegram menu
+ * @param bot - The Telegram bot instance
+ */
+export async function setupCommandRouter(bot: TelegramBot): Promise<void> {
+  // Commands addressed to another bot in a group are not ours to answer
+  const me = await bot.getMe();
+
+  bot.onText(COMMAND_REGEX, (msg, match) => {
+    if (!match) return;
+
+    dispatch(bot, msg, match, me.username).catch((error) => {
+      logger.error(`Error handling command ${match[0]}:`, error);
+      bot.sendMessage(msg.chat.id, "❌ Something went wrong while processing your request. Please try again later.");
+    });
+  });
+
+  await syncMenu(bot);
+  logger.info(`Command router has been set up with ${commands.length} commands`);
+}
+
+/**
+ * Parse a command message and run its handler behind the command's rate limit and auth requirement
+ */
+async function dispatch(
+  bot: TelegramBot,
+  msg: TelegramBot.Message,
+  match: RegExpExecArray,
+  username?: string
+): Promise<void> {
+  const [, name, mention, rest] = match;
+  const chatId = msg.chat.id;
+
+  if (mention && username && mention.toLowerCase() !== username.toLowerCase()) {
+    return;
+  }
+
+  const command = findCommand(name);
+  if (!command) {
+    await bot.sendMessage(chatId, `❓ Unknown command /${name}. Use /help to see available commands.`);
+    return;
+  }
+
+  const args = parseArgs(command, rest);
+  if (!args) {
+    await bot.sendMessage(chatId, `⚠️ Usage: ${formatUsage(command)}\n${command.description}`);
+    return;
+  }
+
+  if (command.rateLimit && !(await checkRateLimit(bot, chatId, command.rateLimit))) {
+    return;
+  }
+
+  const ctx: CommandContext = { bot, msg, chatId, args };
+
+  if (!command.auth) {
+    await command.handler(ctx);
+    return;
+  }
+
+  const auth = await authorize(bot, chatId, command.auth === true ? {} : command.auth);
+  if (auth) {
+    await command.handler(ctx, auth);
+  }
+}
+
+/**
+ * Split the text after the command into the declared arguments
+ * @returns null if required arguments are missing or there are too many
+ */
+function parseArgs(command: CommandDefinition, text = ''): Record<string, string | undefined> | null {
+  const declared = command.args ?? [];
+  const tokens = [...text.matchAll(ARGUMENT_REGEX)];
+  const words = tokens.map((match) => match[1] ?? match[2]);
+  const args: Record<string, string | undefined> = {};
+
+  for (const [index, arg] of declared.entries()) {
+    let value = words[index];
+    // A rest argument of several words keeps the original text; a lone quoted phrase is unquoted
+    if (arg.rest && words.length > index + 1) {
+      value = text.slice(tokens[index].index).trim();
+    }
+    if (!value) {
+      if (!arg.optional) return null;
+      continue;
+    }
+    args[arg.name] = value;
+  }
+
+  const consumed = declared.some((arg) => arg.rest) ? words.length : declared.length;
+  return words.length > consumed ? null : args;
+}
+
+/**
+ * Publish the registered commands as the bot's Telegram menu
+ */
+async function syncMenu(bot: TelegramBot): Promise<void> {
+  try {
+    await bot.setMyCommands(commands.map((command) => ({
+      command: command.name,
+      description: command.description
+    })));
+  } catch (error) {
+    // An outdated menu is no reason to stop the bot
+    logger.warn(`Failed to update the Telegram command menu: ${error}`);
+  }
+}
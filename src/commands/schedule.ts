@@ -0,0 +1,670 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { logger } from '../utils/logger';
+import { nextCronRun, parseCron } from '../utils/cron';
+import { formatPayoutDestination, formatUtcTime, formatTransferAmount } from '../utils/formatter';
+import { getContacts } from '../services/contacts';
+import {
+  MAX_SCHEDULES,
+  createSchedule,
+  deleteSchedule,
+  getSchedule,
+  getSchedules,
+  nextScheduledRun,
+  saveSchedule
+} from '../services/schedules';
+import { PayoutDestination, ScheduledPayout, ScheduleFrequency } from '../types';
+import { AuthContext } from '../middleware/auth';
+import { CallbackButton } from '../callbacks';
+import {
+  ConversationContext,
+  ConversationFlow,
+  ConversationStep,
+  StepOutcome,
+  StepValidation,
+  registerConversation,
+  startConversation,
+  next,
+  goto,
+  stay,
+  end,
+  switchTo
+} from '../conversations';
+import {
+  MAX_CONTACT_BUTTONS,
+  WITHDRAWAL_NETWORKS,
+  addressNetworkButtons,
+  contactButtonRows,
+  pickedContact,
+  validateAddress,
+  validateAmount,
+  validateDescription,
+  validateEmail
+} from './transfer';
+import { registerCommand } from './registry';
+import { stepUpCheck, stepUpStep } from './security';
+
+const MINUTE = 60 * 1000;
+
+// Cron schedules may run at most this often, so a typo cannot drain a wallet
+const MIN_CRON_INTERVAL = 60 * MINUTE;
+
+// Upcoming runs of a cron expression checked against MIN_CRON_INTERVAL
+const CRON_RUNS_CHECKED = 24;
+
+// Upcoming runs shown before a schedule is confirmed
+const PREVIEW_RUNS = 3;
+
+// Prefix of the actions of schedule buttons in /schedules, followed by the schedule ID
+const SCHEDULE_ACTION = 'schedule.';
+
+// Button labels of the frequencies
+const FREQUENCIES: Record<ScheduleFrequency, string> = {
+  once: '1️⃣ Once',
+  daily: '📆 Daily',
+  weekly: '🗓️ Weekly',
+  monthly: '🗓️ Monthly',
+  cron: '⚙️ Cron expression'
+};
+
+// Question asked for the timing of each frequency
+const TIMING_PROMPTS: Record<ScheduleFrequency, string> = {
+  once: "When should it run? Enter a date and time in UTC, e.g. 2026-11-01 09:00",
+  daily: "At what time each day? Enter it in UTC, e.g. 09:00",
+  weekly: "On which day and at what time? Enter them in UTC, e.g. Monday 09:00",
+  monthly: "On which day of the month and at what time? Enter a day from 1 to 28 or 'last', and a time in UTC, " +
+    "e.g. 1 09:00 or last 17:30",
+  cron: "Enter a cron expression (minute hour day month weekday), evaluated in UTC, e.g. 0 9 * * 1-5 for 09:00 " +
+    "on weekdays. It may run at most once an hour."
+};
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const TIME_REGEX = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * When a schedule runs, as parsed from the user's reply
+ */
+type ScheduleTiming = Pick<ScheduledPayout, 'frequency' | 'timing' | 'cron' | 'runAt'>;
+
+/**
+ * Conversation state for creating or editing a scheduled payout
+ */
+interface ScheduleConversationData {
+  // Schedule being edited in /schedules
+  id?: string;
+  destination?: PayoutDestination;
+  // Wallet address waiting for its network
+  address?: string;
+  amount?: number;
+  description?: string;
+  frequency?: ScheduleFrequency;
+  timing?: ScheduleTiming;
+}
+
+/**
+ * Parse a time of day written as HH:MM
+ * @returns Hour and minute, or null if the text is not a time
+ */
+function parseTime(text: string): { hour: number; minute: number } | null {
+  const match = text.match(TIME_REGEX);
+  return match ? { hour: parseInt(match[1], 10), minute: parseInt(match[2], 10) } : null;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Validate the timing of a schedule for its frequency; all times are UTC
+ * @param frequency Chosen frequency
+ * @param text Raw text reply, e.g. "2026-11-01 09:00", "Monday 09:00" or "0 9 * * 1-5"
+ * @param now Current time in milliseconds; one-off payouts must be later
+ */
+function parseTiming(frequency: ScheduleFrequency, text: string, now: number = Date.now()): StepValidation<ScheduleTiming> {
+  const words = text.trim().split(/\s+/);
+
+  switch (frequency) {
+    case 'once': {
+      const date = words[0]?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      const time = words.length === 2 ? parseTime(words[1]) : null;
+      if (!date || !time) {
+        return { valid: false, error: "⚠️ Please enter a date and time in UTC, e.g. 2026-11-01 09:00" };
+      }
+
+      const [year, month, day] = date.slice(1).map((part) => parseInt(part, 10));
+      const runAt = Date.UTC(year, month - 1, day, time.hour, time.minute);
+      if (new Date(runAt).getUTCDate() !== day || new Date(runAt).getUTCMonth() !== month - 1) {
+        return { valid: false, error: `⚠️ ${words[0]} is not a valid date.` };
+      }
+      if (runAt <= now) {
+        return { valid: false, error: "⚠️ That time has already passed. Please enter a time in the future." };
+      }
+      return { valid: true, value: { frequency, runAt, timing: `Once on ${formatUtcTime(runAt)}` } };
+    }
+
+    case 'daily': {
+      const time = words.length === 1 ? parseTime(words[0]) : null;
+      if (!time) {
+        return { valid: false, error: "⚠️ Please enter a time in UTC, e.g. 09:00" };
+      }
+      return {
+        valid: true,
+        value: { frequency, cron: `${time.minute} ${time.hour} * * *`, timing: `Every day at ${pad(time.hour)}:${pad(time.minute)} UTC` }
+      };
+    }
+
+    case 'weekly': {
+      const weekday = words.length === 2 && words[0].length >= 3
+        ? WEEKDAYS.findIndex((name) => name.toLowerCase().startsWith(words[0].toLowerCase()))
+        : -1;
+      const time = words.length === 2 ? parseTime(words[1]) : null;
+      if (weekday === -1 || !time) {
+        return { valid: false, error: "⚠️ Please enter a weekday and a time in UTC, e.g. Monday 09:00" };
+      }
+      return {
+        valid: true,
+        value: {
+          frequency,
+          cron: `${time.minute} ${time.hour} * * ${weekday}`,
+          timing: `Every ${WEEKDAYS[weekday]} at ${pad(time.hour)}:${pad(time.minute)} UTC`
+        }
+      };
+    }
+
+    case 'monthly': {
+      const last = words[0]?.toLowerCase() === 'last';
+      const day = /^\d{1,2}$/.test(words[0] ?? '') ? parseInt(words[0], 10) : NaN;
+      const time = words.length === 2 ? parseTime(words[1]) : null;
+      // Days 29 to 31 do not occur every month; 'last' covers month ends
+      if ((!last && !(day >= 1 && day <= 28)) || !time) {
+        return { valid: false, error: "⚠️ Please enter a day from 1 to 28 or 'last', and a time in UTC, e.g. 1 09:00" };
+      }
+      return {
+        valid: true,
+        value: {
+          frequency,
+          cron: `${time.minute} ${time.hour} ${last ? 'L' : day} * *`,
+          timing: `Monthly on ${last ? 'the last day' : `day ${day}`} at ${pad(time.hour)}:${pad(time.minute)} UTC`
+        }
+      };
+    }
+
+    case 'cron': {
+      let runs: number[];
+      let source: string;
+      try {
+        const cron = parseCron(text);
+        source = cron.source;
+        runs = upcomingRuns({ cron: source }, now, CRON_RUNS_CHECKED);
+      } catch (error) {
+        return { valid: false, error: `⚠️ ${(error as Error).message}.` };
+      }
+
+      if (runs.length === 0) {
+        return { valid: false, error: "⚠️ This cron expression never runs. Please check the day and month." };
+      }
+      if (runs.some((run, index) => index > 0 && run - runs[index - 1] < MIN_CRON_INTERVAL)) {
+        return { valid: false, error: "⚠️ Scheduled payouts may run at most once an hour. Please use a less frequent expression." };
+      }
+      return { valid: true, value: { frequency, cron: source, timing: `Cron ${source} (UTC)` } };
+    }
+  }
+}
+
+/**
+ * The next runs of a schedule
+ * @param schedule Cron expression or one-off time
+ * @param after Time in milliseconds to start from
+ * @param count Most runs returned
+ */
+function upcomingRuns(schedule: Pick<ScheduledPayout, 'cron' | 'runAt'>, after: number, count: number): number[] {
+  if (schedule.cron) {
+    // Parse once rather than on every step
+    const cron = parseCron(schedule.cron);
+    const runs: number[] = [];
+    let run = nextCronRun(cron, new Date(after));
+    while (run && runs.length < count) {
+      runs.push(run.getTime());
+      run = nextCronRun(cron, run);
+    }
+    return runs;
+  }
+
+  const run = nextScheduledRun(schedule, after);
+  return run === null ? [] : [run];
+}
+
+/**
+ * Details of one scheduled payout for the manage view
+ */
+function formatSchedule(schedule: ScheduledPayout): string {
+  const status = schedule.paused
+    ? '⏸️ Paused'
+    : schedule.nextRunAt === null ? 'Not scheduled; change its timing' : `Next run: ${formatUtcTime(schedule.nextRunAt)}`;
+  const lastRun = schedule.lastRun
+    ? `\nLast run: ${schedule.lastRun.status} on ${formatUtcTime(schedule.lastRun.at)}`
+    : '';
+
+  return `${formatTransferAmount(schedule.amount)} to ${formatPayoutDestination(schedule.destination)}\n` +
+    (schedule.description ? `Description: ${schedule.description}\n` : '') +
+    `${schedule.timing}\n` +
+    `${status}${lastRun}`;
+}
+
+/**
+ * Frequency step shared by creating and editing a schedule
+ */
+function frequencyStep(): ConversationStep<ScheduleConversationData> {
+  return {
+    id: 'frequency',
+    prompt: async ({ reply, keyboard }) => {
+      const buttons = Object.entries(FREQUENCIES).map(([action, text]) => ({ text, action }));
+      await reply("How often should it run?", {
+        reply_markup: await keyboard([buttons.slice(0, 2), buttons.slice(2, 4), buttons.slice(4)])
+      });
+    },
+    handleCallback: async (action, { data }) => {
+      if (!(action in FREQUENCIES)) return stay();
+
+      data.frequency = action as ScheduleFrequency;
+      return next();
+    }
+  };
+}
+
+/**
+ * Asks for the timing of the chosen frequency
+ */
+async function promptTiming({ reply, data }: ConversationContext<ScheduleConversationData>): Promise<void> {
+  await reply(`🕒 ${TIMING_PROMPTS[data.frequency ?? 'once']}`);
+}
+
+function validateTiming(text: string, { data }: ConversationContext<ScheduleConversationData>): StepValidation<ScheduleTiming> {
+  return parseTiming(data.frequency ?? 'once', text);
+}
+
+/**
+ * Conversation flow for /schedule
+ */
+const scheduleConversation: ConversationFlow<ScheduleConversationData> = {
+  id: 'schedule',
+  steps: [
+    {
+      id: 'destination',
+      field: 'destination',
+      prompt: async ({ reply, keyboard, chatId }) => {
+        const contacts = await getContacts(chatId).catch((error) => {
+          logger.error(`Error loading contacts for chat ${chatId}:`, error);
+          return [];
+        });
+        const text = "🗓️ *Schedule a Payout*\n\nPlease enter the recipient's email address or a wallet address";
+
+        if (contacts.length === 0) {
+          await reply(`${text}:`, { parse_mode: 'Markdown' });
+          return;
+        }
+
+        await reply(`${text}, or pick a saved contact:`, {
+          parse_mode: 'Markdown',
+          reply_markup: await keyboard(contactButtonRows(contacts.slice(0, MAX_CONTACT_BUTTONS)))
+        });
+      },
+      validate: (text) => text.includes('@') ? validateEmail(text) : validateAddress(text),
+      handleText: async (value: string, { data }) => {
+        if (value.includes('@')) {
+          data.destination = { kind: 'email', email: value };
+          return goto('amount');
+        }
+
+        data.address = value;
+        return next();
+      },
+      handleCallback: async (action, { chatId, data }) => {
+        const contact = pickedContact(action, await getContacts(chatId));
+        if (!contact) return stay();
+
+        data.destination = contact.kind === 'email'
+          ? { kind: 'email', email: contact.email }
+          : { kind: 'wallet', address: contact.address, network: contact.network };
+        return goto('amount');
+      }
+    },
+    {
+      id: 'network',
+      prompt: async ({ reply, keyboard, data }) => {
+        await reply("Please select the network of this address:", {
+          reply_markup: await keyboard(addressNetworkButtons(data.address!))
+        });
+      },
+      handleCallback: async (action, { data }) => {
+        if (!(action in WITHDRAWAL_NETWORKS) || !validateAddress(data.address!, action).valid) return stay();
+
+        data.destination = { kind: 'wallet', address: data.address!, network: action };
+        return next();
+      }
+    },
+    {
+      id: 'amount',
+      prompt: async ({ reply, data }) => {
+        await reply(`Please enter the amount in USDC for each payout to ${formatPayoutDestination(data.destination!)}:`);
+      },
+      validate: validateAmount,
+      handleText: async (amount: number, { data }) => {
+        data.amount = amount;
+        // Wallet withdrawals carry no description
+        return data.destination!.kind === 'email' ? next() : goto('frequency');
+      }
+    },
+    {
+      id: 'description',
+      field: 'description',
+      prompt: async ({ reply }) => {
+        await reply("Please enter a description for these transfers (optional, type 'skip' to leave blank):");
+      },
+      validate: validateDescription
+    },
+    frequencyStep(),
+    {
+      id: 'timing',
+      field: 'timing',
+      prompt: promptTiming,
+      validate: validateTiming
+    },
+    {
+      id: 'confirm',
+      prompt: async ({ reply, keyboard, data }) => {
+        const runs = upcomingRuns(data.timing!, Date.now(), PREVIEW_RUNS);
+        const message = `🗓️ Scheduled Payout Confirmation\n\n` +
+          `To: ${formatPayoutDestination(data.destination!)}\n` +
+          `Amount: ${formatTransferAmount(data.amount!)}\n` +
+          (data.description ? `Description: ${data.description}\n` : '') +
+          `When: ${data.timing!.timing}\n\n` +
+          (data.timing!.frequency === 'once' ? '' : `Next runs:\n${runs.map((run) => `• ${formatUtcTime(run)}`).join('\n')}\n\n`) +
+          `You will be reminded before each run. Please confirm this schedule:`;
+
+        // Cron expressions contain asterisks, so this message is sent without Markdown
+        await reply(message, {
+          reply_markup: await keyboard([
+            [
+              { text: '✅ Confirm', action: 'confirm' },
+              { text: '❌ Cancel', action: 'cancel' }
+            ]
+          ])
+        });
+      },
+      handleCallback: async (action, { bot, chatId, data }) => {
+        if (action === 'cancel') {
+          await bot.sendMessage(chatId, "❌ Scheduled payout has been canceled.");
+          return end();
+        }
+
+        if (action !== 'confirm') {
+          return stay();
+        }
+
+        if (nextScheduledRun(data.timing!, Date.now()) === null) {
+          await bot.sendMessage(chatId, "⚠️ That time has already passed. Please enter a time in the future.");
+          return goto('timing');
+        }
+
+        // Payouts run unattended, so the second factor is asked for when they are set up
+        const stepUp = await stepUpCheck(bot, chatId, data.amount!);
+        return stepUp ?? completeSchedule(bot, chatId, data);
+      }
+    },
+    stepUpStep<ScheduleConversationData>(({ bot, chatId, data }) => completeSchedule(bot, chatId, data))
+  ]
+};
+
+/**
+ * Save a confirmed scheduled payout
+ */
+async function completeSchedule(bot: TelegramBot, chatId: number, data: ScheduleConversationData): Promise<StepOutcome> {
+  try {
+    const schedule = await createSchedule(chatId, {
+      destination: data.destination!,
+      amount: data.amount!,
+      description: data.description || undefined,
+      ...data.timing!
+    });
+    await bot.sendMessage(chatId,
+      `✅ Payout scheduled. The first run is on ${formatUtcTime(schedule.nextRunAt!)}.\n\n` +
+      `Use /schedules to pause, change or delete it.`
+    );
+  } catch (error) {
+    logger.error('Error creating scheduled payout:', error);
+    await bot.sendMessage(chatId, `❌ Could not save the schedule: ${(error as Error).message}.`);
+  }
+  return end();
+}
+
+/**
+ * Apply a new amount to the schedule being edited in /schedules
+ */
+async function completeAmountChange(
+  bot: TelegramBot,
+  chatId: number,
+  data: ScheduleConversationData
+): Promise<StepOutcome> {
+  const schedule = await getSchedule(chatId, data.id!);
+  if (schedule) {
+    await saveSchedule({ ...schedule, amount: data.amount! });
+    await bot.sendMessage(chatId, `✅ Each payout is now ${formatTransferAmount(data.amount!)}.`);
+  }
+  return goto(schedule ? 'manage' : 'list');
+}
+
+/**
+ * Conversation flow for /schedules: list, pause, edit and delete scheduled payouts
+ */
+const schedulesConversation: ConversationFlow<ScheduleConversationData> = {
+  id: 'schedules',
+  steps: [
+    {
+      id: 'list',
+      prompt: async ({ reply, keyboard, chatId }) => {
+        const schedules = await getSchedules(chatId);
+        const rows: CallbackButton[][] = schedules.map((schedule, index) => [{
+          text: `${index + 1}. ${formatTransferAmount(schedule.amount)} to ${formatPayoutDestination(schedule.destination)}`,
+          action: `${SCHEDULE_ACTION}${schedule.id}`
+        }]);
+        rows.push([
+          { text: '➕ New', action: 'new' },
+          { text: '✅ Done', action: 'done' }
+        ]);
+
+        const list = schedules.length === 0
+          ? 'You have no scheduled payouts.'
+          : schedules.map((schedule, index) => `${index + 1}. ${formatSchedule(schedule)}`).join('\n\n') +
+            '\n\nPick a payout to pause, change or delete it.';
+
+        await reply(`🗓️ Scheduled Payouts\n\n${list}`, { reply_markup: await keyboard(rows) });
+      },
+      handleCallback: async (action, { bot, chatId, data }) => {
+        if (action === 'done') return end();
+
+        if (action === 'new') {
+          if ((await getSchedules(chatId)).length >= MAX_SCHEDULES) {
+            await bot.sendMessage(chatId, `⚠️ You can have up to ${MAX_SCHEDULES} scheduled payouts. Delete one to add another.`);
+            return goto('list');
+          }
+          return switchTo('schedule');
+        }
+
+        if (!action.startsWith(SCHEDULE_ACTION)) return stay();
+
+        data.id = action.slice(SCHEDULE_ACTION.length);
+        return goto('manage');
+      }
+    },
+    {
+      id: 'manage',
+      prompt: async ({ reply, keyboard, chatId, data }) => {
+        const schedule = await getSchedule(chatId, data.id!);
+        if (!schedule) {
+          await reply("⚠️ This scheduled payout no longer exists.", {
+            reply_markup: await keyboard([[{ text: '⬅️ Back', action: 'back' }]])
+          });
+          return;
+        }
+
+        await reply(`🗓️ Scheduled Payout\n\n${formatSchedule(schedule)}`, {
+          reply_markup: await keyboard([
+            [
+              schedule.paused ? { text: '▶️ Resume', action: 'resume' } : { text: '⏸️ Pause', action: 'pause' },
+              { text: '🗑️ Delete', action: 'delete' }
+            ],
+            [
+              { text: '✏️ Amount', action: 'amount' },
+              { text: '🕒 Timing', action: 'frequency' }
+            ],
+            [{ text: '⬅️ Back', action: 'back' }]
+          ])
+        });
+      },
+      handleCallback: async (action, { bot, chatId, data }) => {
+        if (action === 'back') return goto('list');
+
+        const schedule = await getSchedule(chatId, data.id!);
+        if (!schedule) return goto('list');
+
+        switch (action) {
+          case 'pause':
+            await saveSchedule({ ...schedule, paused: true });
+            await bot.sendMessage(chatId, "⏸️ Paused. It will not run until you resume it.");
+            return goto('manage');
+          case 'resume': {
+            // Runs missed while paused are not caught up
+            const nextRunAt = nextScheduledRun(schedule, Date.now());
+            await saveSchedule({ ...schedule, paused: false, nextRunAt });
+            await bot.sendMessage(chatId, nextRunAt === null
+              ? "▶️ Resumed, but its time has passed. Change its timing to run it."
+              : `▶️ Resumed. The next run is on ${formatUtcTime(nextRunAt)}.`);
+            return goto('manage');
+          }
+          case 'amount':
+          case 'frequency':
+          case 'delete':
+            return goto(action);
+          default:
+            return stay();
+        }
+      }
+    },
+    {
+      id: 'amount',
+      prompt: async ({ reply }) => {
+        await reply("Please enter the new amount in USDC for each payout:");
+      },
+      validate: validateAmount,
+      handleText: async (amount: number, { bot, chatId, data }) => {
+        data.amount = amount;
+        const stepUp = await stepUpCheck(bot, chatId, amount);
+        return stepUp ?? completeAmountChange(bot, chatId, data);
+      }
+    },
+    frequencyStep(),
+    {
+      id: 'timing',
+      prompt: promptTiming,
+      validate: validateTiming,
+      handleText: async (timing: ScheduleTiming, { bot, chatId, data }) => {
+        const schedule = await getSchedule(chatId, data.id!);
+        if (!schedule) return goto('list');
+
+        const nextRunAt = nextScheduledRun(timing, Date.now());
+        await saveSchedule({
+          ...schedule,
+          frequency: timing.frequency,
+          timing: timing.timing,
+          cron: timing.cron,
+          runAt: timing.runAt,
+          nextRunAt,
+          remindedFor: undefined
+        });
+        await bot.sendMessage(chatId, `✅ It now runs: ${timing.timing}.`);
+        return goto('manage');
+      }
+    },
+    {
+      id: 'delete',
+      prompt: async ({ reply, keyboard }) => {
+        await reply("🗑️ Delete this scheduled payout? Payouts already sent are not affected.", {
+          reply_markup: await keyboard([
+            [
+              { text: '🗑️ Delete', action: 'delete' },
+              { text: 'Keep', action: 'keep' }
+            ]
+          ])
+        });
+      },
+      handleCallback: async (action, { bot, chatId, data }) => {
+        if (action === 'keep') return goto('manage');
+        if (action !== 'delete') return stay();
+
+        await deleteSchedule(chatId, data.id!);
+        await bot.sendMessage(chatId, "🗑️ Scheduled payout deleted.");
+        return goto('list');
+      }
+    },
+    stepUpStep<ScheduleConversationData>(({ bot, chatId, data }) => completeAmountChange(bot, chatId, data))
+  ]
+};
+
+/**
+ * Handle /schedule command to create a one-off or recurring payout
+ * @param bot Telegram bot instance
+ * @param auth Session resolved by the command router
+ */
+export async function scheduleCommand(bot: TelegramBot, { chatId }: AuthContext): Promise<void> {
+  try {
+    if ((await getSchedules(chatId)).length >= MAX_SCHEDULES) {
+      await bot.sendMessage(chatId, `⚠️ You can have up to ${MAX_SCHEDULES} scheduled payouts. Delete one with /schedules to add another.`);
+      return;
+    }
+
+    await startConversation(bot, chatId, 'schedule');
+  } catch (error) {
+    logger.error('Error in schedule command:', error);
+    await bot.sendMessage(chatId, "❌ Something went wrong while processing your request. Please try again later.");
+  }
+}
+
+/**
+ * Handle /schedules command to list and manage scheduled payouts
+ * @param bot Telegram bot instance
+ * @param auth Session resolved by the command router
+ */
+export async function schedulesCommand(bot: TelegramBot, { chatId }: AuthContext): Promise<void> {
+  try {
+    await startConversation(bot, chatId, 'schedules');
+  } catch (error) {
+    logger.error('Error in schedules command:', error);
+    await bot.sendMessage(chatId, "❌ Something went wrong while loading your scheduled payouts. Please try again later.");
+  }
+}
+
+/**
+ * Registers the scheduled payout commands and conversations
+ */
+export function registerScheduleCommands(): void {
+  registerConversation(scheduleConversation);
+  registerConversation(schedulesConversation);
+
+  registerCommand({
+    name: 'schedule',
+    description: 'Schedule a one-off or recurring payout',
+    category: 'transfer',
+    rateLimit: 'read',
+    auth: { kyc: true, unlocked: true },
+    handler: ({ bot }, auth) => scheduleCommand(bot, auth)
+  });
+  registerCommand({
+    name: 'schedules',
+    description: 'List, pause, edit and delete scheduled payouts',
+    category: 'transfer',
+    rateLimit: 'read',
+    auth: true,
+    handler: ({ bot }, auth) => schedulesCommand(bot, auth)
+  });
+}
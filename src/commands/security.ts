@@ -0,0 +1,329 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { formatTransferAmount } from '../utils/formatter';
+import { decryptValue, encryptValue } from '../utils/crypto';
+import { generateTotpSecret, totpUri } from '../utils/totp';
+import { getUserProfile } from '../services/auth';
+import {
+  SecondFactor,
+  enableTotp,
+  getSecondFactor,
+  requiresStepUp,
+  getTransferLock,
+  removeSecondFactor,
+  setTransactionPin,
+  verifySecondFactor
+} from '../services/security';
+import { AuthContext, transferLockedMessage } from '../middleware/auth';
+import { CallbackButton } from '../callbacks';
+import {
+  ConversationContext,
+  ConversationFlow,
+  ConversationStep,
+  StepOutcome,
+  StepValidation,
+  registerConversation,
+  startConversation,
+  next,
+  goto,
+  stay,
+  end
+} from '../conversations';
+import { registerCommand } from './registry';
+
+// Issuer shown next to the account in authenticator apps
+const TOTP_ISSUER = 'Copperx';
+
+const PIN_REGEX = /^\d{4,8}$/;
+
+// How each second factor is asked for
+const CODE_PROMPTS: Record<SecondFactor, string> = {
+  pin: 'your transaction PIN',
+  totp: 'the 6-digit code from your authenticator app'
+};
+
+/**
+ * Conversation state for /security
+ */
+interface SecurityConversationData {
+  // Set once the current second factor has been entered, or when there is none
+  verified?: boolean;
+  // Account name shown in the authenticator app
+  account?: string;
+  // New PIN waiting to be entered again, encrypted
+  pin?: string;
+  // Authenticator secret waiting for its first code, encrypted
+  secret?: string;
+}
+
+/**
+ * Context the PIN and secret are encrypted for while they wait in the conversation state
+ */
+function enrollmentContext(chatId: number): string {
+  return `security-enrollment:${chatId}`;
+}
+
+/**
+ * Reply to a wrong PIN or code, ending the conversation once transfers are locked
+ * @param bot Telegram bot instance
+ * @param chatId Chat ID
+ * @param result Result of verifySecondFactor
+ */
+async function rejectCode(
+  bot: TelegramBot,
+  chatId: number,
+  result: { attemptsLeft: number; lockedUntil?: number }
+): Promise<StepOutcome> {
+  if (result.lockedUntil !== undefined) {
+    await bot.sendMessage(chatId, transferLockedMessage(result.lockedUntil));
+    return end();
+  }
+
+  await bot.sendMessage(chatId,
+    `⚠️ That code is not right. ${result.attemptsLeft} attempt(s) left before transfers are locked ` +
+    `for ${config.security.lockoutMinutes} minutes.`);
+  return stay();
+}
+
+/**
+ * Check whether a confirmed transfer needs the second factor
+ *
+ * Confirmation steps call this after the user taps Confirm, and go on with
+ * the transfer when it returns null.
+ * @param bot Telegram bot instance
+ * @param chatId Chat ID
+ * @param amount Amount in USDC, the total for a batch
+ * @returns goto('verify') when a PIN or code is needed, end() when transfers are locked, or null
+ */
+export async function stepUpCheck(bot: TelegramBot, chatId: number, amount: number): Promise<StepOutcome | null> {
+  const lockedUntil = await getTransferLock(chatId);
+  if (lockedUntil !== null) {
+    await bot.sendMessage(chatId, transferLockedMessage(lockedUntil));
+    return end();
+  }
+
+  return (await requiresStepUp(chatId, amount)) ? goto('verify') : null;
+}
+
+/**
+ * Step asking for the PIN or authenticator code of a transfer that stepUpCheck sent to 'verify'
+ * @param proceed Completes the transfer once the code is right
+ */
+export function stepUpStep<T extends Record<string, any>>(
+  proceed: (ctx: ConversationContext<T>) => Promise<StepOutcome>
+): ConversationStep<T> {
+  return {
+    id: 'verify',
+    sensitive: true,
+    prompt: async ({ reply, chatId }) => {
+      const method = await getSecondFactor(chatId);
+      await reply(`🔐 This transfer is above ${formatTransferAmount(config.security.stepUpThreshold)}. ` +
+        `Please enter ${CODE_PROMPTS[method ?? 'pin']} to confirm it:`);
+    },
+    validate: (text) => ({ valid: true, value: text.trim() }),
+    handleText: async (code: string, ctx) => {
+      const result = await verifySecondFactor(ctx.chatId, code);
+      return result.ok ? proceed(ctx) : rejectCode(ctx.bot, ctx.chatId, result);
+    }
+  };
+}
+
+/**
+ * Name of the account shown in authenticator apps: the user's email, or the chat if the profile is unavailable
+ */
+async function accountName(chatId: number): Promise<string> {
+  try {
+    return (await getUserProfile(chatId)).email;
+  } catch (error) {
+    logger.warn(`Could not load the profile of chat ${chatId} for TOTP enrollment:`, error);
+    return `Telegram ${chatId}`;
+  }
+}
+
+/**
+ * Validate a new transaction PIN
+ */
+function validatePin(text: string): StepValidation<string> {
+  const pin = text.trim();
+  if (!PIN_REGEX.test(pin)) {
+    return { valid: false, error: "⚠️ Please enter a PIN of 4 to 8 digits." };
+  }
+  if (/^(\d)\1+$/.test(pin) || '0123456789'.includes(pin) || '9876543210'.includes(pin)) {
+    return { valid: false, error: "⚠️ That PIN is too easy to guess. Please avoid repeated or consecutive digits." };
+  }
+  return { valid: true, value: pin };
+}
+
+/**
+ * Conversation flow for /security
+ */
+const securityConversation: ConversationFlow<SecurityConversationData> = {
+  id: 'security',
+  steps: [
+    {
+      id: 'current',
+      field: 'verified',
+      sensitive: true,
+      prompt: async ({ reply, chatId }) => {
+        const method = await getSecondFactor(chatId);
+        await reply(`🔐 Please enter ${CODE_PROMPTS[method ?? 'pin']} to change your transfer security:`);
+      },
+      validate: (text) => ({ valid: true, value: text.trim() }),
+      handleText: async (code: string, { bot, chatId, data }) => {
+        const result = await verifySecondFactor(chatId, code);
+        if (!result.ok) return rejectCode(bot, chatId, result);
+
+        data.verified = true;
+        return next();
+      }
+    },
+    {
+      id: 'menu',
+      prompt: async ({ reply, keyboard, chatId }) => {
+        const method = await getSecondFactor(chatId);
+        const current = method === 'pin' ? 'your transaction PIN'
+          : method === 'totp' ? 'a code from your authenticator app'
+          : 'a tap on Confirm only';
+
+        const rows: CallbackButton[][] = [
+          [
+            { text: '🔢 Set PIN', action: 'pin' },
+            { text: '📱 Authenticator app', action: 'totp' }
+          ]
+        ];
+        if (method) {
+          rows.push([{ text: '🗑️ Remove', action: 'remove' }]);
+        }
+        rows.push([{ text: '✅ Done', action: 'done' }]);
+
+        await reply(
+          `🔐 *Transfer Security*\n\n` +
+          `Transfers above ${formatTransferAmount(config.security.stepUpThreshold)} are confirmed with ${current}.\n\n` +
+          `After ${config.security.maxAttempts} wrong codes in a row, transfers are locked for ` +
+          `${config.security.lockoutMinutes} minutes.`,
+          { parse_mode: 'Markdown', reply_markup: await keyboard(rows) }
+        );
+      },
+      handleCallback: async (action, { bot, chatId, data }) => {
+        switch (action) {
+          case 'done':
+            return end();
+          case 'pin':
+            return goto('pin');
+          case 'totp':
+            data.secret = encryptValue(generateTotpSecret(), enrollmentContext(chatId));
+            data.account = await accountName(chatId);
+            return goto('totp');
+          case 'remove':
+            await removeSecondFactor(chatId);
+            await bot.sendMessage(chatId, "🗑️ Second factor removed. Transfers are confirmed with a tap again.");
+            return end();
+          default:
+            return stay();
+        }
+      }
+    },
+    {
+      id: 'pin',
+      sensitive: true,
+      prompt: async ({ reply }) => {
+        await reply("🔢 Choose a transaction PIN of 4 to 8 digits:");
+      },
+      validate: validatePin,
+      handleText: async (pin: string, { chatId, data }) => {
+        data.pin = encryptValue(pin, enrollmentContext(chatId));
+        return goto('pin_confirm');
+      }
+    },
+    {
+      id: 'pin_confirm',
+      sensitive: true,
+      prompt: async ({ reply }) => {
+        await reply("Please enter the PIN again:");
+      },
+      validate: (text) => ({ valid: true, value: text.trim() }),
+      handleText: async (pin: string, { bot, chatId, data }) => {
+        if (pin !== decryptValue(data.pin!, enrollmentContext(chatId)).plaintext) {
+          data.pin = undefined;
+          await bot.sendMessage(chatId, "⚠️ The PINs do not match.");
+          return goto('pin');
+        }
+
+        await setTransactionPin(chatId, pin);
+        data.pin = undefined;
+        await bot.sendMessage(chatId,
+          `✅ PIN set. Transfers above ${formatTransferAmount(config.security.stepUpThreshold)} will ask for it.`);
+        return end();
+      }
+    },
+    {
+      id: 'totp',
+      sensitive: true,
+      prompt: async ({ reply, chatId, data }) => {
+        const secret = decryptValue(data.secret!, enrollmentContext(chatId)).plaintext;
+        const uri = totpUri(secret, data.account!, TOTP_ISSUER);
+        await reply(
+          `📱 *Authenticator App*\n\n` +
+          `Add this key to your authenticator app (Google Authenticator, 1Password, Authy...):\n\n` +
+          `\`${secret}\`\n\n` +
+          `Or import this link:\n\`${uri}\`\n\n` +
+          `Then enter the 6-digit code the app shows:`,
+          { parse_mode: 'Markdown' }
+        );
+      },
+      validate: (text) => ({ valid: true, value: text.trim() }),
+      handleText: async (code: string, { bot, chatId, data }) => {
+        const secret = decryptValue(data.secret!, enrollmentContext(chatId)).plaintext;
+        if (!(await enableTotp(chatId, secret, code))) {
+          await bot.sendMessage(chatId, "⚠️ That code does not match. Check that the key was entered correctly and try again.");
+          return stay();
+        }
+
+        data.secret = undefined;
+        await bot.sendMessage(chatId,
+          `✅ Authenticator app enrolled. Transfers above ${formatTransferAmount(config.security.stepUpThreshold)} ` +
+          `will ask for its code.`);
+        return end();
+      }
+    }
+  ]
+};
+
+/**
+ * Handle /security command to set up a transaction PIN or authenticator app
+ * @param bot Telegram bot instance
+ * @param auth Session resolved by the command router
+ */
+export async function securityCommand(bot: TelegramBot, { chatId }: AuthContext): Promise<void> {
+  try {
+    const lockedUntil = await getTransferLock(chatId);
+    if (lockedUntil !== null) {
+      await bot.sendMessage(chatId, transferLockedMessage(lockedUntil));
+      return;
+    }
+
+    // The current second factor guards changes to it
+    const verified = (await getSecondFactor(chatId)) === null ? true : undefined;
+    await startConversation(bot, chatId, 'security', { verified });
+  } catch (error) {
+    logger.error('Error in security command:', error);
+    await bot.sendMessage(chatId, "❌ Something went wrong while loading your security settings. Please try again later.");
+  }
+}
+
+/**
+ * Registers the transfer security command and conversation
+ */
+export function registerSecurityCommands(): void {
+  registerConversation(securityConversation);
+
+  registerCommand({
+    name: 'security',
+    description: 'Confirm larger transfers with a PIN or authenticator app',
+    category: 'auth',
+    rateLimit: 'read',
+    auth: true,
+    handler: ({ bot }, auth) => securityCommand(bot, auth)
+  });
+}
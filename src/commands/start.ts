@@ -5,9 +5,8 @@ import { logger } from '../utils/logger';
  * Handles the /start command
  * @param bot - The Telegram bot instance
  * @param msg - The message object from Telegram
- * @param match - The RegExp match result
  */
-export function handleStartCommand(bot: TelegramBot, msg: TelegramBot.Message, match: RegExpExecArray | null): void {
+export function handleStartCommand(bot: TelegramBot, msg: TelegramBot.Message): void {
   const chatId = msg.chat.id;
   
   try {
@@ -1,30 +1,117 @@
 import TelegramBot from 'node-telegram-bot-api';
 import { logger } from '../utils/logger';
-import { getUserToken, isAuthenticated } from '../services/auth';
-import { sendFunds, withdrawToWallet, withdrawToBank, getTransactionHistory } from '../services/transfer';
-import { getDefaultWallet } from '../services/wallet';
-import { formatTransferAmount, formatDate } from '../utils/formatter';
+import {
+  sendFunds,
+  withdrawToWallet,
+  withdrawToBank,
+  getTransactionHistory,
+  getTransferQuote,
+  getBankAccounts
+} from '../services/transfer';
+import { getDefaultWallet, getWalletBalances } from '../services/wallet';
+import { getContacts, shouldOfferContact } from '../services/contacts';
+import { getAllowance, spendingLimitError } from '../services/limits';
+import { newIdempotencyKey } from '../services/idempotency';
+import { BankAccount, Contact, PayoutDestination, QuoteRequest, TransferQuote } from '../types';
+import { formatTransferAmount, formatDate, formatBankAccount } from '../utils/formatter';
+import { NETWORK_ADDRESS_FAMILIES, addressFamily, hasValidChecksum } from '../utils/address';
+import { AuthContext } from '../middleware/auth';
+import { checkRateLimit } from '../middleware/rateLimit';
+import { registerCommand } from './registry';
+import { stepUpCheck, stepUpStep } from './security';
+import { CallbackButton, setRepeatTapAnswer } from '../callbacks';
+import {
+  ConversationContext,
+  ConversationFlow,
+  StepOutcome,
+  StepValidation,
+  registerConversation,
+  startConversation,
+  next,
+  goto,
+  stay,
+  end,
+  switchTo
+} from '../conversations';
 
 // Regular expression for amount validation (positive number with optional decimal places)
 const AMOUNT_REGEX = /^\d+(\.\d{1,6})?$/;
 
+// Networks available for wallet withdrawals, with their button labels
+export const WITHDRAWAL_NETWORKS: Record<string, string> = {
+  solana: 'Solana',
+  ethereum: 'Ethereum',
+  polygon: 'Polygon',
+  base: 'Base',
+  arbitrum: 'Arbitrum'
+};
+
+// Prefix of the actions of saved contact buttons, followed by the contact ID
+const CONTACT_ACTION = 'contact.';
+
+// Saved contacts offered as buttons by a wizard step
+export const MAX_CONTACT_BUTTONS = 10;
+
+// Prefix of the actions of bank account buttons, followed by the account's index in the list
+const BANK_ACCOUNT_ACTION = 'bank.';
+
+// Settlement time of bank accounts the API gives none for
+const DEFAULT_SETTLEMENT_TIME = '1-3 business days';
+
+// Shown when /withdraw is given arguments it cannot place
+const WITHDRAW_USAGE = "⚠️ Usage: /withdraw wallet <address> <amount> [network] or /withdraw bank <amount>";
+
+/**
+ * Inline arguments of /send
+ */
+export interface SendArguments {
+  email?: string;
+  amount?: string;
+  description?: string;
+}
+
+/**
+ * Inline arguments of /withdraw
+ */
+export interface WithdrawArguments {
+  method?: string;
+  // Remaining words: address, amount and network for wallets, amount for banks
+  details?: string;
+}
+
 /**
  * Handle /send command to transfer funds to an email
+ *
+ * Valid inline arguments fill their wizard steps, so only missing or invalid
+ * values are asked for.
  * @param bot Telegram bot instance
  * @param msg Message object from Telegram
+ * @param auth Session resolved by the command router
+ * @param args Inline arguments, e.g. /send alice@acme.com 25.50 "March invoice"
  */
-export async function sendCommand(bot: TelegramBot, msg: TelegramBot.Message): Promise<void> {
-  const chatId = msg.chat.id;
-  
+export async function sendCommand(
+  bot: TelegramBot,
+  msg: TelegramBot.Message,
+  { chatId }: AuthContext,
+  args: SendArguments = {}
+): Promise<void> {
   try {
-    // Check if user is authenticated
-    if (!await isAuthenticated(chatId)) {
-      bot.sendMessage(chatId, "⚠️ You need to login first! Use /login to authenticate.");
-      return;
+    const errors: string[] = [];
+    const data: SendConversationData = {
+      recipient: prefill(args.email, validateEmail, errors),
+      amount: prefill(args.amount, validateAmount, errors),
+      description: prefill(args.description, validateDescription, errors)
+    };
+
+    // The description is optional, so a one-shot transfer does not ask for it
+    if (args.email && args.amount && data.description === undefined) {
+      data.description = '';
     }
 
-    // Start the conversation for collecting transfer details
-    await startSendConversation(bot, chatId);
+    await reportInvalidArguments(bot, chatId, errors);
+
+    // Start the conversation for collecting the missing transfer details
+    await startConversation(bot, chatId, 'send', withoutMissing(data));
   } catch (error) {
     logger.error('Error in send command:', error);
     bot.sendMessage(chatId, "❌ Something went wrong while processing your request. Please try again later.");
@@ -35,31 +122,58 @@ export async function sendCommand(bot: TelegramBot, msg: TelegramBot.Message): P
  * Handle /withdraw command for withdrawing funds
  * @param bot Telegram bot instance
  * @param msg Message object from Telegram
+ * @param auth Session resolved by the command router
+ * @param args Inline arguments, e.g. /withdraw wallet 0xabc… 100 ethereum or /withdraw bank 100
  */
-export async function withdrawCommand(bot: TelegramBot, msg: TelegramBot.Message): Promise<void> {
-  const chatId = msg.chat.id;
-  
+export async function withdrawCommand(
+  bot: TelegramBot,
+  msg: TelegramBot.Message,
+  { chatId }: AuthContext,
+  args: WithdrawArguments = {}
+): Promise<void> {
   try {
-    // Check if user is authenticated
-    if (!await isAuthenticated(chatId)) {
-      bot.sendMessage(chatId, "⚠️ You need to login first! Use /login to authenticate.");
+    const method = args.method?.toLowerCase();
+    const details = args.details ? args.details.split(/\s+/) : [];
+    const errors: string[] = [];
+
+    if (method === 'wallet' && details.length <= 3) {
+      const balances = await loadNetworkBalances(bot, chatId);
+      if (!balances) return;
+
+      const [address, amount, network] = details;
+      const networkErrors: string[] = [];
+      const chosen = prefill(network, (text) => validateNetwork(text, balances), networkErrors) ?? soleNetwork(balances);
+
+      const data: WalletWithdrawConversationData = {
+        balances,
+        network: chosen,
+        address: prefill(address, (text) => validateAddress(text, chosen), errors),
+        amount: prefill(amount, validateAmount, errors)
+      };
+      await reportInvalidArguments(bot, chatId, [...errors, ...networkErrors]);
+      await startConversation(bot, chatId, 'wallet_withdraw', withoutMissing(data));
       return;
     }
 
-    // Provide withdrawal options
-    const options: TelegramBot.SendMessageOptions = {
-      reply_markup: {
-        inline_keyboard: [
-          [{ text: '💳 To Bank Account', callback_data: 'withdraw_bank' }],
-          [{ text: '🔑 To External Wallet', callback_data: 'withdraw_wallet' }]
-        ]
-      },
-    };
+    if (method === 'bank' && details.length <= 1) {
+      const accounts = await loadBankAccounts(bot, chatId);
+      if (!accounts) return;
 
-    bot.sendMessage(chatId, "💸 *Withdraw Funds*\n\nPlease select your withdrawal method:", {
-      parse_mode: 'Markdown',
-      ...options
-    });
+      const data: BankWithdrawConversationData = {
+        accounts,
+        amount: prefill(details[0], validateAmount, errors)
+      };
+      await reportInvalidArguments(bot, chatId, errors);
+      await startConversation(bot, chatId, 'bank_withdraw', withoutMissing(data));
+      return;
+    }
+
+    if (method) {
+      await bot.sendMessage(chatId, WITHDRAW_USAGE);
+    }
+
+    // Start the conversation for choosing a withdrawal method
+    await startConversation(bot, chatId, 'withdraw');
   } catch (error) {
     logger.error('Error in withdraw command:', error);
     bot.sendMessage(chatId, "❌ Something went wrong while processing your request. Please try again later.");
@@ -70,26 +184,13 @@ export async function withdrawCommand(bot: TelegramBot, msg: TelegramBot.Message
  * Handle /history command to display transaction history
  * @param bot Telegram bot instance
  * @param msg Message object from Telegram
+ * @param auth Session resolved by requireAuth
  */
-export async function historyCommand(bot: TelegramBot, msg: TelegramBot.Message): Promise<void> {
-  const chatId = msg.chat.id;
-  
+export async function historyCommand(bot: TelegramBot, msg: TelegramBot.Message, { chatId }: AuthContext): Promise<void> {
   try {
-    // Check if user is authenticated
-    if (!await isAuthenticated(chatId)) {
-      bot.sendMessage(chatId, "⚠️ You need to login first! Use /login to authenticate.");
-      return;
-    }
-
-    const token = await getUserToken(chatId);
-    if (!token) {
-      bot.sendMessage(chatId, "⚠️ Authentication error. Please login again with /login");
-      return;
-    }
-
     bot.sendMessage(chatId, "🔍 Fetching your recent transactions...");
     
-    const response = await getTransactionHistory(token);
+    const response = await getTransactionHistory(chatId);
     
     if (!response.success || !response.data) {
       bot.sendMessage(chatId, `❌ Failed to fetch transaction history: ${response.error || 'Unknown error'}`);
@@ -106,7 +207,7 @@ export async function historyCommand(bot: TelegramBot, msg: TelegramBot.Message)
     // Format and display the transactions
     let message = "📜 *Recent Transactions*\n\n";
     
-    transactions.slice(0, 10).forEach((tx: any, index: number) => {
+    transactions.slice(0, 10).forEach((tx, index) => {
       const date = formatDate(tx.createdAt);
       const amount = formatTransferAmount(tx.amount);
       const type = tx.type || 'Transaction';
@@ -138,449 +239,1074 @@ export async function historyCommand(bot: TelegramBot, msg: TelegramBot.Message)
 }
 
 /**
- * Start conversation flow for sending funds
- * @param bot Telegram bot instance
- * @param chatId Chat ID
+ * Validate a recipient email address
+ * @param text Raw text reply
  */
-async function startSendConversation(bot: TelegramBot, chatId: number): Promise<void> {
-  // Store user states
-  const userStates: Record<number, any> = {};
-  
-  bot.sendMessage(chatId, "📤 *Send Funds*\n\nPlease enter the recipient's email address:", {
-    parse_mode: 'Markdown'
-  });
+export function validateEmail(text: string): StepValidation<string> {
+  return text.includes('@')
+    ? { valid: true, value: text }
+    : { valid: false, error: "⚠️ Please enter a valid email address." };
+}
 
-  // Set up listener for recipient email
-  const emailListener = async (msg: TelegramBot.Message) => {
-    if (msg.chat.id !== chatId) return;
-    
-    const email = msg.text?.trim();
-    if (!email || !email.includes('@')) {
-      bot.sendMessage(chatId, "⚠️ Please enter a valid email address.");
-      return;
-    }
+/**
+ * Validate an optional transfer description; 'skip' leaves it blank
+ * @param text Raw text reply
+ */
+export function validateDescription(text: string): StepValidation<string> {
+  return { valid: true, value: text.toLowerCase() === 'skip' ? '' : text };
+}
 
-    // Store recipient email and prompt for amount
-    userStates[chatId] = { recipient: email };
-    bot.removeListener('message', emailListener);
-    
-    bot.sendMessage(chatId, `Please enter the amount in USDC to send to ${email}:`);
-    bot.on('message', amountListener);
-  };
+/**
+ * Validate an external wallet address, for the format of its network when it is known
+ * @param text Raw text reply
+ * @param network Network the address is used on
+ */
+export function validateAddress(text: string, network?: string): StepValidation<string> {
+  const address = text.trim();
+  const family = addressFamily(address);
 
-  // Set up listener for amount
-  const amountListener = async (msg: TelegramBot.Message) => {
-    if (msg.chat.id !== chatId) return;
-    
-    const amountText = msg.text?.trim();
-    if (!amountText || !AMOUNT_REGEX.test(amountText)) {
-      bot.sendMessage(chatId, "⚠️ Please enter a valid amount (e.g., 10 or 10.5)");
-      return;
+  if (!family) {
+    if (address.includes('@')) {
+      return { valid: false, error: "⚠️ That is an email address. Use /send to send funds to an email." };
     }
-
-    const amount = parseFloat(amountText);
-    if (amount <= 0) {
-      bot.sendMessage(chatId, "⚠️ Amount must be greater than 0.");
-      return;
+    if (/^0x/i.test(address)) {
+      return { valid: false, error: "⚠️ EVM addresses are 0x followed by 40 hexadecimal characters. Please check that the whole address was pasted." };
+    }
+    if (/[0OIl]/.test(address) && /^[0-9A-Za-z]{32,44}$/.test(address)) {
+      return { valid: false, error: "⚠️ Solana addresses never contain 0, O, I or l. Please check the address for a typo." };
     }
+    return { valid: false, error: "⚠️ Please enter a valid Solana or EVM (0x...) wallet address." };
+  }
 
-    // Update state with amount and prompt for description
-    userStates[chatId].amount = amount;
-    bot.removeListener('message', amountListener);
-    
-    bot.sendMessage(chatId, "Please enter a description for this transfer (optional, type 'skip' to leave blank):");
-    bot.on('message', descriptionListener);
-  };
+  const expected = network ? NETWORK_ADDRESS_FAMILIES[network] : undefined;
+  if (expected && family !== expected) {
+    const label = WITHDRAWAL_NETWORKS[network!] ?? network;
+    return {
+      valid: false,
+      error: family === 'solana'
+        ? `⚠️ That is a Solana address, but ${label} is an EVM network. Please enter a 0x address, or withdraw on Solana.`
+        : `⚠️ That is an EVM address, which cannot receive on ${label}. Please enter a ${label} address, or withdraw on an EVM network.`
+    };
+  }
 
-  // Set up listener for description
-  const descriptionListener = async (msg: TelegramBot.Message) => {
-    if (msg.chat.id !== chatId) return;
-    
-    let description = msg.text?.trim();
-    if (description?.toLowerCase() === 'skip') {
-      description = '';
+  if (family === 'evm' && !hasValidChecksum(address)) {
+    return { valid: false, error: "⚠️ The capitalization of this address does not match its checksum, so it probably has a typo. Please copy it again." };
+  }
+
+  return { valid: true, value: address };
+}
+
+/**
+ * Validate a withdrawal network name
+ * @param text Network name, e.g. 'ethereum'
+ * @param balances USDC balance by network the user holds funds on
+ */
+function validateNetwork(text: string, balances: Record<string, number>): StepValidation<string> {
+  const network = text.toLowerCase();
+  const held = Object.keys(balances);
+
+  if (!(network in WITHDRAWAL_NETWORKS)) {
+    return { valid: false, error: `⚠️ Please choose one of these networks: ${held.join(', ')}.` };
+  }
+  if (!held.includes(network)) {
+    return { valid: false, error: `⚠️ You hold no USDC on ${WITHDRAWAL_NETWORKS[network]}. Please choose one of these networks: ${held.join(', ')}.` };
+  }
+  return { valid: true, value: network };
+}
+
+/**
+ * Buttons for the networks an address can receive on
+ * @param address Validated wallet address
+ */
+export function addressNetworkButtons(address: string): CallbackButton[][] {
+  const family = addressFamily(address);
+  return Object.entries(WITHDRAWAL_NETWORKS)
+    .filter(([network]) => NETWORK_ADDRESS_FAMILIES[network] === family)
+    .map(([action, text]) => [{ text, action }]);
+}
+
+/**
+ * Validate an inline argument with the rule of its wizard step
+ * @param value Argument, or undefined if it was not given
+ * @param validate Validator of the matching step
+ * @param errors Collects the errors of invalid arguments
+ * @returns The validated value, or undefined so the wizard asks for it
+ */
+function prefill<V>(
+  value: string | undefined,
+  validate: (text: string) => StepValidation<V>,
+  errors: string[]
+): V | undefined {
+  if (value === undefined) return undefined;
+
+  const result = validate(value);
+  if (!result.valid) {
+    errors.push(result.error);
+    return undefined;
+  }
+  return result.value;
+}
+
+/**
+ * Drop missing values so their steps are asked for
+ */
+function withoutMissing<T extends object>(data: T): Partial<T> {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+/**
+ * Tell the user which inline arguments were ignored before the wizard asks for them
+ */
+async function reportInvalidArguments(bot: TelegramBot, chatId: number, errors: string[]): Promise<void> {
+  if (errors.length > 0) {
+    await bot.sendMessage(chatId, errors.join('\n'));
+  }
+}
+
+/**
+ * Saved contacts of one kind, or none if the address book cannot be read
+ */
+async function savedContacts<K extends Contact['kind']>(chatId: number, kind: K): Promise<Extract<Contact, { kind: K }>[]> {
+  try {
+    return (await getContacts(chatId)).filter((contact): contact is Extract<Contact, { kind: K }> => contact.kind === kind);
+  } catch (error) {
+    logger.error(`Error loading contacts for chat ${chatId}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Buttons for picking a saved contact, two per row
+ * @param contacts Contacts to offer
+ */
+export function contactButtonRows(contacts: Contact[]): CallbackButton[][] {
+  const buttons = contacts.map((contact) => ({
+    text: `${contact.kind === 'email' ? '👤' : '🔑'} ${contact.label}`,
+    action: `${CONTACT_ACTION}${contact.id}`
+  }));
+
+  const rows: CallbackButton[][] = [];
+  for (let i = 0; i < buttons.length; i += 2) {
+    rows.push(buttons.slice(i, i + 2));
+  }
+  return rows;
+}
+
+/**
+ * The contact picked with a button built by contactButtonRows
+ * @param action Tapped action
+ * @param contacts Contacts that were offered
+ */
+export function pickedContact<C extends Contact>(action: string, contacts: C[]): C | undefined {
+  if (!action.startsWith(CONTACT_ACTION)) return undefined;
+  return contacts.find((contact) => contact.id === action.slice(CONTACT_ACTION.length));
+}
+
+/**
+ * End a completed transfer, first offering to save a destination the user has not saved yet
+ * @param chatId Chat ID
+ * @param destination Recipient or address the funds went to
+ */
+async function offerToSaveContact(chatId: number, destination: PayoutDestination): Promise<StepOutcome> {
+  try {
+    if (await shouldOfferContact(chatId, destination)) {
+      return switchTo('save_contact', destination);
     }
+  } catch (error) {
+    logger.error(`Error checking contacts for chat ${chatId}:`, error);
+  }
+  return end();
+}
 
-    // Update state with description and show confirmation
-    userStates[chatId].description = description;
-    bot.removeListener('message', descriptionListener);
-    
-    // Show confirmation message with transfer details
-    const confirmMessage = `📤 *Transfer Confirmation*\n\n` +
-      `To: ${userStates[chatId].recipient}\n` +
-      `Amount: ${userStates[chatId].amount} USDC\n` +
-      (description ? `Description: ${description}\n\n` : '\n') +
-      `Please confirm this transfer:`;
-    
-    const options: TelegramBot.SendMessageOptions = {
-      parse_mode: 'Markdown',
-      reply_markup: {
-        inline_keyboard: [
-          [
-            { text: '✅ Confirm', callback_data: 'confirm_send' },
-            { text: '❌ Cancel', callback_data: 'cancel_send' }
-          ]
-        ]
-      }
+/**
+ * Remaining spending allowance for a confirmation step
+ * @param chatId Chat ID
+ * @param amount Amount being confirmed, the total for a batch
+ * @returns A line to show, and why the amount is over a limit or null
+ */
+export async function describeAllowance(chatId: number, amount: number): Promise<{ text: string; error: string | null }> {
+  try {
+    const allowance = await getAllowance(chatId);
+    return {
+      text: `Remaining limit: ${formatTransferAmount(allowance.remainingToday)} today, ` +
+        `${formatTransferAmount(allowance.remainingThisMonth)} this month`,
+      error: spendingLimitError(allowance, amount)
     };
-    
-    bot.sendMessage(chatId, confirmMessage, options);
-  };
+  } catch (error) {
+    // The limit is checked again when the transfer is made
+    logger.error(`Error loading spending limits for chat ${chatId}:`, error);
+    return { text: 'Remaining limit: unavailable', error: null };
+  }
+}
 
-  // Set up callback handler for confirmation
-  bot.on('callback_query', async (callbackQuery) => {
-    if (!callbackQuery.message || callbackQuery.message.chat.id !== chatId) return;
-    
-    const action = callbackQuery.data;
-    
-    if (action === 'confirm_send') {
-      bot.answerCallbackQuery(callbackQuery.id);
-      
-      try {
-        const userData = userStates[chatId];
-        if (!userData) {
-          bot.sendMessage(chatId, "❌ Transfer data not found. Please start again with /send");
-          return;
-        }
-        
-        const token = await getUserToken(chatId);
-        if (!token) {
-          bot.sendMessage(chatId, "⚠️ Authentication error. Please login again with /login");
+/**
+ * Buttons of a confirmation step; only Cancel when the amount cannot be sent
+ */
+function confirmButtons(blocked: boolean): CallbackButton[][] {
+  return [
+    blocked
+      ? [{ text: '❌ Cancel', action: 'cancel' }]
+      : [
+        { text: '✅ Confirm', action: 'confirm' },
+        { text: '❌ Cancel', action: 'cancel' }
+      ]
+  ];
+}
+
+/**
+ * Conversation state of a flow that ends in a confirmed money movement
+ */
+export interface ConfirmationData {
+  // Idempotency key of the transfer on the confirmation, kept when the confirmation is shown again
+  idempotencyKey?: string;
+  // Details of the confirmation and the message showing them, edited to show progress once confirmed
+  confirmationText?: string;
+  confirmationId?: number;
+  // Fee quote shown on the confirmation, refreshed when it expires before Confirm is tapped
+  quote?: TransferQuote;
+}
+
+/**
+ * Quote lines of a confirmation step, keeping the quote in the conversation
+ * @param chatId Chat ID
+ * @param data State of the confirming conversation
+ * @param request Transfer to quote
+ * @returns Fee, total debited and amount received, with the fiat payout of bank withdrawals
+ */
+async function describeQuote(chatId: number, data: ConfirmationData, request: QuoteRequest): Promise<string> {
+  const result = await getTransferQuote(chatId, request);
+  if (!result.success || !result.data) {
+    // The fee is still shown in the transfer history once it is made
+    logger.warn(`Could not quote a ${request.kind} transfer for chat ${chatId}: ${result.error}`);
+    data.quote = undefined;
+    return 'Fee: quote unavailable right now';
+  }
+
+  const quote = result.data;
+  data.quote = quote;
+
+  const lines = [
+    `Fee: ${formatTransferAmount(quote.fee, quote.currency)}`,
+    `Total debited: ${formatTransferAmount(quote.total, quote.currency)}`,
+    `Receive amount: ${formatTransferAmount(quote.receiveAmount, quote.currency)}`
+  ];
+  if (quote.fiatAmount && quote.fiatCurrency) {
+    lines.push(`Bank payout: ${formatTransferAmount(quote.fiatAmount, quote.fiatCurrency)}` +
+      (quote.rate ? ` (1 ${quote.currency} = ${quote.rate} ${quote.fiatCurrency})` : ''));
+  }
+  lines.push(`Quote valid for ${Math.max(Math.round((quote.expiresAt - Date.now()) / 1000), 0)} seconds`);
+  return lines.join('\n');
+}
+
+/**
+ * Retire a confirmation whose quote expired before Confirm was tapped, so the step can show a fresh one
+ * @returns Whether the quote has expired
+ */
+async function quoteExpired(bot: TelegramBot, chatId: number, data: ConfirmationData): Promise<boolean> {
+  if (!data.quote || data.quote.expiresAt > Date.now()) return false;
+
+  await updateConfirmation(bot, chatId, data, '⌛ Quote expired', '⌛ This quote has expired. Please use the updated one.');
+  await bot.sendMessage(chatId, "⌛ The quote has expired. Here is an updated one:");
+  return true;
+}
+
+/**
+ * Send the confirmation of a money movement, giving it an idempotency key
+ * @param ctx Context of the confirmation step
+ * @param details Markdown details of the transfer
+ * @param question Question asked when the amount can be sent
+ * @param error Why the amount cannot be sent, leaving only Cancel
+ */
+export async function replyConfirmation(
+  { reply, keyboard, data }: ConversationContext<ConfirmationData>,
+  details: string,
+  question: string,
+  error: string | null
+): Promise<void> {
+  data.idempotencyKey = data.idempotencyKey ?? newIdempotencyKey();
+  data.confirmationText = details;
+
+  await reply(`${details}\n\n${error ? `⚠️ ${error}` : question}`, {
+    parse_mode: 'Markdown',
+    reply_markup: await keyboard(confirmButtons(error !== null))
+  });
+}
+
+/**
+ * Carry out a confirmed money movement under its idempotency key, showing its progress
+ * on the confirmation and answering repeated taps on it with the outcome
+ * @param bot Telegram bot instance
+ * @param chatId Chat ID
+ * @param data State of the confirming conversation
+ * @param execute Submits the transfer with the key; resolves to whether it went through,
+ * or null if the same confirmation is already being submitted
+ * @returns Whether the transfer went through; false when the submission in progress reports it
+ */
+export async function submitConfirmed(
+  bot: TelegramBot,
+  chatId: number,
+  data: ConfirmationData,
+  execute: (idempotencyKey: string) => Promise<boolean | null>
+): Promise<boolean> {
+  // Conversations started before keys were given out have none
+  const idempotencyKey = data.idempotencyKey ?? newIdempotencyKey();
+
+  await updateConfirmation(bot, chatId, data, '⏳ Processing...', '⏳ This is already being processed.');
+  const done = await execute(idempotencyKey);
+
+  // E.g. a second PIN sent while the first was checked; the first submission updates the confirmation
+  if (done === null) {
+    await bot.sendMessage(chatId, '⏳ This transfer is already being processed. Its result will follow.');
+    return false;
+  }
+
+  await updateConfirmation(bot, chatId, data,
+    done ? '✅ Completed' : '❌ Not completed',
+    done ? '✅ This was already completed. See the result in the chat.' : '❌ This did not go through. Please start again.');
+
+  return done;
+}
+
+/**
+ * Show the status of a confirmed money movement in place of the confirmation's buttons
+ */
+async function updateConfirmation(
+  bot: TelegramBot,
+  chatId: number,
+  data: ConfirmationData,
+  status: string,
+  repeatTapAnswer: string
+): Promise<void> {
+  if (data.confirmationId === undefined) return;
+
+  await setRepeatTapAnswer(chatId, data.confirmationId, repeatTapAnswer);
+  try {
+    await bot.editMessageText(`${data.confirmationText}\n\n${status}`, {
+      chat_id: chatId,
+      message_id: data.confirmationId,
+      parse_mode: 'Markdown'
+    });
+  } catch (error) {
+    // The message may already be gone
+    logger.debug(`Could not update confirmation ${data.confirmationId} in chat ${chatId}:`, error);
+  }
+}
+
+/**
+ * Validate a USDC amount entered by the user
+ * @param text Raw text reply
+ */
+export function validateAmount(text: string): StepValidation<number> {
+  if (!AMOUNT_REGEX.test(text)) {
+    return { valid: false, error: "⚠️ Please enter a valid amount (e.g., 10 or 10.5)" };
+  }
+
+  const amount = parseFloat(text);
+  if (amount <= 0) {
+    return { valid: false, error: "⚠️ Amount must be greater than 0." };
+  }
+
+  return { valid: true, value: amount };
+}
+
+/**
+ * Conversation state for sending funds
+ */
+interface SendConversationData extends ConfirmationData {
+  recipient?: string;
+  amount?: number;
+  description?: string;
+}
+
+/**
+ * Conversation flow for sending funds to an email address
+ */
+const sendConversation: ConversationFlow<SendConversationData> = {
+  id: 'send',
+  steps: [
+    {
+      id: 'recipient',
+      field: 'recipient',
+      prompt: async ({ reply, keyboard, chatId }) => {
+        const contacts = await savedContacts(chatId, 'email');
+        if (contacts.length === 0) {
+          await reply("📤 *Send Funds*\n\nPlease enter the recipient's email address:", {
+            parse_mode: 'Markdown'
+          });
           return;
         }
 
-        // Get the default wallet
-        let defaultWallet;
-        try {
-          defaultWallet = await getDefaultWallet(chatId);
-          if (!defaultWallet) {
-            bot.sendMessage(chatId, `❌ Couldn't retrieve your default wallet: Unknown error`);
-            return;
-          }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          bot.sendMessage(chatId, `❌ Couldn't retrieve your default wallet: ${errorMessage}`);
-          return;
+        await reply("📤 *Send Funds*\n\nPlease enter the recipient's email address or pick a saved contact:", {
+          parse_mode: 'Markdown',
+          reply_markup: await keyboard(contactButtonRows(contacts.slice(0, MAX_CONTACT_BUTTONS)))
+        });
+      },
+      validate: validateEmail,
+      handleCallback: async (action, { chatId, data }) => {
+        const contact = pickedContact(action, await savedContacts(chatId, 'email'));
+        if (!contact) return stay();
+
+        data.recipient = contact.email;
+        return next();
+      }
+    },
+    {
+      id: 'amount',
+      field: 'amount',
+      prompt: async ({ reply, data }) => {
+        await reply(`Please enter the amount in USDC to send to ${data.recipient}:`);
+      },
+      validate: validateAmount
+    },
+    {
+      id: 'description',
+      field: 'description',
+      prompt: async ({ reply }) => {
+        await reply("Please enter a description for this transfer (optional, type 'skip' to leave blank):");
+      },
+      validate: validateDescription
+    },
+    {
+      id: 'confirm',
+      prompt: async (ctx) => {
+        const { chatId, data } = ctx;
+        const allowance = await describeAllowance(chatId, data.amount!);
+        const quote = await describeQuote(chatId, data, { kind: 'send', amount: data.amount! });
+
+        // Show confirmation message with transfer details
+        const details = `📤 *Transfer Confirmation*\n\n` +
+          `To: ${data.recipient}\n` +
+          `Amount: ${data.amount} USDC\n` +
+          (data.description ? `Description: ${data.description}\n` : '') +
+          `${quote}\n` +
+          allowance.text;
+
+        await replyConfirmation(ctx, details, 'Please confirm this transfer:', allowance.error);
+      },
+      handleCallback: async (action, { bot, chatId, data, messageId }) => {
+        if (action === 'cancel') {
+          await bot.sendMessage(chatId, "❌ Transfer has been canceled.");
+          return end();
         }
 
-        bot.sendMessage(chatId, "🔄 Processing your transfer...");
+        if (action !== 'confirm') {
+          return stay();
+        }
+        data.confirmationId = messageId;
 
-        // Execute the transfer
-        const result = await sendFunds(
-          token, 
-          userData.recipient, 
-          userData.amount.toString(), 
-          userData.description || ''
-        );
+        // The tapped keyboard is spent; offer a fresh one to confirm once the cooldown is over
+        if (!(await checkRateLimit(bot, chatId, 'money'))) {
+          return goto('confirm');
+        }
 
-        if (result.success && result.data) {
-          bot.sendMessage(chatId, 
-            `✅ *Transfer Successful!*\n\n` +
-            `Amount: ${userData.amount} USDC\n` +
-            `Recipient: ${userData.recipient}\n\n` +
-            `Transaction ID: \`${result.data.id}\``, 
-            { parse_mode: 'Markdown' }
-          );
-          // Clean up stored state
-          delete userStates[chatId];
-        } else {
-          bot.sendMessage(chatId, `❌ Transfer failed: ${result.data?.message || 'Unknown error'}`);
+        if (await quoteExpired(bot, chatId, data)) {
+          return goto('confirm');
         }
-      } catch (error) {
-        logger.error('Error in send confirmation:', error);
-        bot.sendMessage(chatId, "❌ Something went wrong while processing your transfer. Please try again later.");
+
+        const stepUp = await stepUpCheck(bot, chatId, data.amount!);
+        return stepUp ?? completeSend(bot, chatId, data);
       }
-    } else if (action === 'cancel_send') {
-      bot.answerCallbackQuery(callbackQuery.id, { text: 'Transfer canceled' });
-      bot.sendMessage(chatId, "❌ Transfer has been canceled.");
-      // Clean up stored state
-      delete userStates[chatId];
-    } else if (action === 'withdraw_wallet') {
-      bot.answerCallbackQuery(callbackQuery.id);
-      startWalletWithdrawConversation(bot, chatId);
-    } else if (action === 'withdraw_bank') {
-      bot.answerCallbackQuery(callbackQuery.id);
-      startBankWithdrawConversation(bot, chatId);
-    }
-  });
+    },
+    stepUpStep<SendConversationData>(({ bot, chatId, data }) => completeSend(bot, chatId, data))
+  ]
+};
 
-  // Set up initial listener
-  bot.on('message', emailListener);
+/**
+ * Send a confirmed transfer, then offer to save the recipient
+ */
+async function completeSend(bot: TelegramBot, chatId: number, data: SendConversationData): Promise<StepOutcome> {
+  if (!(await submitConfirmed(bot, chatId, data, (idempotencyKey) => executeSend(bot, chatId, data, idempotencyKey)))) {
+    return end();
+  }
+  return offerToSaveContact(chatId, { kind: 'email', email: data.recipient! });
 }
 
 /**
- * Start conversation flow for withdrawing to an external wallet
+ * Execute a confirmed transfer to an email address
  * @param bot Telegram bot instance
  * @param chatId Chat ID
+ * @param data Collected transfer details
+ * @param idempotencyKey Key of the confirmation
+ * @returns true if the transfer went through, null if it is already being submitted
  */
-async function startWalletWithdrawConversation(bot: TelegramBot, chatId: number): Promise<void> {
-  // Store user states
-  const userStates: Record<number, any> = {};
-  
-  bot.sendMessage(chatId, "🔑 *Withdraw to External Wallet*\n\nPlease enter the destination wallet address:", {
-    parse_mode: 'Markdown'
-  });
-
-  // Set up listener for wallet address
-  const addressListener = async (msg: TelegramBot.Message) => {
-    if (msg.chat.id !== chatId) return;
-    
-    const address = msg.text?.trim();
-    if (!address || address.length < 32) {
-      bot.sendMessage(chatId, "⚠️ Please enter a valid wallet address.");
-      return;
+async function executeSend(
+  bot: TelegramBot,
+  chatId: number,
+  data: SendConversationData,
+  idempotencyKey: string
+): Promise<boolean | null> {
+  try {
+    // Get the default wallet
+    try {
+      const defaultWallet = await getDefaultWallet(chatId);
+      if (!defaultWallet) {
+        await bot.sendMessage(chatId, `❌ Couldn't retrieve your default wallet: Unknown error`);
+        return false;
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await bot.sendMessage(chatId, `❌ Couldn't retrieve your default wallet: ${errorMessage}`);
+      return false;
     }
 
-    // Store wallet address and prompt for amount
-    userStates[chatId] = { address };
-    bot.removeListener('message', addressListener);
-    
-    bot.sendMessage(chatId, "Please enter the amount in USDC to withdraw:");
-    bot.on('message', amountListener);
-  };
+    // Execute the transfer
+    const result = await sendFunds(
+      chatId,
+      data.recipient!,
+      data.amount!,
+      data.description || '',
+      idempotencyKey
+    );
 
-  // Set up listener for amount
-  const amountListener = async (msg: TelegramBot.Message) => {
-    if (msg.chat.id !== chatId) return;
-    
-    const amountText = msg.text?.trim();
-    if (!amountText || !AMOUNT_REGEX.test(amountText)) {
-      bot.sendMessage(chatId, "⚠️ Please enter a valid amount (e.g., 10 or 10.5)");
-      return;
+    if (result.success && result.data) {
+      await bot.sendMessage(chatId,
+        `✅ *Transfer Successful!*\n\n` +
+        `Amount: ${data.amount} USDC\n` +
+        `Recipient: ${data.recipient}\n\n` +
+        `Transaction ID: \`${result.data.id}\``,
+        { parse_mode: 'Markdown' }
+      );
+      return true;
     }
 
-    const amount = parseFloat(amountText);
-    if (amount <= 0) {
-      bot.sendMessage(chatId, "⚠️ Amount must be greater than 0.");
-      return;
+    if (result.pending) {
+      return null;
     }
 
-    // Update state with amount and prompt for network
-    userStates[chatId].amount = amount;
-    bot.removeListener('message', amountListener);
-    
-    const options: TelegramBot.SendMessageOptions = {
-      reply_markup: {
-        inline_keyboard: [
-          [{ text: 'Solana', callback_data: 'network_solana' }],
-          [{ text: 'Ethereum', callback_data: 'network_ethereum' }]
-        ]
-      }
-    };
-    
-    bot.sendMessage(chatId, "Please select the network for the withdrawal:", options);
-    
-    // Handle network selection via callback
-    bot.on('callback_query', async (callbackQuery) => {
-      if (!callbackQuery.message || callbackQuery.message.chat.id !== chatId) return;
-      
-      const data = callbackQuery.data;
-      if (data?.startsWith('network_')) {
-        bot.answerCallbackQuery(callbackQuery.id);
-        
-        const network = data.replace('network_', '');
-        userStates[chatId].network = network;
-        
-        // Show confirmation message
-        const confirmMessage = `🔑 *Withdrawal Confirmation*\n\n` +
-          `To: ${userStates[chatId].address}\n` +
-          `Amount: ${userStates[chatId].amount} USDC\n` +
-          `Network: ${network}\n\n` +
-          `Please confirm this withdrawal:`;
-        
-        const confirmOptions: TelegramBot.SendMessageOptions = {
+    await bot.sendMessage(chatId, `❌ Transfer failed: ${result.error || 'Unknown error'}`);
+    return false;
+  } catch (error) {
+    logger.error('Error in send confirmation:', error);
+    await bot.sendMessage(chatId, "❌ Something went wrong while processing your transfer. Please try again later.");
+    return false;
+  }
+}
+
+/**
+ * Conversation flow for picking a withdrawal method
+ */
+const withdrawConversation: ConversationFlow = {
+  id: 'withdraw',
+  steps: [
+    {
+      id: 'method',
+      prompt: async ({ reply, keyboard }) => {
+        await reply("💸 *Withdraw Funds*\n\nPlease select your withdrawal method:", {
           parse_mode: 'Markdown',
-          reply_markup: {
-            inline_keyboard: [
-              [
-                { text: '✅ Confirm', callback_data: 'confirm_wallet_withdraw' },
-                { text: '❌ Cancel', callback_data: 'cancel_withdraw' }
-              ]
-            ]
-          }
-        };
-        
-        bot.sendMessage(chatId, confirmMessage, confirmOptions);
-      } else if (data === 'confirm_wallet_withdraw') {
-        bot.answerCallbackQuery(callbackQuery.id);
-        
-        try {
-          const userData = userStates[chatId];
-          if (!userData) {
-            bot.sendMessage(chatId, "❌ Withdrawal data not found. Please start again with /withdraw");
-            return;
-          }
-          
-          const token = await getUserToken(chatId);
-          if (!token) {
-            bot.sendMessage(chatId, "⚠️ Authentication error. Please login again with /login");
-            return;
+          reply_markup: await keyboard([
+            [{ text: '💳 To Bank Account', action: 'bank' }],
+            [{ text: '🔑 To External Wallet', action: 'wallet' }]
+          ])
+        });
+      },
+      handleCallback: async (action, { bot, chatId }) => {
+        if (action === 'bank') {
+          const accounts = await loadBankAccounts(bot, chatId);
+          return accounts ? switchTo('bank_withdraw', { accounts }) : end();
+        }
+        if (action === 'wallet') {
+          const balances = await loadNetworkBalances(bot, chatId);
+          return balances ? switchTo('wallet_withdraw', { balances, network: soleNetwork(balances) }) : end();
+        }
+        return stay();
+      }
+    }
+  ]
+};
+
+/**
+ * Conversation state for withdrawing to an external wallet
+ */
+interface WalletWithdrawConversationData extends ConfirmationData {
+  // USDC balance by network, loaded when the withdrawal started
+  balances?: Record<string, number>;
+  network?: string;
+  address?: string;
+  amount?: number;
+}
+
+/**
+ * Load the networks the user holds USDC on, explaining when there are none
+ * @param bot Telegram bot instance
+ * @param chatId Chat ID
+ * @returns USDC balance by network, or null when the withdrawal cannot start
+ */
+async function loadNetworkBalances(bot: TelegramBot, chatId: number): Promise<Record<string, number> | null> {
+  let rows;
+  try {
+    rows = await getWalletBalances(chatId);
+  } catch (error) {
+    logger.error(`Error loading balances for chat ${chatId}:`, error);
+    await bot.sendMessage(chatId, "❌ Failed to load your balances. Please try again later.");
+    return null;
+  }
+
+  const balances: Record<string, number> = {};
+  for (const row of rows) {
+    const amount = parseFloat(row.balance);
+    // Only networks whose address format is known can be withdrawn on
+    if (row.symbol === 'USDC' && row.network in WITHDRAWAL_NETWORKS && amount > 0) {
+      balances[row.network] = (balances[row.network] ?? 0) + amount;
+    }
+  }
+
+  if (Object.keys(balances).length === 0) {
+    await bot.sendMessage(chatId, "💸 You have no USDC to withdraw. Use /balance to see your wallets.");
+    return null;
+  }
+  return balances;
+}
+
+/**
+ * The network to use without asking, when the user holds USDC on only one
+ */
+function soleNetwork(balances: Record<string, number>): string | undefined {
+  const networks = Object.keys(balances);
+  return networks.length === 1 ? networks[0] : undefined;
+}
+
+/**
+ * Conversation flow for withdrawing to an external wallet
+ */
+const walletWithdrawConversation: ConversationFlow<WalletWithdrawConversationData> = {
+  id: 'wallet_withdraw',
+  steps: [
+    {
+      id: 'network',
+      field: 'network',
+      prompt: async ({ reply, keyboard, data }) => {
+        const balances = data.balances!;
+        await reply(
+          "🔑 *Withdraw to External Wallet*\n\n" +
+          Object.entries(balances).map(([network, balance]) =>
+            `${WITHDRAWAL_NETWORKS[network]}: ${formatTransferAmount(balance)}`).join('\n') +
+          "\n\nPlease select the network for the withdrawal:",
+          {
+            parse_mode: 'Markdown',
+            reply_markup: await keyboard(Object.keys(balances).map((action) => [{ text: WITHDRAWAL_NETWORKS[action], action }]))
           }
-          
-          bot.sendMessage(chatId, "🔄 Processing your withdrawal...");
-          
-          // Execute the withdrawal
-          const result = await withdrawToWallet(
-            token,
-            userData.address,
-            userData.amount.toString(),
-            userData.network
-          );
-          
-          if (result.success && result.data) {
-            bot.sendMessage(chatId, 
-              `✅ *Withdrawal Initiated!*\n\n` +
-              `Amount: ${userData.amount} USDC\n` +
-              `To: ${userData.address}\n` +
-              `Network: ${userData.network}\n\n` +
-              `Transaction ID: \`${result.data.id}\``,
-              { parse_mode: 'Markdown' }
-            );
-            // Clean up stored state
-            delete userStates[chatId];
-          } else {
-            bot.sendMessage(chatId, `❌ Withdrawal failed: ${result.data?.message || 'Unknown error'}`);
+        );
+      },
+      handleCallback: async (action, { bot, chatId, data }) => {
+        if (!(action in data.balances!)) return stay();
+        data.network = action;
+
+        // An address given with /withdraw wallet is checked once its network is known
+        if (data.address !== undefined) {
+          const result = validateAddress(data.address, action);
+          if (!result.valid) {
+            await bot.sendMessage(chatId, result.error);
+            data.address = undefined;
+            return goto('address');
           }
-        } catch (error) {
-          logger.error('Error in wallet withdrawal:', error);
-          bot.sendMessage(chatId, "❌ Something went wrong while processing your withdrawal. Please try again later.");
         }
-      } else if (data === 'cancel_withdraw') {
-        bot.answerCallbackQuery(callbackQuery.id, { text: 'Withdrawal canceled' });
-        bot.sendMessage(chatId, "❌ Withdrawal has been canceled.");
-        // Clean up stored state
-        delete userStates[chatId];
+        return next();
       }
-    });
-  };
-  
-  // Set up initial listener
-  bot.on('message', addressListener);
+    },
+    {
+      id: 'address',
+      field: 'address',
+      prompt: async ({ reply, keyboard, chatId, data }) => {
+        const label = WITHDRAWAL_NETWORKS[data.network!];
+        const contacts = (await savedContacts(chatId, 'wallet')).filter((contact) => contact.network === data.network);
+        if (contacts.length === 0) {
+          await reply(`Please enter the destination ${label} address:`);
+          return;
+        }
+
+        await reply(`Please enter the destination ${label} address or pick a saved one:`, {
+          reply_markup: await keyboard(contactButtonRows(contacts.slice(0, MAX_CONTACT_BUTTONS)))
+        });
+      },
+      validate: (text, { data }) => validateAddress(text, data.network),
+      handleCallback: async (action, { chatId, data }) => {
+        const contact = pickedContact(action, await savedContacts(chatId, 'wallet'));
+        if (!contact || contact.network !== data.network) return stay();
+
+        data.address = contact.address;
+        return next();
+      }
+    },
+    {
+      id: 'amount',
+      field: 'amount',
+      prompt: async ({ reply }) => {
+        await reply("Please enter the amount in USDC to withdraw:");
+      },
+      validate: validateAmount
+    },
+    {
+      id: 'confirm',
+      prompt: async (ctx) => {
+        const { chatId, data } = ctx;
+        const allowance = await describeAllowance(chatId, data.amount!);
+        const quote = await describeQuote(chatId, data, { kind: 'wallet', amount: data.amount!, network: data.network! });
+        const details = `🔑 *Withdrawal Confirmation*\n\n` +
+          `To: ${data.address}\n` +
+          `Amount: ${data.amount} USDC\n` +
+          `Network: ${data.network}\n` +
+          `${quote}\n` +
+          allowance.text;
+
+        await replyConfirmation(ctx, details, 'Please confirm this withdrawal:', allowance.error);
+      },
+      handleCallback: async (action, { bot, chatId, data, messageId }) => {
+        if (action === 'cancel') {
+          await bot.sendMessage(chatId, "❌ Withdrawal has been canceled.");
+          return end();
+        }
+
+        if (action !== 'confirm') {
+          return stay();
+        }
+        data.confirmationId = messageId;
+
+        // The tapped keyboard is spent; offer a fresh one to confirm once the cooldown is over
+        if (!(await checkRateLimit(bot, chatId, 'money'))) {
+          return goto('confirm');
+        }
+
+        if (await quoteExpired(bot, chatId, data)) {
+          return goto('confirm');
+        }
+
+        const stepUp = await stepUpCheck(bot, chatId, data.amount!);
+        return stepUp ?? completeWalletWithdraw(bot, chatId, data);
+      }
+    },
+    stepUpStep<WalletWithdrawConversationData>(({ bot, chatId, data }) => completeWalletWithdraw(bot, chatId, data))
+  ]
+};
+
+/**
+ * Send a confirmed withdrawal to an external wallet, then offer to save the address
+ */
+async function completeWalletWithdraw(
+  bot: TelegramBot,
+  chatId: number,
+  data: WalletWithdrawConversationData
+): Promise<StepOutcome> {
+  const withdrawn = await submitConfirmed(bot, chatId, data,
+    (idempotencyKey) => executeWalletWithdraw(bot, chatId, data, idempotencyKey));
+  if (!withdrawn) {
+    return end();
+  }
+  return offerToSaveContact(chatId, { kind: 'wallet', address: data.address!, network: data.network! });
 }
 
 /**
- * Start conversation flow for withdrawing to a bank account
+ * Execute a confirmed withdrawal to an external wallet
  * @param bot Telegram bot instance
  * @param chatId Chat ID
+ * @param data Collected withdrawal details
+ * @param idempotencyKey Key of the confirmation
+ * @returns true if the withdrawal was initiated, null if it is already being submitted
  */
-async function startBankWithdrawConversation(bot: TelegramBot, chatId: number): Promise<void> {
-  // Store user states
-  const userStates: Record<number, any> = {};
-  
-  bot.sendMessage(chatId, "🏦 *Withdraw to Bank Account*\n\nPlease enter the amount in USDC to withdraw:", {
-    parse_mode: 'Markdown'
-  });
+async function executeWalletWithdraw(
+  bot: TelegramBot,
+  chatId: number,
+  data: WalletWithdrawConversationData,
+  idempotencyKey: string
+): Promise<boolean | null> {
+  try {
+    // Execute the withdrawal
+    const result = await withdrawToWallet(
+      chatId,
+      data.address!,
+      data.amount!,
+      data.network!,
+      idempotencyKey
+    );
 
-  // Set up listener for amount
-  const amountListener = async (msg: TelegramBot.Message) => {
-    if (msg.chat.id !== chatId) return;
-    
-    const amountText = msg.text?.trim();
-    if (!amountText || !AMOUNT_REGEX.test(amountText)) {
-      bot.sendMessage(chatId, "⚠️ Please enter a valid amount (e.g., 10 or 10.5)");
-      return;
+    if (result.success && result.data) {
+      await bot.sendMessage(chatId,
+        `✅ *Withdrawal Initiated!*\n\n` +
+        `Amount: ${data.amount} USDC\n` +
+        `To: ${data.address}\n` +
+        `Network: ${data.network}\n\n` +
+        `Transaction ID: \`${result.data.id}\``,
+        { parse_mode: 'Markdown' }
+      );
+      return true;
     }
 
-    const amount = parseFloat(amountText);
-    if (amount <= 0) {
-      bot.sendMessage(chatId, "⚠️ Amount must be greater than 0.");
-      return;
+    if (result.pending) {
+      return null;
     }
 
-    // Update state with amount
-    userStates[chatId] = { amount };
-    bot.removeListener('message', amountListener);
-    
-    // Show confirmation message
-    const confirmMessage = `🏦 *Bank Withdrawal Confirmation*\n\n` +
-      `Amount: ${amount} USDC\n\n` +
-      `Note: The funds will be sent to your bank account on file.\n\n` +
-      `Please confirm this withdrawal:`;
-    
-    const confirmOptions: TelegramBot.SendMessageOptions = {
-      parse_mode: 'Markdown',
-      reply_markup: {
-        inline_keyboard: [
-          [
-            { text: '✅ Confirm', callback_data: 'confirm_bank_withdraw' },
-            { text: '❌ Cancel', callback_data: 'cancel_withdraw' }
-          ]
-        ]
-      }
-    };
-    
-    bot.sendMessage(chatId, confirmMessage, confirmOptions);
-    
-    // Handle confirmation via callback
-    bot.on('callback_query', async (callbackQuery) => {
-      if (!callbackQuery.message || callbackQuery.message.chat.id !== chatId) return;
-      
-      const data = callbackQuery.data;
-      if (data === 'confirm_bank_withdraw') {
-        bot.answerCallbackQuery(callbackQuery.id);
-        
-        try {
-          const userData = userStates[chatId];
-          if (!userData) {
-            bot.sendMessage(chatId, "❌ Withdrawal data not found. Please start again with /withdraw");
-            return;
-          }
-          
-          const token = await getUserToken(chatId);
-          if (!token) {
-            bot.sendMessage(chatId, "⚠️ Authentication error. Please login again with /login");
-            return;
-          }
-          
-          bot.sendMessage(chatId, "🔄 Processing your bank withdrawal...");
-          
-          // Execute the bank withdrawal
-          // Execute the bank withdrawal
-          const result = await withdrawToBank(
-            token,
-            userData.amount.toString(),
-            "" // Default empty bankId parameter
-          );
-          if (result.success && result.data) {
-            bot.sendMessage(chatId, 
-              `✅ *Bank Withdrawal Initiated!*\n\n` +
-              `Amount: ${userData.amount} USDC\n\n` +
-              `Your funds will be transferred to your bank account on file. This process typically takes 1-3 business days.\n\n` +
-              `Transaction ID: \`${result.data.id}\``,
-              { parse_mode: 'Markdown' }
-            );
-            // Clean up stored state
-            delete userStates[chatId];
-          } else {
-            bot.sendMessage(chatId, `❌ Bank withdrawal failed: ${result.data?.message || 'Unknown error'}`);
+    await bot.sendMessage(chatId, `❌ Withdrawal failed: ${result.error || 'Unknown error'}`);
+    return false;
+  } catch (error) {
+    logger.error('Error in wallet withdrawal:', error);
+    await bot.sendMessage(chatId, "❌ Something went wrong while processing your withdrawal. Please try again later.");
+    return false;
+  }
+}
+
+/**
+ * Conversation state for withdrawing to a bank account
+ */
+interface BankWithdrawConversationData extends ConfirmationData {
+  // Bank accounts loaded when the withdrawal started
+  accounts?: BankAccount[];
+  bankId?: string;
+  amount?: number;
+}
+
+/**
+ * Load the bank accounts a withdrawal can be paid out to, explaining when there are none
+ * @param bot Telegram bot instance
+ * @param chatId Chat ID
+ * @returns The accounts, or null when the withdrawal cannot start
+ */
+async function loadBankAccounts(bot: TelegramBot, chatId: number): Promise<BankAccount[] | null> {
+  const result = await getBankAccounts(chatId);
+  if (!result.success || !result.data) {
+    await bot.sendMessage(chatId, `❌ Failed to load your bank accounts: ${result.error || 'Unknown error'}`);
+    return null;
+  }
+
+  if (result.data.length === 0) {
+    await bot.sendMessage(chatId,
+      "🏦 You have no bank account to withdraw to yet.\n\n" +
+      "Add one in your Copperx account on the web, then use /withdraw again. " +
+      "You can still withdraw to an external wallet with /withdraw wallet.");
+    return null;
+  }
+
+  return result.data;
+}
+
+/**
+ * Minimum and settlement time of a bank account, as shown when picking and confirming
+ */
+function describeBankTerms(account: BankAccount): string {
+  const minimum = account.minAmount ? `Minimum: ${formatTransferAmount(account.minAmount)}` : 'No minimum';
+  return `${minimum} · Arrives in ${account.settlementTime ?? DEFAULT_SETTLEMENT_TIME}`;
+}
+
+/**
+ * Why an amount cannot be withdrawn to a bank account, or null
+ */
+function bankMinimumError(account: BankAccount, amount: number): string | null {
+  if (account.minAmount && amount < parseFloat(account.minAmount)) {
+    return `The minimum withdrawal to this account is ${formatTransferAmount(account.minAmount)}.`;
+  }
+  return null;
+}
+
+/**
+ * The bank account picked for a withdrawal
+ */
+function chosenBankAccount(data: BankWithdrawConversationData): BankAccount {
+  return data.accounts!.find((account) => account.id === data.bankId)!;
+}
+
+/**
+ * Conversation flow for withdrawing to a bank account
+ */
+const bankWithdrawConversation: ConversationFlow<BankWithdrawConversationData> = {
+  id: 'bank_withdraw',
+  steps: [
+    {
+      id: 'account',
+      field: 'bankId',
+      prompt: async ({ reply, keyboard, data }) => {
+        const accounts = data.accounts!;
+        await reply(
+          `🏦 *Withdraw to Bank Account*\n\n` +
+          accounts.map((account) => `*${formatBankAccount(account)}*\n${describeBankTerms(account)}`).join('\n\n') +
+          `\n\nPlease choose the account to withdraw to:`,
+          {
+            parse_mode: 'Markdown',
+            // Account IDs are UUIDs, too long for signed callback data
+            reply_markup: await keyboard(accounts.map((account, index) => [{
+              text: `🏦 ${formatBankAccount(account)}`,
+              action: `${BANK_ACCOUNT_ACTION}${index}`
+            }]))
           }
-        } catch (error) {
-          logger.error('Error in bank withdrawal:', error);
-          bot.sendMessage(chatId, "❌ Something went wrong while processing your bank withdrawal. Please try again later.");
+        );
+      },
+      handleCallback: async (action, { data }) => {
+        const account = action.startsWith(BANK_ACCOUNT_ACTION)
+          ? data.accounts![parseInt(action.slice(BANK_ACCOUNT_ACTION.length), 10)]
+          : undefined;
+        if (!account) return stay();
+
+        data.bankId = account.id;
+        return next();
+      }
+    },
+    {
+      id: 'amount',
+      field: 'amount',
+      prompt: async ({ reply }) => {
+        await reply("Please enter the amount in USDC to withdraw:");
+      },
+      validate: (text, { data }) => {
+        const result = validateAmount(text);
+        const minimumError = result.valid ? bankMinimumError(chosenBankAccount(data), result.value) : null;
+        return minimumError ? { valid: false, error: `⚠️ ${minimumError}` } : result;
+      }
+    },
+    {
+      id: 'confirm',
+      prompt: async (ctx) => {
+        const { chatId, data } = ctx;
+        const account = chosenBankAccount(data);
+        const allowance = await describeAllowance(chatId, data.amount!);
+        const quote = await describeQuote(chatId, data, { kind: 'bank', amount: data.amount!, bankId: account.id });
+        const details = `🏦 *Bank Withdrawal Confirmation*\n\n` +
+          `To: ${formatBankAccount(account)}\n` +
+          `Amount: ${data.amount} USDC\n` +
+          `${quote}\n` +
+          `${describeBankTerms(account)}\n` +
+          allowance.text;
+
+        // An amount given with /withdraw bank is only checked against the minimum here
+        const minimumError = bankMinimumError(account, data.amount!);
+        await replyConfirmation(ctx, details, 'Please confirm this withdrawal:',
+          minimumError ? `${minimumError} Cancel and withdraw a larger amount.` : allowance.error);
+      },
+      handleCallback: async (action, { bot, chatId, data, messageId }) => {
+        if (action === 'cancel') {
+          await bot.sendMessage(chatId, "❌ Withdrawal has been canceled.");
+          return end();
+        }
+
+        if (action !== 'confirm') {
+          return stay();
         }
-      } else if (data === 'cancel_withdraw') {
-        bot.answerCallbackQuery(callbackQuery.id, { text: 'Withdrawal canceled' });
-        bot.sendMessage(chatId, "❌ Withdrawal has been canceled.");
-        // Clean up stored state
-        delete userStates[chatId];
+        data.confirmationId = messageId;
+
+        // The tapped keyboard is spent; offer a fresh one to confirm once the cooldown is over
+        if (!(await checkRateLimit(bot, chatId, 'money'))) {
+          return goto('confirm');
+        }
+
+        if (await quoteExpired(bot, chatId, data)) {
+          return goto('confirm');
+        }
+
+        const stepUp = await stepUpCheck(bot, chatId, data.amount!);
+        if (stepUp) return stepUp;
+
+        return completeBankWithdraw(bot, chatId, data);
       }
-    });
-  };
-  
-  // Set up initial listener
-  bot.on('message', amountListener);
+    },
+    stepUpStep<BankWithdrawConversationData>(({ bot, chatId, data }) => completeBankWithdraw(bot, chatId, data))
+  ]
+};
+
+/**
+ * Send a confirmed withdrawal to the bank account
+ */
+async function completeBankWithdraw(
+  bot: TelegramBot,
+  chatId: number,
+  data: BankWithdrawConversationData
+): Promise<StepOutcome> {
+  await submitConfirmed(bot, chatId, data, (idempotencyKey) => executeBankWithdraw(bot, chatId, data, idempotencyKey));
+  return end();
 }
 
 /**
- * Registers all transfer-related commands for the bot
- * @param bot - The Telegram bot instance
+ * Execute a confirmed withdrawal to a bank account
+ * @param bot Telegram bot instance
+ * @param chatId Chat ID
+ * @param data Collected withdrawal details
+ * @param idempotencyKey Key of the confirmation
+ * @returns true if the withdrawal was initiated, null if it is already being submitted
  */
-export function registerTransferCommands(bot: TelegramBot): void {
+async function executeBankWithdraw(
+  bot: TelegramBot,
+  chatId: number,
+  data: BankWithdrawConversationData,
+  idempotencyKey: string
+): Promise<boolean | null> {
   try {
-    // Register transfer commands
-    bot.onText(/\/send/, (msg) => sendCommand(bot, msg));
-    bot.onText(/\/withdraw/, (msg) => withdrawCommand(bot, msg));
-    bot.onText(/\/history/, (msg) => historyCommand(bot, msg));
+    // Execute the bank withdrawal
+    const account = chosenBankAccount(data);
+    const result = await withdrawToBank(
+      chatId,
+      data.amount!,
+      account.id,
+      idempotencyKey
+    );
+
+    if (result.success && result.data) {
+      await bot.sendMessage(chatId,
+        `✅ *Bank Withdrawal Initiated!*\n\n` +
+        `Amount: ${data.amount} USDC\n` +
+        `To: ${formatBankAccount(account)}\n\n` +
+        `Your funds should arrive in ${account.settlementTime ?? DEFAULT_SETTLEMENT_TIME}.\n\n` +
+        `Transaction ID: \`${result.data.id}\``,
+        { parse_mode: 'Markdown' }
+      );
+      return true;
+    }
+
+    if (result.pending) {
+      return null;
+    }
+
+    await bot.sendMessage(chatId, `❌ Bank withdrawal failed: ${result.error || 'Unknown error'}`);
+    return false;
+  } catch (error) {
+    logger.error('Error in bank withdrawal:', error);
+    await bot.sendMessage(chatId, "❌ Something went wrong while processing your bank withdrawal. Please try again later.");
+    return false;
+  }
+}
+
+/**
+ * Registers all transfer-related commands and conversations
+ */
+export function registerTransferCommands(): void {
+  try {
+    // Register transfer conversations
+    registerConversation(sendConversation);
+    registerConversation(withdrawConversation);
+    registerConversation(walletWithdrawConversation);
+    registerConversation(bankWithdrawConversation);
+
+    // Register transfer commands; the KYC check calls Copperx, so it draws from the read budget
+    registerCommand({
+      name: 'send',
+      args: [
+        { name: 'email', optional: true },
+        { name: 'amount', optional: true },
+        { name: 'description', optional: true, rest: true }
+      ],
+      description: 'Send funds to an email address',
+      examples: ['/send alice@acme.com 25.50 "March invoice"', '/send alice@acme.com 10'],
+      category: 'transfer',
+      rateLimit: 'read',
+      auth: { kyc: true, unlocked: true },
+      handler: ({ bot, msg, args }, auth) => sendCommand(bot, msg, auth, args)
+    });
+    registerCommand({
+      name: 'withdraw',
+      args: [
+        { name: 'method', optional: true },
+        { name: 'details', optional: true, rest: true }
+      ],
+      description: 'Withdraw funds to your bank or wallet',
+      examples: ['/withdraw wallet 0x3f5ce5fbfe3e9af3971dd833d26ba9b5c936f0be 100 ethereum', '/withdraw bank 100'],
+      category: 'transfer',
+      rateLimit: 'read',
+      auth: { kyc: true, unlocked: true },
+      handler: ({ bot, msg, args }, auth) => withdrawCommand(bot, msg, auth, args)
+    });
+    registerCommand({
+      name: 'history',
+      aliases: ['transactions'],
+      description: 'View your transaction history',
+      category: 'transfer',
+      rateLimit: 'read',
+      auth: true,
+      handler: ({ bot, msg }, auth) => historyCommand(bot, msg, auth)
+    });
     
     // Log successful registration
     console.log('Transfer commands registered successfully');
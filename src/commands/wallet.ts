@@ -3,25 +3,16 @@ import {
   getWallets, 
   getWalletBalances, 
   setDefaultWallet, 
-  formatWalletBalance,
-  Wallet,
-  WalletBalance
+  formatWalletBalance
 } from '../services/wallet';
-import { isAuthenticated } from '../services/auth';
+import { Wallet } from '../types';
+import { ConversationFlow, registerConversation, startConversation, goto, stay, end } from '../conversations';
+import { AuthContext } from '../middleware/auth';
+import { checkRateLimit } from '../middleware/rateLimit';
+import { registerCommand } from './registry';
 
 // Command handlers
-export const balanceCommand = async (bot: TelegramBot, msg: TelegramBot.Message): Promise<void> => {
-  const chatId = msg.chat.id;
-  
-  if (!isAuthenticated(chatId)) {
-    await bot.sendMessage(
-      chatId, 
-      'You need to be logged in to view your wallet balances. Use /login to authenticate.',
-      { parse_mode: 'Markdown' }
-    );
-    return;
-  }
-  
+export const balanceCommand = async (bot: TelegramBot, msg: TelegramBot.Message, { chatId }: AuthContext): Promise<void> => {
   try {
     await bot.sendMessage(chatId, 'Fetching your wallet balances, please wait...');
     
@@ -59,18 +50,7 @@ Use /setdefaultwallet to change your default wallet.
   }
 };
 
-export const walletsCommand = async (bot: TelegramBot, msg: TelegramBot.Message): Promise<void> => {
-  const chatId = msg.chat.id;
-  
-  if (!isAuthenticated(chatId)) {
-    await bot.sendMessage(
-      chatId, 
-      'You need to be logged in to view your wallets. Use /login to authenticate.',
-      { parse_mode: 'Markdown' }
-    );
-    return;
-  }
-  
+export const walletsCommand = async (bot: TelegramBot, msg: TelegramBot.Message, { chatId }: AuthContext): Promise<void> => {
   try {
     await bot.sendMessage(chatId, 'Fetching your wallets, please wait...');
     
@@ -112,26 +92,69 @@ Use /setdefaultwallet to change your default wallet.
   }
 };
 
-// State management for default wallet selection
-interface DefaultWalletState {
-  awaitingSelection: boolean;
-  wallets?: Wallet[];
+/**
+ * Conversation state for default wallet selection
+ */
+interface DefaultWalletConversationData {
+  wallets: Pick<Wallet, 'id' | 'name' | 'network' | 'isDefault'>[];
 }
 
-const defaultWalletStates = new Map<number, DefaultWalletState>();
+/**
+ * Conversation flow for choosing the default wallet
+ */
+const defaultWalletConversation: ConversationFlow<DefaultWalletConversationData> = {
+  id: 'set_default_wallet',
+  steps: [
+    {
+      id: 'select',
+      prompt: async ({ reply, keyboard, data }) => {
+        // Wallet IDs do not fit into callback data, so buttons carry the list index
+        const buttons = data.wallets.map((wallet, index) => [{
+          text: `${wallet.name} (${wallet.network})${wallet.isDefault ? ' ✅' : ''}`,
+          action: `wallet_${index}`
+        }]);
+        
+        await reply(
+          'Please select the wallet you want to set as default:',
+          {
+            reply_markup: await keyboard(buttons)
+          }
+        );
+      },
+      handleCallback: async (action, { bot, chatId, data }) => {
+        const wallet = data.wallets[parseInt(action.replace('wallet_', ''), 10)];
+        if (!wallet) return stay();
 
-export const setDefaultWalletCommand = async (bot: TelegramBot, msg: TelegramBot.Message): Promise<void> => {
-  const chatId = msg.chat.id;
-  
-  if (!isAuthenticated(chatId)) {
-    await bot.sendMessage(
-      chatId, 
-      'You need to be logged in to set a default wallet. Use /login to authenticate.',
-      { parse_mode: 'Markdown' }
-    );
-    return;
-  }
-  
+        // Changes where incoming funds land, so it shares the budget of transfers
+        if (!(await checkRateLimit(bot, chatId, 'money'))) {
+          return goto('select');
+        }
+        
+        const walletId = wallet.id;
+        
+        try {
+          // Set default wallet
+          const updatedWallet = await setDefaultWallet(chatId, walletId);
+          
+          await bot.sendMessage(
+            chatId,
+            `✅ Your default wallet has been updated to: ${updatedWallet.name} (${updatedWallet.network})`,
+            { parse_mode: 'Markdown' }
+          );
+        } catch (error) {
+          const errorMessage = error instanceof Error 
+            ? error.message 
+            : 'Unknown error occurred';
+          await bot.sendMessage(chatId, `Error setting default wallet: ${errorMessage}`);
+        }
+        
+        return end();
+      }
+    }
+  ]
+};
+
+export const setDefaultWalletCommand = async (bot: TelegramBot, msg: TelegramBot.Message, { chatId }: AuthContext): Promise<void> => {
   try {
     await bot.sendMessage(chatId, 'Fetching your wallets, please wait...');
     
@@ -147,68 +170,8 @@ export const setDefaultWalletCommand = async (bot: TelegramBot, msg: TelegramBot
       return;
     }
     
-    // Initialize selection state
-    defaultWalletStates.set(chatId, { awaitingSelection: true, wallets });
-    
-    // Create keyboard for wallet selection
-    const keyboard = wallets.map((wallet, index) => [{
-      text: `${wallet.name} (${wallet.network})${wallet.isDefault ? ' ✅' : ''}`,
-      callback_data: `default_wallet:${wallet.id}`
-    }]);
-    
-    await bot.sendMessage(
-      chatId,
-      'Please select the wallet you want to set as default:',
-      {
-        reply_markup: {
-          inline_keyboard: keyboard
-        }
-      }
-    );
-    
-    // Set up callback query handler for the selection
-    bot.on('callback_query', async (callbackQuery) => {
-      if (!callbackQuery.data?.startsWith('default_wallet:')) return;
-      
-      // Ensure this is for the right chat
-      if (callbackQuery.message?.chat.id !== chatId) return;
-      
-      const state = defaultWalletStates.get(chatId);
-      if (!state || !state.awaitingSelection) return;
-      
-      // Extract wallet ID from callback data
-      const walletId = callbackQuery.data.split(':')[1];
-      
-      try {
-        await bot.answerCallbackQuery(callbackQuery.id, { text: 'Processing your selection...' });
-        
-        // Set default wallet
-        const updatedWallet = await setDefaultWallet(chatId, walletId);
-        
-        // Clear selection state
-        defaultWalletStates.delete(chatId);
-        
-        await bot.sendMessage(
-          chatId,
-          `✅ Your default wallet has been updated to: ${updatedWallet.name} (${updatedWallet.network})`,
-          { parse_mode: 'Markdown' }
-        );
-        
-        // Remove the inline keyboard
-        await bot.editMessageReplyMarkup(
-          { inline_keyboard: [] },
-          {
-            chat_id: chatId,
-            message_id: callbackQuery.message?.message_id
-          }
-        );
-        
-      } catch (error) {
-        const errorMessage = error instanceof Error 
-          ? error.message 
-          : 'Unknown error occurred';
-        await bot.sendMessage(chatId, `Error setting default wallet: ${errorMessage}`);
-      }
+    await startConversation(bot, chatId, 'set_default_wallet', {
+      wallets: wallets.map(({ id, name, network, isDefault }) => ({ id, name, network, isDefault }))
     });
     
   } catch (error) {
@@ -220,15 +183,41 @@ export const setDefaultWalletCommand = async (bot: TelegramBot, msg: TelegramBot
 };
 
 /**
- * Registers all wallet-related commands for the bot
- * @param bot - The Telegram bot instance
+ * Registers all wallet-related commands and conversations
  */
-export function registerWalletCommands(bot: TelegramBot): void {
+export function registerWalletCommands(): void {
   try {
+    // Register wallet conversations
+    registerConversation(defaultWalletConversation);
+    
     // Register wallet commands
-    bot.onText(/\/balance/, (msg) => balanceCommand(bot, msg));
-    bot.onText(/\/wallets/, (msg) => walletsCommand(bot, msg));
-    bot.onText(/\/setdefaultwallet/, (msg) => setDefaultWalletCommand(bot, msg));
+    registerCommand({
+      name: 'balance',
+      aliases: ['balances'],
+      description: 'Check your wallet balances',
+      category: 'wallet',
+      rateLimit: 'read',
+      auth: true,
+      handler: ({ bot, msg }, auth) => balanceCommand(bot, msg, auth)
+    });
+    registerCommand({
+      name: 'wallets',
+      aliases: ['wallet'],
+      description: 'View your wallets',
+      category: 'wallet',
+      rateLimit: 'read',
+      auth: true,
+      handler: ({ bot, msg }, auth) => walletsCommand(bot, msg, auth)
+    });
+    registerCommand({
+      name: 'setdefaultwallet',
+      aliases: ['setdefault'],
+      description: 'Set your default wallet',
+      category: 'wallet',
+      rateLimit: 'read',
+      auth: true,
+      handler: ({ bot, msg }, auth) => setDefaultWalletCommand(bot, msg, auth)
+    });
     
     // Log successful registration
     console.log('Wallet commands registered successfully');
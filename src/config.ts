@@ -1,14 +1,55 @@
+import dotenv from 'dotenv';
+
+// Load environment variables before any setting below is read
+dotenv.config();
+
+/**
+ * Token bucket limit: up to `requests` at once, refilled over `windowSeconds`
+ */
+export interface RateLimit {
+  requests: number;
+  windowSeconds: number;
+}
+
+/**
+ * Parse a limit written as "<requests>/<seconds>", e.g. "5/600"
+ */
+function parseRateLimit(value: string | undefined, fallback: RateLimit): RateLimit {
+  const match = value?.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!match || parseInt(match[1], 10) < 1 || parseInt(match[2], 10) < 1) {
+    return fallback;
+  }
+  return { requests: parseInt(match[1], 10), windowSeconds: parseInt(match[2], 10) };
+}
+
 /**
  * Application configuration
  */
 export const config = {
+  // Telegram update delivery
+  bot: {
+    // 'polling' (default) or 'webhook'
+    mode: process.env.BOT_MODE === 'webhook' ? 'webhook' : 'polling',
+    webhook: {
+      // Public base URL Telegram posts updates to, e.g. https://bot.example.com
+      url: process.env.WEBHOOK_URL || '',
+      path: process.env.WEBHOOK_PATH || '/telegram/webhook',
+      // Echoed by Telegram in the X-Telegram-Bot-Api-Secret-Token header
+      secret: process.env.WEBHOOK_SECRET || '',
+      port: parseInt(process.env.PORT || '3000', 10)
+    }
+  },
+  
   // API endpoints
   api: {
-    baseUrl: process.env.API_BASE_URL || 'https://income-api.copperx.io/api',
+    baseUrl: process.env.API_BASE_URL || process.env.COPPERX_API_URL || 'https://income-api.copperx.io/api',
+    // Request timeout in milliseconds
+    timeout: parseInt(process.env.COPPERX_API_TIMEOUT || '30000', 10),
     endpoints: {
       // Auth endpoints
       emailOtpRequest: '/auth/email-otp/request',
       emailOtpAuthenticate: '/auth/email-otp/authenticate',
+      refresh: '/auth/refresh',
       me: '/auth/me',
       
       // KYC endpoints
@@ -26,15 +67,125 @@ export const config = {
       bankWithdraw: '/transfers/offramp',
       batchTransfer: '/transfers/send-batch',
       
+      // Payout account endpoints
+      accounts: '/accounts',
+      
+      // Quote endpoints
+      transferQuote: '/quotes/transfer',
+      offrampQuote: '/quotes/offramp',
+      
       // Notification endpoints
       notificationsAuth: '/notifications/auth'
     }
   },
   
+  // Storage for sessions, conversations and other per-user state
+  store: {
+    // 'redis' (default) or 'memory' for local runs and tests
+    driver: process.env.SESSION_STORE === 'memory' ? 'memory' : 'redis',
+    redis: {
+      url: process.env.REDIS_URL || 'redis://localhost:6379',
+      // TLS is used for rediss:// URLs unless REDIS_TLS says otherwise
+      tls: process.env.REDIS_TLS
+        ? process.env.REDIS_TLS === 'true'
+        : (process.env.REDIS_URL || '').startsWith('rediss://')
+    }
+  },
+  
+  // Session encryption
+  session: {
+    // Secret the session encryption key is derived from
+    secret: process.env.SESSION_SECRET || '',
+    // Comma-separated secrets replaced by SESSION_SECRET; sessions they encrypted are re-encrypted on read
+    previousSecrets: (process.env.SESSION_SECRET_PREVIOUS || '').split(',').map((s) => s.trim()).filter(Boolean)
+  },
+  
+  // Conversation (wizard) settings
+  conversation: {
+    // Seconds an idle conversation is kept before it expires
+    ttl: parseInt(process.env.CONVERSATION_TTL || '900', 10)
+  },
+  
+  // Inline keyboard callback settings
+  callbacks: {
+    // Key used to sign callback_data
+    secret: process.env.CALLBACK_SECRET || process.env.SESSION_SECRET || process.env.TELEGRAM_BOT_TOKEN || '',
+    // Seconds an inline keyboard stays usable
+    ttl: parseInt(process.env.CALLBACK_TTL || '900', 10)
+  },
+  
+  // Rate limits, checked before any Copperx API call
+  rateLimits: {
+    // Per user: OTP requests and attempts
+    auth: parseRateLimit(process.env.RATE_LIMIT_AUTH, { requests: 5, windowSeconds: 600 }),
+    // Per user: balances, wallets, history and profile
+    read: parseRateLimit(process.env.RATE_LIMIT_READ, { requests: 30, windowSeconds: 60 }),
+    // Per user: transfers and withdrawals
+    money: parseRateLimit(process.env.RATE_LIMIT_MONEY, { requests: 5, windowSeconds: 60 }),
+    // Shared by all users
+    global: {
+      requests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '600', 10),
+      windowSeconds: Math.max(Math.round(parseInt(process.env.RATE_LIMIT_WINDOW || '60000', 10) / 1000), 1)
+    }
+  },
+  
+  // Duplicate submission protection for sends, withdrawals and batches
+  idempotency: {
+    // Seconds a submitted transfer is remembered, so a repeated submission returns its original result
+    ttl: parseInt(process.env.IDEMPOTENCY_TTL || '86400', 10)
+  },
+  
+  // Fee quotes shown on send and withdrawal confirmations
+  quotes: {
+    // Seconds a quote can be confirmed before it is refreshed, unless the API lets it expire sooner
+    ttl: parseInt(process.env.QUOTE_TTL || '60', 10)
+  },
+  
+  // Spending limits per user in USDC, across sends, withdrawals, batches and scheduled payouts
+  limits: {
+    // Defaults for users who have not changed their limits
+    perTransaction: parseFloat(process.env.LIMIT_PER_TRANSACTION || '1000'),
+    daily: parseFloat(process.env.LIMIT_DAILY || '2500'),
+    monthly: parseFloat(process.env.LIMIT_MONTHLY || '10000'),
+    // Hours before a raised limit applies; lowered limits apply at once
+    raiseDelayHours: parseFloat(process.env.LIMIT_RAISE_DELAY_HOURS || '24')
+  },
+  
+  // Second factor for transfers, set up with /security
+  security: {
+    // Transfers above this many USDC ask for the PIN or authenticator code; 0 asks for every transfer
+    stepUpThreshold: parseFloat(process.env.STEP_UP_THRESHOLD || '100'),
+    // Wrong codes in a row before transfers are locked
+    maxAttempts: parseInt(process.env.STEP_UP_MAX_ATTEMPTS || '5', 10),
+    lockoutMinutes: parseInt(process.env.STEP_UP_LOCKOUT_MINUTES || '30', 10)
+  },
+  
+  // Scheduled payouts
+  scheduler: {
+    // Seconds between checks for due payouts
+    interval: parseInt(process.env.SCHEDULER_INTERVAL || '60', 10),
+    // Minutes before a run that the user is reminded of it
+    reminderMinutes: parseInt(process.env.SCHEDULE_REMINDER_MINUTES || '60', 10),
+    // Minutes a run may be late, e.g. after downtime, before it is skipped instead
+    graceMinutes: parseInt(process.env.SCHEDULE_GRACE_MINUTES || '60', 10)
+  },
+  
   // Pusher configuration
   pusher: {
     key: process.env.PUSHER_KEY || 'e089376087cac1a62785',
-    cluster: process.env.PUSHER_CLUSTER || 'ap1'
+    cluster: process.env.PUSHER_CLUSTER || 'ap1',
+    // Self-hosted Pusher-compatible server (e.g. the mock API); uses the cluster when empty
+    wsHost: process.env.PUSHER_WS_HOST || '',
+    wsPort: parseInt(process.env.PUSHER_WS_PORT || '80', 10)
+  },
+  
+  // Local mock Copperx API (npm run mock)
+  mock: {
+    port: parseInt(process.env.MOCK_PORT || '4010', 10),
+    // One-time password accepted for every seeded account
+    otp: process.env.MOCK_OTP || '123456',
+    // Seconds until mock access tokens expire
+    tokenTtl: parseInt(process.env.MOCK_TOKEN_TTL || '3600', 10)
   }
 };
 
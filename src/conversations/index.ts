@@ -0,0 +1,444 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { logger } from '../utils/logger';
+import { CallbackButton, CallbackContext, createKeyboard, registerCallbackHandler } from '../callbacks';
+import {
+  storeConversationState,
+  getConversationState,
+  deleteConversationState
+} from '../utils/session';
+
+/**
+ * Result of validating a text reply for a conversation step
+ */
+export type StepValidation<V = any> =
+  | { valid: true; value: V }
+  | { valid: false; error: string };
+
+/**
+ * Tells the engine where to go once a step has handled an update
+ */
+export type StepOutcome =
+  | { action: 'next' }
+  | { action: 'goto'; step: string }
+  | { action: 'stay' }
+  | { action: 'end' }
+  | { action: 'switch'; flow: string; data?: Record<string, any> };
+
+/**
+ * Context passed to every step callback
+ */
+export interface ConversationContext<T extends Record<string, any> = Record<string, any>> {
+  bot: TelegramBot;
+  chatId: number;
+  data: T;
+  // Sends a message and remembers inline keyboards so they can be cleared later
+  reply: (text: string, options?: TelegramBot.SendMessageOptions) => Promise<TelegramBot.Message>;
+  // Builds a signed inline keyboard whose taps are routed back to the current step
+  keyboard: (rows: CallbackButton[][]) => Promise<TelegramBot.InlineKeyboardMarkup>;
+  // Message whose button was tapped, in handleCallback
+  messageId?: number;
+}
+
+/**
+ * A single declarative step of a conversation flow
+ */
+export interface ConversationStep<T extends Record<string, any> = Record<string, any>> {
+  id: string;
+  // Sends the question for this step
+  prompt: (ctx: ConversationContext<T>) => Promise<void>;
+  // Validates a text reply; steps without a validator only accept buttons
+  validate?: (text: string, ctx: ConversationContext<T>) => StepValidation | Promise<StepValidation>;
+  // Data key the step fills; the validated value is stored under it when there is no handleText
+  field?: keyof T & string;
+  // Custom handling of a validated text reply
+  handleText?: (value: any, ctx: ConversationContext<T>) => Promise<StepOutcome>;
+  // Handles an inline keyboard tap while this step is active
+  handleCallback?: (action: string, ctx: ConversationContext<T>) => Promise<StepOutcome>;
+  // Replies are PINs or codes: they are deleted from the chat and kept out of the logs
+  sensitive?: boolean;
+}
+
+/**
+ * A named sequence of steps
+ */
+export interface ConversationFlow<T extends Record<string, any> = Record<string, any>> {
+  id: string;
+  steps: ConversationStep<T>[];
+}
+
+/**
+ * Conversation state as persisted in the session store
+ */
+export interface ConversationState {
+  flow: string;
+  step: string;
+  data: Record<string, any>;
+  // Previously visited steps, most recent last, used by /back
+  history: string[];
+  // Messages carrying inline keyboards sent during this conversation
+  keyboards: number[];
+  // Steps whose field was given when the conversation started; they are passed over when moving forward
+  prefilled?: string[];
+  updatedAt: number;
+}
+
+// Registered flows by ID
+const flows = new Map<string, ConversationFlow<any>>();
+
+/**
+ * Shorthand outcomes for step handlers
+ */
+export const next = (): StepOutcome => ({ action: 'next' });
+export const goto = (step: string): StepOutcome => ({ action: 'goto', step });
+export const stay = (): StepOutcome => ({ action: 'stay' });
+export const end = (): StepOutcome => ({ action: 'end' });
+export const switchTo = (flow: string, data?: Record<string, any>): StepOutcome => ({ action: 'switch', flow, data });
+
+/**
+ * Register a conversation flow with the engine
+ * @param flow - The flow definition
+ */
+export function registerConversation<T extends Record<string, any>>(flow: ConversationFlow<T>): void {
+  if (flows.has(flow.id)) {
+    throw new Error(`Conversation flow "${flow.id}" is already registered`);
+  }
+  flows.set(flow.id, flow);
+  registerCallbackHandler(flow.id, (ctx) => handleCallback(ctx));
+}
+
+/**
+ * Start a conversation for a chat, replacing any conversation already in progress
+ * @param bot - The Telegram bot instance
+ * @param chatId - Chat ID
+ * @param flowId - ID of a registered flow
+ * @param data - Initial conversation data; steps whose field it already holds are skipped
+ */
+export async function startConversation(
+  bot: TelegramBot,
+  chatId: number,
+  flowId: string,
+  data: Record<string, any> = {}
+): Promise<void> {
+  const flow = flows.get(flowId);
+  if (!flow || flow.steps.length === 0) {
+    throw new Error(`Unknown conversation flow "${flowId}"`);
+  }
+
+  // Buttons of a replaced conversation must not stay usable
+  const previous = await getConversationState(chatId);
+  if (previous) {
+    await clearKeyboards(bot, chatId, previous);
+  }
+
+  const prefilled = flow.steps
+    .filter((step) => step.field && data[step.field] !== undefined)
+    .map((step) => step.id);
+
+  const first = nextStep(flow, -1, prefilled);
+  if (!first) {
+    throw new Error(`Conversation flow "${flowId}" has no step left to ask`);
+  }
+
+  const state: ConversationState = {
+    flow: flow.id,
+    step: first.id,
+    data,
+    history: [],
+    keyboards: [],
+    prefilled,
+    updatedAt: Date.now()
+  };
+
+  await enterStep(bot, chatId, flow, state);
+}
+
+/**
+ * Abort the active conversation for a chat and remove its inline keyboards
+ * @param bot - The Telegram bot instance
+ * @param chatId - Chat ID
+ * @returns true if a conversation was active
+ */
+export async function cancelConversation(bot: TelegramBot, chatId: number): Promise<boolean> {
+  const state = await getConversationState(chatId);
+  if (!state) return false;
+
+  await clearKeyboards(bot, chatId, state);
+  await deleteConversationState(chatId);
+  return true;
+}
+
+/**
+ * Return the active conversation to its previous step and prompt for it again
+ * @param bot - The Telegram bot instance
+ * @param chatId - Chat ID
+ * @returns false if there is no conversation or no previous step
+ */
+export async function goBack(bot: TelegramBot, chatId: number): Promise<boolean> {
+  const active = await loadActive(chatId);
+  if (!active || active.state.history.length === 0) return false;
+
+  const { flow, state } = active;
+  const history = [...state.history];
+  const previousStep = history.pop() as string;
+
+  await clearKeyboards(bot, chatId, state);
+  await enterStep(bot, chatId, flow, { ...state, step: previousStep, history, keyboards: [] });
+  return true;
+}
+
+/**
+ * Check whether a chat has an active conversation
+ * @param chatId - Chat ID
+ */
+export async function hasActiveConversation(chatId: number): Promise<boolean> {
+  return (await getConversationState(chatId)) !== null;
+}
+
+/**
+ * Check whether the active step of a chat asks for a PIN or code
+ * @param chatId - Chat ID
+ */
+export async function awaitsSensitiveReply(chatId: number): Promise<boolean> {
+  const state = await getConversationState(chatId);
+  const step = state && flows.get(state.flow)?.steps.find((s) => s.id === state.step);
+  return !!step?.sensitive;
+}
+
+/**
+ * Sets up the single message dispatcher for all conversations
+ * @param bot - The Telegram bot instance
+ */
+export function setupConversationHandlers(bot: TelegramBot): void {
+  bot.on('message', (msg) => {
+    handleMessage(bot, msg).catch((error) => {
+      logger.error('Error handling conversation message:', error);
+      bot.sendMessage(msg.chat.id, "❌ Something went wrong while processing your request. Please try again later.");
+    });
+  });
+
+  logger.info('Conversation handlers have been set up');
+}
+
+/**
+ * Dispatch a text message to the active step of the chat's conversation
+ */
+async function handleMessage(bot: TelegramBot, msg: TelegramBot.Message): Promise<void> {
+  const chatId = msg.chat.id;
+  const text = msg.text?.trim();
+
+  // Commands are handled by their own handlers
+  if (!text || text.startsWith('/')) return;
+
+  const active = await loadActive(chatId);
+  if (!active) return;
+
+  const { flow, step, state } = active;
+  const ctx = createContext(bot, chatId, state);
+
+  if (step.sensitive) {
+    try {
+      await bot.deleteMessage(chatId, msg.message_id);
+    } catch (error) {
+      logger.warn(`Could not delete a code sent in chat ${chatId}:`, error);
+    }
+  }
+
+  if (!step.validate) {
+    await bot.sendMessage(chatId, "👆 Please use the buttons above to continue.");
+    return;
+  }
+
+  const result = await step.validate(text, ctx);
+  if (!result.valid) {
+    await bot.sendMessage(chatId, result.error);
+    return;
+  }
+
+  let outcome: StepOutcome;
+  if (step.handleText) {
+    outcome = await step.handleText(result.value, ctx);
+  } else {
+    if (step.field) {
+      state.data[step.field] = result.value;
+    }
+    outcome = next();
+  }
+
+  await applyOutcome(bot, chatId, flow, state, outcome);
+}
+
+/**
+ * Dispatch a verified inline keyboard tap to the step that sent the keyboard
+ */
+async function handleCallback(callback: CallbackContext): Promise<void> {
+  const { bot, chatId } = callback;
+  const active = await loadActive(chatId);
+
+  // Buttons from a finished conversation or from another step
+  if (!active || active.state.flow !== callback.flow || active.state.step !== callback.step || !active.step.handleCallback) {
+    await callback.answer('This button is no longer active.');
+    return;
+  }
+
+  await callback.answer();
+
+  const { flow, step, state } = active;
+
+  // A tap can arrive before the prompt has recorded its keyboard
+  if (!state.keyboards.includes(callback.messageId)) {
+    state.keyboards.push(callback.messageId);
+  }
+
+  const outcome = await step.handleCallback!(callback.action, {
+    ...createContext(bot, chatId, state),
+    messageId: callback.messageId
+  });
+  await applyOutcome(bot, chatId, flow, state, outcome);
+}
+
+/**
+ * Load the active conversation for a chat together with its flow and current step
+ */
+async function loadActive(chatId: number): Promise<{
+  flow: ConversationFlow;
+  step: ConversationStep;
+  state: ConversationState;
+} | null> {
+  const state = await getConversationState(chatId);
+  if (!state) return null;
+
+  // State written before history and keyboards were tracked
+  state.history = state.history || [];
+  state.keyboards = state.keyboards || [];
+
+  const flow = flows.get(state.flow);
+  const step = flow?.steps.find((s) => s.id === state.step);
+
+  if (!flow || !step) {
+    // State written by a flow that no longer exists
+    logger.warn(`Discarding stale conversation ${state.flow}/${state.step} for chat ${chatId}`);
+    await deleteConversationState(chatId);
+    return null;
+  }
+
+  return { flow, step, state };
+}
+
+/**
+ * Persist the new state and prompt for the next step according to the outcome
+ */
+async function applyOutcome(
+  bot: TelegramBot,
+  chatId: number,
+  flow: ConversationFlow,
+  state: ConversationState,
+  outcome: StepOutcome
+): Promise<void> {
+  switch (outcome.action) {
+    case 'next': {
+      const index = flow.steps.findIndex((s) => s.id === state.step);
+      const following = nextStep(flow, index, state.prefilled ?? []);
+      if (!following) {
+        await clearKeyboards(bot, chatId, state);
+        await deleteConversationState(chatId);
+        return;
+      }
+      await enterStep(bot, chatId, flow, { ...state, step: following.id, history: [...state.history, state.step] });
+      return;
+    }
+    case 'goto': {
+      // Re-entering the current step (e.g. to refresh its prompt) does not add to the history
+      const history = outcome.step === state.step ? state.history : [...state.history, state.step];
+      await enterStep(bot, chatId, flow, { ...state, step: outcome.step, history });
+      return;
+    }
+    case 'stay':
+      await storeConversationState(chatId, { ...state, updatedAt: Date.now() });
+      return;
+    case 'end':
+      await clearKeyboards(bot, chatId, state);
+      await deleteConversationState(chatId);
+      return;
+    case 'switch':
+      await startConversation(bot, chatId, outcome.flow, outcome.data);
+      return;
+  }
+}
+
+/**
+ * Find the first step after an index that was not answered up front
+ */
+function nextStep(flow: ConversationFlow, index: number, prefilled: string[]): ConversationStep | undefined {
+  return flow.steps.slice(index + 1).find((step) => !prefilled.includes(step.id));
+}
+
+/**
+ * Save the state for a step and send its prompt
+ */
+async function enterStep(
+  bot: TelegramBot,
+  chatId: number,
+  flow: ConversationFlow,
+  state: ConversationState
+): Promise<void> {
+  const step = flow.steps.find((s) => s.id === state.step);
+  if (!step) {
+    throw new Error(`Unknown step "${state.step}" in conversation flow "${flow.id}"`);
+  }
+
+  const entered: ConversationState = { ...state, keyboards: [...state.keyboards], updatedAt: Date.now() };
+  await storeConversationState(chatId, entered);
+
+  const keyboardCount = entered.keyboards.length;
+  await step.prompt(createContext(bot, chatId, entered));
+
+  // Remember keyboards sent by the prompt
+  if (entered.keyboards.length !== keyboardCount) {
+    await storeConversationState(chatId, entered);
+  }
+}
+
+/**
+ * Build the context handed to step callbacks
+ */
+function createContext(bot: TelegramBot, chatId: number, state: ConversationState): ConversationContext {
+  return {
+    bot,
+    chatId,
+    data: state.data,
+    reply: async (text, options) => {
+      const markup = options?.reply_markup as TelegramBot.InlineKeyboardMarkup | undefined;
+      const hasKeyboard = !!markup?.inline_keyboard?.length;
+
+      // Its buttons can be tapped as soon as it is sent, so data set so far must be saved first
+      if (hasKeyboard) {
+        await storeConversationState(chatId, { ...state, updatedAt: Date.now() });
+      }
+
+      const message = await bot.sendMessage(chatId, text, options);
+      if (hasKeyboard) {
+        state.keyboards.push(message.message_id);
+      }
+      return message;
+    },
+    keyboard: (rows) => createKeyboard(chatId, state.flow, state.step, rows)
+  };
+}
+
+/**
+ * Remove the inline keyboards sent during a conversation
+ */
+async function clearKeyboards(bot: TelegramBot, chatId: number, state: ConversationState): Promise<void> {
+  for (const messageId of state.keyboards || []) {
+    try {
+      await bot.editMessageReplyMarkup(
+        { inline_keyboard: [] },
+        { chat_id: chatId, message_id: messageId }
+      );
+    } catch (error) {
+      // The message may already be gone or have no keyboard left
+      logger.debug(`Could not clear keyboard of message ${messageId} in chat ${chatId}:`, error);
+    }
+  }
+  state.keyboards = [];
+}
@@ -1,11 +1,14 @@
 import dotenv from 'dotenv';
+import http from 'http';
 import TelegramBot from 'node-telegram-bot-api';
 import { config } from './config';
 import { setupCommandHandlers } from './commands';
 import { setupMiddleware } from './middleware';
 import { logger } from './utils/logger';
 import { setupPusherForAllUsers } from './services/notification';
-import { initRedisConnection, closeRedisConnection } from './utils/redis';
+import { startScheduler, stopScheduler } from './services/scheduler';
+import { initStore, closeStore } from './store';
+import { startWebhookServer, stopWebhookServer } from './webhook';
 
 // Load environment variables
 dotenv.config();
@@ -16,21 +19,39 @@ if (!process.env.TELEGRAM_BOT_TOKEN) {
   process.exit(1);
 }
 
+if (!process.env.SESSION_SECRET) {
+  logger.error('SESSION_SECRET is required in .env file to encrypt sessions');
+  process.exit(1);
+}
+
 /**
  * Initialize and start the Telegram bot
  */
 async function startBot(): Promise<void> {
+  let bot: TelegramBot | null = null;
+  let webhookServer: http.Server | null = null;
+
+  // Stop receiving updates and release connections
+  const shutdown = async (): Promise<void> => {
+    stopScheduler();
+    if (bot && webhookServer) {
+      await stopWebhookServer(bot, webhookServer);
+    } else if (bot) {
+      await bot.stopPolling();
+    }
+    await closeStore();
+  };
+
   try {
-    // Create a bot instance
-    const bot = new TelegramBot(process.env.TELEGRAM_BOT_TOKEN as string, {
-      polling: true
+    // Create a bot instance; updates start flowing once handlers are registered
+    bot = new TelegramBot(process.env.TELEGRAM_BOT_TOKEN as string, {
+      polling: config.bot.mode === 'polling' ? { autoStart: false } : false
     });
 
-    logger.info('Bot is starting...');
+    logger.info(`Bot is starting in ${config.bot.mode} mode...`);
 
-    // Initialize Redis connection
-    await initRedisConnection();
-    logger.info('Redis connection established');
+    // Connect to the session store
+    await initStore();
 
     // Setup middleware for the bot (authentication, logging, etc.)
     setupMiddleware(bot);
@@ -41,10 +62,22 @@ async function startBot(): Promise<void> {
     // Set up notification service
     setupPusherForAllUsers(bot);
 
-    // Handle errors
-    bot.on('polling_error', (error) => {
-      logger.error('Polling error:', error);
-    });
+    // Run scheduled payouts
+    startScheduler(bot);
+
+    // Start receiving updates
+    if (config.bot.mode === 'webhook') {
+      webhookServer = await startWebhookServer(bot);
+    } else {
+      // A webhook left over from a webhook deployment blocks getUpdates
+      await bot.deleteWebHook();
+      await bot.startPolling();
+
+      // Handle errors
+      bot.on('polling_error', (error) => {
+        logger.error('Polling error:', error);
+      });
+    }
 
     // Log when bot is ready
     logger.info(`Bot has started. Username: ${(await bot.getMe()).username}`);
@@ -52,32 +85,26 @@ async function startBot(): Promise<void> {
     // Handle process termination
     process.on('SIGINT', async () => {
       logger.info('Bot is shutting down...');
-      bot.stopPolling();
-      await closeRedisConnection();
-      logger.info('Redis connection closed');
+      await shutdown();
       process.exit(0);
     });
 
     process.on('SIGTERM', async () => {
       logger.info('Bot is shutting down...');
-      bot.stopPolling();
-      await closeRedisConnection();
-      logger.info('Redis connection closed');
+      await shutdown();
       process.exit(0);
     });
 
     process.on('uncaughtException', async (error) => {
       logger.error('Uncaught exception:', error);
-      bot.stopPolling();
-      await closeRedisConnection();
-      logger.error('Redis connection closed due to error');
+      await shutdown();
       process.exit(1);
     });
 
   } catch (error) {
     logger.error('Failed to start bot:', error);
-    await closeRedisConnection().catch(err => {
-      logger.error('Error closing Redis connection:', err);
+    await shutdown().catch(err => {
+      logger.error('Error during shutdown:', err);
     });
     process.exit(1);
   }
@@ -0,0 +1,94 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { getKYCStatus, getUserSession } from '../services/auth';
+import { getTransferLock } from '../services/security';
+import { AuthToken } from '../types';
+import { formatUtcTime } from '../utils/formatter';
+import { logger } from '../utils/logger';
+
+// Reply for users without a session, shared by every protected command
+export const LOGIN_REQUIRED_MESSAGE = '🔒 You need to be logged in to use this command. Use /login to sign in.';
+
+/**
+ * Requirements a protected command places on the user
+ */
+export interface AuthRequirements {
+  // Only users with an approved KYC may run the command
+  kyc?: boolean;
+  // Transfers must not be locked after too many wrong PINs or authenticator codes
+  unlocked?: boolean;
+}
+
+/**
+ * Context handed to protected command handlers
+ */
+export interface AuthContext {
+  chatId: number;
+  // Session resolved once before the handler runs
+  session: AuthToken;
+}
+
+/**
+ * Resolve the session of a user and check the requirements of a protected command
+ *
+ * Users who do not qualify are told why, so callers can simply stop.
+ * @param bot - The Telegram bot instance
+ * @param chatId - Chat ID of the user
+ * @param requirements - Additional requirements such as an approved KYC
+ * @returns The auth context, or null if the command must not run
+ */
+export async function authorize(
+  bot: TelegramBot,
+  chatId: number,
+  requirements: AuthRequirements = {}
+): Promise<AuthContext | null> {
+  const session = await getUserSession(chatId);
+
+  if (!session) {
+    await bot.sendMessage(chatId, LOGIN_REQUIRED_MESSAGE);
+    return null;
+  }
+
+  if (requirements.kyc && !(await hasApprovedKyc(bot, chatId))) {
+    return null;
+  }
+
+  if (requirements.unlocked) {
+    const lockedUntil = await getTransferLock(chatId);
+    if (lockedUntil !== null) {
+      await bot.sendMessage(chatId, transferLockedMessage(lockedUntil));
+      return null;
+    }
+  }
+
+  return { chatId, session };
+}
+
+/**
+ * Reply for users whose transfers are locked after too many wrong codes
+ * @param lockedUntil - End of the lockout in milliseconds
+ */
+export function transferLockedMessage(lockedUntil: number): string {
+  return `🔒 Too many wrong codes. Transfers are locked until ${formatUtcTime(lockedUntil)}.`;
+}
+
+/**
+ * Check the user's KYC, telling them why the command is unavailable if it is not approved
+ */
+async function hasApprovedKyc(bot: TelegramBot, chatId: number): Promise<boolean> {
+  try {
+    const kycs = await getKYCStatus(chatId);
+    if (kycs.some((kyc) => kyc.status === 'approved')) {
+      return true;
+    }
+
+    await bot.sendMessage(
+      chatId,
+      '⚠️ This command requires an approved KYC. Complete your verification on Copperx and try again. Use /profile to check your status.'
+    );
+  } catch (error) {
+    logger.error(`KYC check failed for chat ${chatId}:`, error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await bot.sendMessage(chatId, `❌ Failed to check your KYC status: ${errorMessage}. Please try again.`);
+  }
+  return false;
+}
@@ -1,4 +1,5 @@
 import TelegramBot from 'node-telegram-bot-api';
+import { awaitsSensitiveReply } from '../conversations';
 import { logger } from '../utils/logger';
 
 /**
@@ -9,12 +10,10 @@ export function setupMiddleware(bot: TelegramBot): void {
   try {
     // Log all incoming messages
     bot.on('message', (msg) => {
-      const username = msg.from?.username || msg.from?.first_name || 'Unknown';
-      logger.info(`Received message from ${username} (${msg.from?.id}): ${msg.text}`);
+      logMessage(msg).catch((error) => logger.error('Error logging message:', error));
     });
     
-    // TODO: Add authentication middleware
-    // TODO: Add rate limiting middleware
+    // Authentication (./auth) and rate limits (./rateLimit) wrap individual command handlers
     
     logger.info('Middleware has been set up');
   } catch (error) {
@@ -23,3 +22,15 @@ export function setupMiddleware(bot: TelegramBot): void {
   }
 }
 
+/**
+ * Log an incoming message, hiding PINs and codes typed into a conversation
+ */
+async function logMessage(msg: TelegramBot.Message): Promise<void> {
+  const username = msg.from?.username || msg.from?.first_name || 'Unknown';
+  const text = msg.text && !msg.text.startsWith('/') && await awaitsSensitiveReply(msg.chat.id)
+    ? '[hidden]'
+    : msg.text;
+
+  logger.info(`Received message from ${username} (${msg.from?.id}): ${text}`);
+}
+
@@ -0,0 +1,126 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { config, RateLimit } from '../config';
+import { getStore } from '../store';
+import { logger } from '../utils/logger';
+
+// Key prefix for rate limit buckets
+const RATE_LIMIT_PREFIX = 'rate_limit:';
+
+/**
+ * Budget a command draws from
+ *
+ * - auth: OTP requests and attempts
+ * - read: commands that only read from Copperx
+ * - money: transfers and withdrawals
+ */
+export type RateLimitClass = 'auth' | 'read' | 'money';
+
+/**
+ * Outcome of drawing from the buckets
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the request would be allowed
+  retryAfter: number;
+  // Whether the shared budget of all users ran out rather than the user's own
+  global: boolean;
+}
+
+/**
+ * Stored state of a token bucket
+ */
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Take one token from the user's bucket for a class and from the global bucket
+ *
+ * Nothing is taken unless both buckets allow the request. Buckets refill
+ * continuously at their limit's rate.
+ * @param chatId - Chat ID of the user
+ * @param limitClass - Budget the request draws from
+ */
+export async function consumeRateLimit(chatId: number, limitClass: RateLimitClass): Promise<RateLimitResult> {
+  const userKey = `${RATE_LIMIT_PREFIX}${limitClass}:${chatId}`;
+  const globalKey = `${RATE_LIMIT_PREFIX}global`;
+  const now = Date.now();
+
+  const user = refill(await loadBucket(userKey, config.rateLimits[limitClass]), config.rateLimits[limitClass], now);
+  const global = refill(await loadBucket(globalKey, config.rateLimits.global), config.rateLimits.global, now);
+
+  if (user.tokens < 1) {
+    return { allowed: false, retryAfter: waitFor(user, config.rateLimits[limitClass]), global: false };
+  }
+  if (global.tokens < 1) {
+    return { allowed: false, retryAfter: waitFor(global, config.rateLimits.global), global: true };
+  }
+
+  // Read-modify-write: concurrent requests may overdraw by a token, which is acceptable here
+  await saveBucket(userKey, { ...user, tokens: user.tokens - 1 }, config.rateLimits[limitClass]);
+  await saveBucket(globalKey, { ...global, tokens: global.tokens - 1 }, config.rateLimits.global);
+
+  return { allowed: true, retryAfter: 0, global: false };
+}
+
+/**
+ * Draw from the rate limit and tell the user to wait if it is exhausted
+ * @param bot - The Telegram bot instance
+ * @param chatId - Chat ID of the user
+ * @param limitClass - Budget the request draws from
+ * @returns true if the request may go ahead
+ */
+export async function checkRateLimit(bot: TelegramBot, chatId: number, limitClass: RateLimitClass): Promise<boolean> {
+  let result: RateLimitResult;
+
+  try {
+    result = await consumeRateLimit(chatId, limitClass);
+  } catch (error) {
+    // Losing the limiter must not take the bot down with it
+    logger.error(`Rate limit check failed for chat ${chatId}:`, error);
+    return true;
+  }
+
+  if (result.allowed) {
+    return true;
+  }
+
+  logger.warn(`Rate limited ${limitClass} request from chat ${chatId} (${result.global ? 'global' : 'user'} limit)`);
+  await bot.sendMessage(chatId, result.global
+    ? `⏳ The bot is very busy right now. Please try again in ${formatWait(result.retryAfter)}.`
+    : `⏳ You're going a bit fast. Please wait ${formatWait(result.retryAfter)} before trying again.`
+  );
+  return false;
+}
+
+async function loadBucket(key: string, limit: RateLimit): Promise<Bucket> {
+  const data = await getStore().get(key);
+  return data ? JSON.parse(data) as Bucket : { tokens: limit.requests, updatedAt: Date.now() };
+}
+
+async function saveBucket(key: string, bucket: Bucket, limit: RateLimit): Promise<void> {
+  // A bucket left alone for a full window is full again and need not be kept
+  await getStore().set(key, JSON.stringify(bucket), limit.windowSeconds);
+}
+
+function refill(bucket: Bucket, limit: RateLimit, now: number): Bucket {
+  const elapsed = Math.max(now - bucket.updatedAt, 0) / 1000;
+  const tokens = Math.min(limit.requests, bucket.tokens + elapsed * (limit.requests / limit.windowSeconds));
+  return { tokens, updatedAt: now };
+}
+
+/**
+ * Seconds until a bucket holds a whole token
+ */
+function waitFor(bucket: Bucket, limit: RateLimit): number {
+  return Math.ceil((1 - bucket.tokens) * (limit.windowSeconds / limit.requests));
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,191 @@
+/**
+ * Seed data and state of the mock Copperx API
+ */
+
+/**
+ * A wallet of a mock account
+ */
+export interface MockWallet {
+  id: string;
+  network: string;
+  walletType: string;
+  address: string;
+  isDefault: boolean;
+  // USDC balance
+  balance: number;
+  createdAt: string;
+}
+
+/**
+ * A bank account of a mock account
+ */
+export interface MockBankAccount {
+  id: string;
+  bankName: string;
+  accountNumber: string;
+  currency: string;
+  country: string;
+  // Smallest withdrawal in USDC
+  minAmount: number;
+  arrivalTimeMessage: string;
+}
+
+/**
+ * A transfer as stored by the mock
+ */
+export interface MockTransfer {
+  id: string;
+  type: 'send' | 'receive' | 'withdraw' | 'offramp' | 'deposit';
+  status: string;
+  amount: string;
+  currency: string;
+  totalFee: string;
+  network?: string;
+  transactionHash?: string;
+  recipient?: string;
+  sender?: string;
+  description?: string;
+  createdAt: string;
+}
+
+/**
+ * A seeded Copperx user with their organization
+ */
+export interface MockAccount {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  organizationId: string;
+  kycStatus: 'approved' | 'pending' | 'none';
+  wallets: MockWallet[];
+  bankAccounts: MockBankAccount[];
+  transfers: MockTransfer[];
+}
+
+// Fixed timestamp so seeded records are identical on every run
+const SEEDED_AT = '2025-01-01T00:00:00.000Z';
+
+/**
+ * Build a fresh copy of the seeded accounts
+ *
+ * - alice@example.com: verified, funded Solana (default) and Ethereum wallets, USD and EUR bank accounts
+ * - bob@example.com: verified, small Solana and Ethereum balances, a handy send recipient
+ * - carol@example.com: KYC pending, empty wallet
+ */
+export function createSeedAccounts(): MockAccount[] {
+  return [
+    {
+      id: 'user-alice',
+      email: 'alice@example.com',
+      firstName: 'Alice',
+      lastName: 'Anders',
+      organizationId: 'org-alice',
+      kycStatus: 'approved',
+      wallets: [
+        {
+          id: 'wallet-alice-sol',
+          network: 'solana',
+          walletType: 'web3_auth_copperx',
+          address: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
+          isDefault: true,
+          balance: 1000,
+          createdAt: SEEDED_AT
+        },
+        {
+          id: 'wallet-alice-eth',
+          network: 'ethereum',
+          walletType: 'web3_auth_copperx',
+          address: '0x52908400098527886e0f7030069857d2e4169ee7',
+          isDefault: false,
+          balance: 250,
+          createdAt: SEEDED_AT
+        }
+      ],
+      bankAccounts: [
+        {
+          id: '5b0f3a62-8c1e-4d7a-9f24-6e3b1c8d0a57',
+          bankName: 'Mock Bank',
+          accountNumber: '****1234',
+          currency: 'USD',
+          country: 'USA',
+          minAmount: 10,
+          arrivalTimeMessage: '1-3 business days'
+        },
+        {
+          id: 'c9e47d15-2a6b-4f83-b1d0-7a5e9c2f4b38',
+          bankName: 'Mock Euro Bank',
+          accountNumber: '****5678',
+          currency: 'EUR',
+          country: 'DEU',
+          minAmount: 50,
+          arrivalTimeMessage: '1 business day'
+        }
+      ],
+      transfers: [
+        {
+          id: 'transfer-alice-1',
+          type: 'deposit',
+          status: 'success',
+          amount: '1000.00',
+          currency: 'USDC',
+          totalFee: '0.00',
+          network: 'solana',
+          transactionHash: '5h2pXq9mockSeededDepositHash',
+          createdAt: SEEDED_AT
+        }
+      ]
+    },
+    {
+      id: 'user-bob',
+      email: 'bob@example.com',
+      firstName: 'Bob',
+      lastName: 'Baker',
+      organizationId: 'org-bob',
+      kycStatus: 'approved',
+      wallets: [
+        {
+          id: 'wallet-bob-sol',
+          network: 'solana',
+          walletType: 'web3_auth_copperx',
+          address: '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM',
+          isDefault: true,
+          balance: 50,
+          createdAt: SEEDED_AT
+        },
+        {
+          id: 'wallet-bob-eth',
+          network: 'ethereum',
+          walletType: 'web3_auth_copperx',
+          address: '0xab5801a7d398351b8be11c439e05c5b3259aec9b',
+          isDefault: false,
+          balance: 20,
+          createdAt: SEEDED_AT
+        }
+      ],
+      bankAccounts: [],
+      transfers: []
+    },
+    {
+      id: 'user-carol',
+      email: 'carol@example.com',
+      firstName: 'Carol',
+      lastName: 'Chen',
+      organizationId: 'org-carol',
+      kycStatus: 'pending',
+      wallets: [
+        {
+          id: 'wallet-carol-sol',
+          network: 'solana',
+          walletType: 'web3_auth_copperx',
+          address: 'HN7cABqLq46Es1jh92dQQisAq662SmxELLLsHHe4YWrH',
+          isDefault: true,
+          balance: 0,
+          createdAt: SEEDED_AT
+        }
+      ],
+      bankAccounts: [],
+      transfers: []
+    }
+  ];
+}
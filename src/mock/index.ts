@@ -0,0 +1,32 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { createSeedAccounts } from './data';
+import { MockCopperxServer } from './server';
+
+export { MockCopperxServer, MockFailure, MockServerOptions } from './server';
+
+/**
+ * Run the mock Copperx API until interrupted
+ */
+async function main(): Promise<void> {
+  const server = new MockCopperxServer();
+  const url = await server.start();
+
+  logger.info(`Mock Copperx API listening at ${url}`);
+  logger.info(`Point the bot at it with API_BASE_URL=${url} PUSHER_WS_HOST=localhost PUSHER_WS_PORT=${server.port}`);
+  logger.info(`Seeded accounts (OTP ${config.mock.otp}): ${createSeedAccounts().map((account) => account.email).join(', ')}`);
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    logger.error('Failed to start mock Copperx API:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+import http from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import { logger } from '../utils/logger';
+
+// Path prefix pusher-js connects to: /app/<key>
+const APP_PATH = /^\/app\/([^/?]+)/;
+
+// Seconds of inactivity after which clients ping
+const ACTIVITY_TIMEOUT = 120;
+
+/**
+ * A message of the Pusher channels protocol
+ */
+interface PusherMessage {
+  event: string;
+  channel?: string;
+  data?: unknown;
+}
+
+/**
+ * Minimal Pusher channels server speaking the protocol pusher-js uses
+ *
+ * Supports connecting, ping/pong and subscribing to public and private
+ * channels, which is all the bot needs to receive deposit events.
+ */
+export class MockPusherServer {
+  private readonly wss = new WebSocketServer({ noServer: true });
+  // Subscribed sockets by channel name
+  private readonly channels = new Map<string, Set<WebSocket>>();
+  private readonly secret = crypto.randomBytes(16).toString('hex');
+
+  constructor(private readonly appKey: string) {}
+
+  /**
+   * Whether an HTTP upgrade request is a Pusher connection
+   */
+  handles(req: http.IncomingMessage): boolean {
+    return APP_PATH.test(req.url || '');
+  }
+
+  /**
+   * Take over an HTTP upgrade request as a Pusher connection
+   */
+  handleUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer): void {
+    this.wss.handleUpgrade(req, socket, head, (ws) => this.onConnection(ws));
+  }
+
+  /**
+   * Sign a private channel subscription, as the Copperx auth endpoint does
+   * @param socketId - Socket ID given to the client on connect
+   * @param channel - Channel the client wants to join
+   * @returns The auth string the client sends when subscribing
+   */
+  authorize(socketId: string, channel: string): string {
+    return `${this.appKey}:${this.sign(socketId, channel)}`;
+  }
+
+  /**
+   * Send an event to every socket subscribed to a channel
+   * @returns The number of sockets the event was delivered to
+   */
+  trigger(channel: string, event: string, data: unknown): number {
+    const sockets = this.channels.get(channel);
+    if (!sockets) return 0;
+
+    for (const ws of sockets) {
+      send(ws, { event, channel, data: JSON.stringify(data) });
+    }
+    return sockets.size;
+  }
+
+  /**
+   * Number of sockets subscribed to a channel
+   */
+  subscriberCount(channel: string): number {
+    return this.channels.get(channel)?.size ?? 0;
+  }
+
+  /**
+   * Disconnect all clients
+   */
+  close(): void {
+    for (const ws of this.wss.clients) {
+      ws.terminate();
+    }
+    this.channels.clear();
+    this.wss.close();
+  }
+
+  private onConnection(ws: WebSocket): void {
+    const socketId = `${crypto.randomInt(1e9)}.${crypto.randomInt(1e9)}`;
+
+    send(ws, {
+      event: 'pusher:connection_established',
+      data: JSON.stringify({ socket_id: socketId, activity_timeout: ACTIVITY_TIMEOUT })
+    });
+
+    ws.on('message', (raw) => {
+      let message: PusherMessage;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+      this.onMessage(ws, socketId, message);
+    });
+
+    ws.on('close', () => {
+      for (const sockets of this.channels.values()) {
+        sockets.delete(ws);
+      }
+    });
+  }
+
+  private onMessage(ws: WebSocket, socketId: string, message: PusherMessage): void {
+    const data = (typeof message.data === 'string' ? safeParse(message.data) : message.data) as
+      { channel?: string; auth?: string } | undefined;
+
+    switch (message.event) {
+      case 'pusher:ping':
+        send(ws, { event: 'pusher:pong', data: '{}' });
+        break;
+
+      case 'pusher:subscribe': {
+        const channel = data?.channel;
+        if (!channel) return;
+
+        if (channel.startsWith('private-') && data?.auth !== this.authorize(socketId, channel)) {
+          logger.warn(`Mock Pusher rejected subscription to ${channel}: invalid auth`);
+          send(ws, { event: 'pusher:error', data: { code: 4009, message: 'Invalid signature' } });
+          return;
+        }
+
+        if (!this.channels.has(channel)) {
+          this.channels.set(channel, new Set());
+        }
+        this.channels.get(channel)!.add(ws);
+        send(ws, { event: 'pusher_internal:subscription_succeeded', channel, data: '{}' });
+        break;
+      }
+
+      case 'pusher:unsubscribe':
+        if (data?.channel) {
+          this.channels.get(data.channel)?.delete(ws);
+        }
+        break;
+    }
+  }
+
+  private sign(socketId: string, channel: string): string {
+    return crypto.createHmac('sha256', this.secret).update(`${socketId}:${channel}`).digest('hex');
+  }
+}
+
+function send(ws: WebSocket, message: PusherMessage): void {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+function safeParse(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,859 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { createSeedAccounts, MockAccount, MockTransfer, MockWallet } from './data';
+import { MockPusherServer } from './pusher';
+
+type Endpoint = keyof typeof config.api.endpoints;
+type Method = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+// Prefix of the admin routes used to drive the mock, below the base path
+const ADMIN_PREFIX = '/__mock';
+
+// Largest request body accepted
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Options for the mock Copperx API server
+ */
+export interface MockServerOptions {
+  // Path the API is served under, matching the path of API_BASE_URL
+  basePath?: string;
+  // One-time password accepted for every account
+  otp?: string;
+  // Seconds until access tokens expire
+  tokenTtl?: number;
+}
+
+/**
+ * A failure to return instead of the normal response
+ */
+export interface MockFailure {
+  // Endpoint key or path (e.g. 'sendTransfer' or '/transfers/send'); all requests when omitted
+  endpoint?: string;
+  method?: string;
+  // HTTP status to fail with; the request is only delayed when omitted
+  status?: number;
+  message?: string;
+  // Raw response body, e.g. to return a malformed payload
+  body?: unknown;
+  // Milliseconds to wait before responding
+  delayMs?: number;
+  // Number of requests to affect (default 1)
+  times?: number;
+}
+
+/**
+ * Incoming API request passed to route handlers
+ */
+interface MockRequest {
+  method: Method;
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+type RouteHandler = (req: MockRequest) => unknown | Promise<unknown>;
+
+/**
+ * Error a route handler throws to respond with a status and body
+ */
+class MockHttpError extends Error {
+  constructor(public readonly status: number, public readonly body: unknown) {
+    super(typeof body === 'object' && body && 'message' in body ? String(body.message) : `HTTP ${status}`);
+  }
+}
+
+/**
+ * Local stand-in for the Copperx API
+ *
+ * Serves every path in config.api.endpoints against in-memory seeded
+ * accounts, accepts a fixed OTP, lets tests inject failures, and runs a
+ * Pusher-compatible socket server on the same port for deposit events.
+ * A POST repeated with the same Idempotency-Key gets the first response.
+ */
+export class MockCopperxServer {
+  private readonly server: http.Server;
+  private readonly pusher = new MockPusherServer(config.pusher.key);
+  private readonly basePath: string;
+  private readonly otp: string;
+  private readonly tokenTtl: number;
+
+  private accounts: MockAccount[] = [];
+  // Email of the account each OTP session ID was issued for
+  private otpSessions = new Map<string, string>();
+  private accessTokens = new Map<string, { email: string; expiresAt: number }>();
+  private refreshTokens = new Map<string, string>();
+  private failures: MockFailure[] = [];
+  // First response by endpoint and Idempotency-Key
+  private idempotentResponses = new Map<string, { status: number; body: unknown }>();
+
+  constructor(options: MockServerOptions = {}) {
+    this.basePath = (options.basePath ?? '/api').replace(/\/$/, '');
+    this.otp = options.otp ?? config.mock.otp;
+    this.tokenTtl = options.tokenTtl ?? config.mock.tokenTtl;
+    this.reset();
+
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        logger.error('Mock API error:', error);
+        if (!res.headersSent) {
+          respond(res, 500, { message: 'Internal server error', statusCode: 500 });
+        }
+      });
+    });
+
+    this.server.on('upgrade', (req, socket, head) => {
+      if (this.pusher.handles(req)) {
+        this.pusher.handleUpgrade(req, socket, head);
+      } else {
+        socket.destroy();
+      }
+    });
+  }
+
+  /**
+   * Start listening
+   * @param port - Port to listen on; 0 picks a free port
+   * @returns The base URL to use as API_BASE_URL
+   */
+  async start(port: number = config.mock.port): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    return this.url;
+  }
+
+  /**
+   * Stop listening and disconnect Pusher clients
+   */
+  async stop(): Promise<void> {
+    this.pusher.close();
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Port the server listens on
+   */
+  get port(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  /**
+   * Base URL of the API, for API_BASE_URL
+   */
+  get url(): string {
+    return `http://localhost:${this.port}${this.basePath}`;
+  }
+
+  /**
+   * Restore the seeded accounts and drop all sessions and failures
+   */
+  reset(): void {
+    this.accounts = createSeedAccounts();
+    this.otpSessions.clear();
+    this.accessTokens.clear();
+    this.refreshTokens.clear();
+    this.failures = [];
+    this.idempotentResponses.clear();
+  }
+
+  /**
+   * Make upcoming requests fail or stall
+   * @param failure - What to match and how to fail
+   */
+  injectFailure(failure: MockFailure): void {
+    this.failures.push({ ...failure, times: failure.times ?? 1 });
+  }
+
+  /**
+   * Drop all pending injected failures
+   */
+  clearFailures(): void {
+    this.failures = [];
+  }
+
+  /**
+   * Expire access tokens so the next request gets a 401
+   * @param email - Only expire tokens of this account
+   */
+  expireTokens(email?: string): void {
+    for (const [token, session] of this.accessTokens) {
+      if (!email || session.email === email) {
+        this.accessTokens.delete(token);
+      }
+    }
+  }
+
+  /**
+   * Credit an account and push a deposit event to its organization channel
+   * @param email - Account to credit
+   * @param amount - USDC amount
+   * @param network - Network of the wallet to credit; the default wallet when omitted
+   * @returns The recorded deposit
+   */
+  deposit(email: string, amount: number, network?: string): MockTransfer {
+    const account = this.findAccount(email);
+    if (!account) {
+      throw new MockHttpError(404, { message: `No mock account for ${email}`, statusCode: 404 });
+    }
+
+    const wallet = (network && account.wallets.find((w) => w.network === network)) || defaultWallet(account);
+    wallet.balance += amount;
+
+    const transfer = this.record(account, {
+      type: 'deposit',
+      amount,
+      fee: 0,
+      network: wallet.network,
+      transactionHash: randomHash()
+    });
+
+    const delivered = this.pusher.trigger(`private-org-${account.organizationId}`, 'deposit', {
+      amount: transfer.amount,
+      currency: transfer.currency,
+      network: transfer.network,
+      transactionHash: transfer.transactionHash
+    });
+    logger.info(`Mock deposit of ${transfer.amount} USDC to ${email} delivered to ${delivered} client(s)`);
+
+    return transfer;
+  }
+
+  /**
+   * Number of Pusher clients listening for deposits of an account
+   */
+  notificationSubscribers(email: string): number {
+    const account = this.findAccount(email);
+    return account ? this.pusher.subscriberCount(`private-org-${account.organizationId}`) : 0;
+  }
+
+  /**
+   * Seeded accounts with their current balances and transfers
+   */
+  getAccounts(): MockAccount[] {
+    return this.accounts;
+  }
+
+  // Request handling
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = (req.method || 'GET').toUpperCase() as Method;
+
+    let body: unknown;
+    try {
+      body = await readJson(req);
+    } catch {
+      respond(res, 400, { message: 'Invalid JSON body', statusCode: 400 });
+      return;
+    }
+
+    // Everything, including the admin routes, is served under the base path
+    const path = url.pathname.startsWith(this.basePath) ? url.pathname.slice(this.basePath.length) : '';
+    const request: MockRequest = { method, path, query: url.searchParams, headers: req.headers, body };
+
+    if (path.startsWith(ADMIN_PREFIX)) {
+      await this.dispatch(res, () => this.handleAdmin(request));
+      return;
+    }
+
+    const endpoint = (Object.keys(config.api.endpoints) as Endpoint[])
+      .find((key) => config.api.endpoints[key] === path);
+    const handler = endpoint && this.routes[endpoint][method];
+
+    if (!endpoint || !handler) {
+      respond(res, 404, { message: `Cannot ${method} ${url.pathname}`, statusCode: 404 });
+      return;
+    }
+
+    const failure = this.takeFailure(endpoint, path, method);
+    if (failure?.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, failure.delayMs));
+    }
+    if (failure?.status) {
+      logger.info(`Mock API injecting ${failure.status} for ${method} ${path}`);
+      respond(res, failure.status, failure.body ?? { message: failure.message || 'Injected failure', statusCode: failure.status });
+      return;
+    }
+    if (failure?.body !== undefined) {
+      respond(res, 200, failure.body);
+      return;
+    }
+
+    const idempotencyKey = method === 'POST' ? req.headers['idempotency-key'] : undefined;
+    if (typeof idempotencyKey !== 'string') {
+      await this.dispatch(res, () => handler(request));
+      return;
+    }
+
+    const replayKey = `${endpoint}:${idempotencyKey}`;
+    const previous = this.idempotentResponses.get(replayKey);
+    if (previous) {
+      logger.info(`Mock API replaying the response to ${method} ${path} with Idempotency-Key ${idempotencyKey}`);
+      respond(res, previous.status, previous.body);
+      return;
+    }
+    this.idempotentResponses.set(replayKey, await this.dispatch(res, () => handler(request)));
+  }
+
+  private async dispatch(res: http.ServerResponse, handler: () => unknown): Promise<{ status: number; body: unknown }> {
+    let status = 200;
+    let body: unknown;
+    try {
+      body = await handler();
+    } catch (error) {
+      if (!(error instanceof MockHttpError)) throw error;
+      status = error.status;
+      body = error.body;
+    }
+
+    respond(res, status, body);
+    return { status, body };
+  }
+
+  /**
+   * Find and consume the first injected failure matching a request
+   */
+  private takeFailure(endpoint: Endpoint, path: string, method: Method): MockFailure | undefined {
+    const index = this.failures.findIndex((failure) =>
+      (!failure.endpoint || failure.endpoint === endpoint || failure.endpoint === path) &&
+      (!failure.method || failure.method.toUpperCase() === method)
+    );
+    if (index === -1) return undefined;
+
+    const failure = this.failures[index];
+    failure.times = (failure.times ?? 1) - 1;
+    if (failure.times <= 0) {
+      this.failures.splice(index, 1);
+    }
+    return failure;
+  }
+
+  // Copperx API routes, keyed by config.api.endpoints so none can be missed
+  private readonly routes: Record<Endpoint, Partial<Record<Method, RouteHandler>>> = {
+    emailOtpRequest: {
+      POST: ({ body }) => {
+        const email = requireEmail(body?.email);
+        if (!this.findAccount(email)) {
+          throw new MockHttpError(404, { message: 'User not found', statusCode: 404 });
+        }
+
+        const sid = crypto.randomUUID();
+        this.otpSessions.set(sid, email);
+        return { email, sid };
+      }
+    },
+
+    emailOtpAuthenticate: {
+      POST: ({ body }) => {
+        const email = requireEmail(body?.email);
+        if (body?.sid && this.otpSessions.get(body.sid) !== email) {
+          throw new MockHttpError(400, { message: 'Invalid or expired OTP session', statusCode: 400 });
+        }
+        if (String(body?.otp) !== this.otp) {
+          throw new MockHttpError(401, { message: 'Invalid OTP', statusCode: 401 });
+        }
+
+        const account = this.findAccount(email);
+        if (!account) {
+          throw new MockHttpError(404, { message: 'User not found', statusCode: 404 });
+        }
+
+        if (body?.sid) this.otpSessions.delete(body.sid);
+        return this.issueTokens(account);
+      }
+    },
+
+    refresh: {
+      POST: ({ body }) => {
+        const email = this.refreshTokens.get(body?.refreshToken);
+        const account = email && this.findAccount(email);
+        if (!account) {
+          throw new MockHttpError(401, { message: 'Invalid refresh token', statusCode: 401 });
+        }
+
+        this.refreshTokens.delete(body.refreshToken);
+        return this.issueTokens(account);
+      }
+    },
+
+    me: {
+      GET: (req) => {
+        const account = this.authenticate(req);
+        return {
+          id: account.id,
+          email: account.email,
+          firstName: account.firstName,
+          lastName: account.lastName,
+          profileImage: null,
+          organizationId: account.organizationId,
+          role: 'owner',
+          status: 'active',
+          type: 'individual',
+          walletAddress: defaultWallet(account).address,
+          walletId: defaultWallet(account).id
+        };
+      }
+    },
+
+    kycs: {
+      GET: (req) => {
+        const account = this.authenticate(req);
+        const data = account.kycStatus === 'none' ? [] : [{
+          id: `kyc-${account.id}`,
+          organizationId: account.organizationId,
+          status: account.kycStatus,
+          type: 'individual',
+          createdAt: defaultWallet(account).createdAt,
+          updatedAt: defaultWallet(account).createdAt
+        }];
+        return { page: 1, limit: 10, count: data.length, hasMore: false, data };
+      }
+    },
+
+    wallets: {
+      GET: (req) => {
+        const account = this.authenticate(req);
+        return account.wallets.map((wallet) => walletResponse(account, wallet));
+      }
+    },
+
+    balances: {
+      GET: (req) => this.authenticate(req).wallets.map((wallet) => ({
+        walletId: wallet.id,
+        isDefault: wallet.isDefault,
+        network: wallet.network,
+        balances: [{ decimals: 6, balance: wallet.balance.toFixed(2), symbol: 'USDC', address: wallet.address }]
+      }))
+    },
+
+    defaultWallet: {
+      GET: (req) => {
+        const account = this.authenticate(req);
+        return walletResponse(account, defaultWallet(account));
+      },
+      PUT: (req) => this.setDefaultWallet(req),
+      POST: (req) => this.setDefaultWallet(req)
+    },
+
+    transfers: {
+      GET: (req) => {
+        const account = this.authenticate(req);
+        const page = Math.max(parseInt(req.query.get('page') || '1', 10) || 1, 1);
+        const limit = Math.max(parseInt(req.query.get('limit') || '10', 10) || 10, 1);
+        const start = (page - 1) * limit;
+        const data = account.transfers.slice(start, start + limit);
+        return { page, limit, count: account.transfers.length, hasMore: start + limit < account.transfers.length, data };
+      }
+    },
+
+    sendTransfer: {
+      POST: (req) => {
+        const account = this.authenticate(req);
+        return this.send(account, req.body?.recipient ?? req.body?.email ?? req.body?.walletAddress, req.body?.amount, req.body?.description);
+      }
+    },
+
+    walletWithdraw: {
+      POST: (req) => {
+        const account = this.authenticate(req);
+        const amount = requireAmount(req.body?.amount);
+        const address = requireField(req.body?.address ?? req.body?.walletAddress, 'address');
+        const network = requireField(req.body?.network, 'network');
+
+        const wallet = account.wallets.find((w) => w.network === network) || defaultWallet(account);
+        debit(wallet, amount + WITHDRAWAL_FEE);
+
+        return this.record(account, {
+          type: 'withdraw',
+          amount,
+          fee: WITHDRAWAL_FEE,
+          network,
+          recipient: address,
+          transactionHash: randomHash()
+        });
+      }
+    },
+
+    accounts: {
+      GET: (req) => ({
+        data: this.authenticate(req).bankAccounts.map((bank) => ({
+          id: bank.id,
+          type: 'bank_account',
+          country: bank.country,
+          minAmount: bank.minAmount.toFixed(2),
+          arrivalTimeMessage: bank.arrivalTimeMessage,
+          bankAccount: {
+            bankName: bank.bankName,
+            bankAccountNumber: bank.accountNumber,
+            currency: bank.currency
+          }
+        }))
+      })
+    },
+
+    bankWithdraw: {
+      POST: (req) => {
+        const account = this.authenticate(req);
+        const amount = requireAmount(req.body?.amount);
+        const bankId = requireField(req.body?.bankId, 'bankId');
+
+        const bank = account.bankAccounts.find((b) => b.id === bankId);
+        if (!bank) {
+          throw new MockHttpError(404, { message: 'Bank account not found', statusCode: 404 });
+        }
+        if (amount < bank.minAmount) {
+          throw validationError('amount', { min: `amount must not be less than ${bank.minAmount}` });
+        }
+
+        debit(defaultWallet(account), amount + WITHDRAWAL_FEE);
+
+        return this.record(account, {
+          type: 'offramp',
+          amount,
+          fee: WITHDRAWAL_FEE,
+          recipient: `${bank.bankName} ${bank.accountNumber}`
+        });
+      }
+    },
+
+    batchTransfer: {
+      POST: (req) => {
+        const account = this.authenticate(req);
+        const requests = req.body?.requests;
+        if (!Array.isArray(requests) || requests.length === 0) {
+          throw validationError('requests', { isNotEmpty: 'requests should not be empty' });
+        }
+
+        // Each payment succeeds or fails on its own
+        const responses = requests.map((item: any) => {
+          const payment = item?.request ?? {};
+          try {
+            const response = this.send(account, payment.email ?? payment.walletAddress, payment.amount, payment.description);
+            return { requestId: item?.requestId, request: payment, response };
+          } catch (error) {
+            if (!(error instanceof MockHttpError)) throw error;
+            return { requestId: item?.requestId, request: payment, error: error.body };
+          }
+        });
+
+        return { responses };
+      }
+    },
+
+    transferQuote: {
+      POST: (req) => {
+        this.authenticate(req);
+        const amount = requireAmount(req.body?.amount);
+        const type = requireField(req.body?.type, 'type');
+
+        if (type === 'withdraw') {
+          requireField(req.body?.network, 'network');
+          return quoteResponse(amount, WITHDRAWAL_FEE);
+        }
+        return quoteResponse(amount, 0);
+      }
+    },
+
+    offrampQuote: {
+      POST: (req) => {
+        const account = this.authenticate(req);
+        const amount = requireAmount(req.body?.amount);
+
+        const bank = req.body?.bankId
+          ? account.bankAccounts.find((b) => b.id === req.body.bankId)
+          : account.bankAccounts[0];
+        if (!bank) {
+          throw new MockHttpError(404, { message: 'Bank account not found', statusCode: 404 });
+        }
+
+        const rate = FIAT_RATES[bank.currency] ?? 1;
+        return {
+          ...quoteResponse(amount, WITHDRAWAL_FEE),
+          fiatAmount: (amount * rate).toFixed(2),
+          fiatCurrency: bank.currency,
+          rate: rate.toFixed(4)
+        };
+      }
+    },
+
+    notificationsAuth: {
+      POST: (req) => {
+        const account = this.authenticate(req);
+        const socketId = requireField(req.body?.socket_id, 'socket_id');
+        const channel = requireField(req.body?.channel_name, 'channel_name');
+
+        if (channel !== `private-org-${account.organizationId}`) {
+          throw new MockHttpError(403, { message: 'Forbidden channel', statusCode: 403 });
+        }
+
+        return { auth: this.pusher.authorize(socketId, channel) };
+      }
+    }
+  };
+
+  /**
+   * Routes that drive the mock from tests and scripts
+   */
+  private handleAdmin(req: MockRequest): unknown {
+    const route = `${req.method} ${req.path.slice(ADMIN_PREFIX.length)}`;
+
+    switch (route) {
+      case 'POST /reset':
+        this.reset();
+        return { ok: true };
+
+      case 'GET /accounts':
+        return this.accounts;
+
+      case 'GET /failures':
+        return this.failures;
+
+      case 'POST /failures':
+        this.injectFailure(req.body ?? {});
+        return { ok: true };
+
+      case 'DELETE /failures':
+        this.clearFailures();
+        return { ok: true };
+
+      case 'POST /expire-tokens':
+        this.expireTokens(req.body?.email);
+        return { ok: true };
+
+      case 'POST /deposits':
+        return this.deposit(requireEmail(req.body?.email), requireAmount(req.body?.amount), req.body?.network);
+
+      default:
+        throw new MockHttpError(404, { message: `Unknown mock admin route ${route}`, statusCode: 404 });
+    }
+  }
+
+  // Domain helpers
+
+  private findAccount(email: string): MockAccount | undefined {
+    return this.accounts.find((account) => account.email === email.toLowerCase());
+  }
+
+  /**
+   * Resolve the account of the bearer token of a request
+   */
+  private authenticate(req: MockRequest): MockAccount {
+    const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+    const session = this.accessTokens.get(token);
+
+    if (!session || session.expiresAt <= Date.now()) {
+      this.accessTokens.delete(token);
+      throw new MockHttpError(401, { message: 'Unauthorized', statusCode: 401 });
+    }
+
+    return this.findAccount(session.email)!;
+  }
+
+  private issueTokens(account: MockAccount) {
+    const accessToken = crypto.randomBytes(24).toString('hex');
+    const refreshToken = crypto.randomBytes(24).toString('hex');
+    const expiresAt = Date.now() + this.tokenTtl * 1000;
+
+    this.accessTokens.set(accessToken, { email: account.email, expiresAt });
+    this.refreshTokens.set(refreshToken, account.email);
+
+    return {
+      scheme: 'bearer',
+      accessToken,
+      accessTokenId: crypto.randomUUID(),
+      refreshToken,
+      expireAt: new Date(expiresAt).toISOString(),
+      user: {
+        id: account.id,
+        email: account.email,
+        firstName: account.firstName,
+        lastName: account.lastName,
+        organizationId: account.organizationId
+      }
+    };
+  }
+
+  private setDefaultWallet(req: MockRequest) {
+    const account = this.authenticate(req);
+    const walletId = requireField(req.body?.walletId, 'walletId');
+    const wallet = account.wallets.find((w) => w.id === walletId);
+
+    if (!wallet) {
+      throw new MockHttpError(404, { message: 'Wallet not found', statusCode: 404 });
+    }
+
+    account.wallets.forEach((w) => { w.isDefault = w === wallet; });
+    return walletResponse(account, wallet);
+  }
+
+  /**
+   * Send from the default wallet of an account to an email or wallet address
+   */
+  private send(account: MockAccount, recipientValue: unknown, amountValue: unknown, description?: string): MockTransfer {
+    const amount = requireAmount(amountValue);
+    const recipient = requireField(recipientValue, 'recipient');
+
+    if (account.kycStatus !== 'approved') {
+      throw new MockHttpError(403, { message: 'KYC verification is required to send funds', statusCode: 403 });
+    }
+
+    debit(defaultWallet(account), amount);
+
+    const transfer = this.record(account, { type: 'send', amount, fee: 0, recipient, description });
+
+    // Credit a recipient that is another mock account
+    const payee = recipient.includes('@') ? this.findAccount(recipient) : undefined;
+    if (payee && payee !== account) {
+      defaultWallet(payee).balance += amount;
+      this.record(payee, { type: 'receive', amount, fee: 0, sender: account.email, description });
+    }
+
+    return transfer;
+  }
+
+  /**
+   * Add a successful transfer to the history of an account, newest first
+   */
+  private record(
+    account: MockAccount,
+    details: Pick<MockTransfer, 'type' | 'network' | 'transactionHash' | 'recipient' | 'sender' | 'description'>
+      & { amount: number; fee: number }
+  ): MockTransfer {
+    const { amount, fee, ...rest } = details;
+    const transfer: MockTransfer = {
+      ...rest,
+      id: crypto.randomUUID(),
+      status: 'success',
+      amount: amount.toFixed(2),
+      currency: 'USDC',
+      totalFee: fee.toFixed(2),
+      createdAt: new Date().toISOString()
+    };
+
+    account.transfers.unshift(transfer);
+    return transfer;
+  }
+}
+
+// Flat fee charged on withdrawals to wallets and banks, in USDC
+const WITHDRAWAL_FEE = 1;
+
+// Minutes until a quote expires
+const QUOTE_TTL_MINUTES = 5;
+
+// Value of one USDC in the currencies of bank accounts
+const FIAT_RATES: Record<string, number> = { USD: 1, EUR: 0.92, GBP: 0.79 };
+
+function defaultWallet(account: MockAccount): MockWallet {
+  return account.wallets.find((wallet) => wallet.isDefault) || account.wallets[0];
+}
+
+function walletResponse(account: MockAccount, wallet: MockWallet) {
+  return {
+    id: wallet.id,
+    createdAt: wallet.createdAt,
+    updatedAt: wallet.createdAt,
+    organizationId: account.organizationId,
+    walletType: wallet.walletType,
+    network: wallet.network,
+    walletAddress: wallet.address,
+    isDefault: wallet.isDefault
+  };
+}
+
+function debit(wallet: MockWallet, amount: number): void {
+  if (wallet.balance < amount) {
+    throw new MockHttpError(400, { message: 'Insufficient balance', statusCode: 400 });
+  }
+  wallet.balance -= amount;
+}
+
+function quoteResponse(amount: number, fee: number) {
+  return {
+    id: crypto.randomUUID(),
+    amount: amount.toFixed(2),
+    currency: 'USDC',
+    fee: fee.toFixed(2),
+    total: (amount + fee).toFixed(2),
+    receiveAmount: amount.toFixed(2),
+    expiresAt: new Date(Date.now() + QUOTE_TTL_MINUTES * 60 * 1000).toISOString()
+  };
+}
+
+function randomHash(): string {
+  return `0x${crypto.randomBytes(32).toString('hex')}`;
+}
+
+/**
+ * Validation error in the class-validator shape the real API uses
+ */
+function validationError(property: string, constraints: Record<string, string>): MockHttpError {
+  return new MockHttpError(422, {
+    message: [{ property, constraints, children: [] }],
+    error: 'Unprocessable Entity',
+    statusCode: 422
+  });
+}
+
+function requireField(value: unknown, property: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw validationError(property, { isNotEmpty: `${property} should not be empty` });
+  }
+  return value.trim();
+}
+
+function requireEmail(value: unknown): string {
+  const email = requireField(value, 'email').toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw validationError('email', { isEmail: 'email must be an email' });
+  }
+  return email;
+}
+
+function requireAmount(value: unknown): number {
+  const amount = typeof value === 'number' ? value : parseFloat(String(value));
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw validationError('amount', { isPositive: 'amount must be a positive number' });
+  }
+  return amount;
+}
+
+function respond(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body ?? {}));
+}
+
+function readJson(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      try {
+        resolve(text ? JSON.parse(text) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import { getStore } from '../store';
+import { Contact, PayoutDestination } from '../types';
+
+// Key prefix for address books
+const CONTACTS_PREFIX = 'contacts:';
+
+// Most contacts per user, which keeps the picker keyboards usable
+export const MAX_CONTACTS = 50;
+
+// Destinations remembered as "do not offer to save", oldest dropped first
+const MAX_DECLINED = 100;
+
+/**
+ * A contact before it is saved
+ */
+export type NewContact = PayoutDestination & { label: string };
+
+/**
+ * A user's address book as persisted in the store
+ */
+interface AddressBook {
+  contacts: Contact[];
+  // Destinations the user chose not to save after a transfer
+  declined: string[];
+}
+
+/**
+ * Identity of a destination: the email, or the address on its network
+ */
+function destinationKey(destination: PayoutDestination): string {
+  return destination.kind === 'email'
+    ? `email:${destination.email.toLowerCase()}`
+    : `wallet:${destination.network}:${destination.address}`;
+}
+
+async function loadBook(chatId: number): Promise<AddressBook> {
+  const data = await getStore().get(`${CONTACTS_PREFIX}${chatId}`);
+  return data ? JSON.parse(data) as AddressBook : { contacts: [], declined: [] };
+}
+
+async function saveBook(chatId: number, book: AddressBook): Promise<void> {
+  await getStore().set(`${CONTACTS_PREFIX}${chatId}`, JSON.stringify(book));
+}
+
+/**
+ * Get the saved contacts of a user in the order they were added
+ * @param chatId The Telegram chat ID
+ * @returns Promise<Contact[]>
+ */
+export async function getContacts(chatId: number): Promise<Contact[]> {
+  return (await loadBook(chatId)).contacts;
+}
+
+/**
+ * Find the saved contact for a destination
+ * @param chatId The Telegram chat ID
+ * @param destination Email recipient or address with its network
+ * @returns The contact, or undefined if the destination is not saved
+ */
+export async function findContact(chatId: number, destination: PayoutDestination): Promise<Contact | undefined> {
+  const key = destinationKey(destination);
+  return (await getContacts(chatId)).find((contact) => destinationKey(contact) === key);
+}
+
+/**
+ * Save a contact
+ * @param chatId The Telegram chat ID
+ * @param contact Label and destination
+ * @returns Promise<Contact> The saved contact with its ID
+ * @throws If the address book is full
+ */
+export async function addContact(chatId: number, contact: NewContact): Promise<Contact> {
+  const book = await loadBook(chatId);
+  if (book.contacts.length >= MAX_CONTACTS) {
+    throw new Error(`You can save up to ${MAX_CONTACTS} contacts`);
+  }
+
+  // IDs end up in callback data, so they are kept short
+  const saved = { ...contact, id: crypto.randomBytes(4).toString('hex') } as Contact;
+  const key = destinationKey(contact);
+
+  book.contacts.push(saved);
+  book.declined = book.declined.filter((declined) => declined !== key);
+  await saveBook(chatId, book);
+
+  return saved;
+}
+
+/**
+ * Change the label of a contact
+ * @param chatId The Telegram chat ID
+ * @param id Contact ID
+ * @param label New label
+ * @returns The updated contact, or undefined if it no longer exists
+ */
+export async function renameContact(chatId: number, id: string, label: string): Promise<Contact | undefined> {
+  const book = await loadBook(chatId);
+  const contact = book.contacts.find((entry) => entry.id === id);
+  if (!contact) return undefined;
+
+  contact.label = label;
+  await saveBook(chatId, book);
+  return contact;
+}
+
+/**
+ * Delete a contact
+ * @param chatId The Telegram chat ID
+ * @param id Contact ID
+ * @returns The removed contact, or undefined if it no longer exists
+ */
+export async function removeContact(chatId: number, id: string): Promise<Contact | undefined> {
+  const book = await loadBook(chatId);
+  const contact = book.contacts.find((entry) => entry.id === id);
+  if (!contact) return undefined;
+
+  book.contacts = book.contacts.filter((entry) => entry !== contact);
+  await saveBook(chatId, book);
+  return contact;
+}
+
+/**
+ * Whether to offer saving a destination after a transfer: it is not saved,
+ * was not declined before and there is room for it
+ * @param chatId The Telegram chat ID
+ * @param destination Email recipient or address with its network
+ */
+export async function shouldOfferContact(chatId: number, destination: PayoutDestination): Promise<boolean> {
+  const book = await loadBook(chatId);
+  const key = destinationKey(destination);
+
+  return book.contacts.length < MAX_CONTACTS &&
+    !book.declined.includes(key) &&
+    !book.contacts.some((contact) => destinationKey(contact) === key);
+}
+
+/**
+ * Remember that the user does not want to save a destination
+ * @param chatId The Telegram chat ID
+ * @param destination Email recipient or address with its network
+ */
+export async function declineContact(chatId: number, destination: PayoutDestination): Promise<void> {
+  const book = await loadBook(chatId);
+  const key = destinationKey(destination);
+
+  book.declined = [...book.declined.filter((declined) => declined !== key), key].slice(-MAX_DECLINED);
+  await saveBook(chatId, book);
+}
@@ -0,0 +1,435 @@
+import axios, { AxiosInstance, AxiosRequestConfig, isAxiosError } from 'axios';
+import { ZodType, ZodTypeDef } from 'zod';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { getUserSession } from '../utils/session';
+import {
+  AuthToken,
+  BankAccount,
+  Kyc,
+  PusherAuth,
+  QuoteResponse,
+  Transfer,
+  TransferHistory,
+  UserProfile,
+  Wallet,
+  WalletBalance
+} from '../types';
+import {
+  AuthResponseSchema,
+  BankAccountListSchema,
+  BatchTransferResponseSchema,
+  KycListSchema,
+  OtpRequestSchema,
+  PusherAuthSchema,
+  TransferHistorySchema,
+  TransferQuoteSchema,
+  TransferSchema,
+  UserProfileSchema,
+  WalletBalanceListSchema,
+  WalletListSchema,
+  WalletSchema
+} from '../types/schemas';
+
+type Endpoint = keyof typeof config.api.endpoints;
+
+/**
+ * Normalized error for every failed Copperx API call
+ */
+export class CopperxApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly code?: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'CopperxApiError';
+  }
+}
+
+/**
+ * Raised when a Copperx response does not match the expected schema
+ */
+export class ResponseValidationError extends CopperxApiError {
+  constructor(endpoint: string, public readonly issues: string[]) {
+    super(`Unexpected response from Copperx (${endpoint}): ${issues.join('; ')}`, undefined, 'INVALID_RESPONSE', issues);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+/**
+ * Schema that parses a raw response body into a domain type
+ */
+type ResponseSchema<T> = ZodType<T, ZodTypeDef, unknown>;
+
+/**
+ * Exchanges the stored refresh token of a chat for a new session
+ */
+export type TokenRefresher = (chatId: number) => Promise<AuthToken>;
+
+/**
+ * Options for a single API request
+ */
+interface RequestOptions {
+  // Chat whose session token authorizes the request
+  chatId?: number;
+  data?: unknown;
+  params?: Record<string, unknown>;
+  headers?: Record<string, string>;
+}
+
+// Header the API recognizes a repeated money movement by, so it is not carried out twice
+const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// Fallback messages by HTTP status when the API gives none
+const STATUS_MESSAGES: Record<number, string> = {
+  400: 'Bad request - Please check your input',
+  401: 'Unauthorized - Invalid credentials',
+  403: 'Forbidden - You don\'t have permission to access this resource',
+  404: 'Not found - The requested resource was not found',
+  422: 'Validation failed',
+  429: 'Too many requests - Please slow down',
+  500: 'Server error - The Copperx service is experiencing issues',
+  502: 'Bad gateway - The Copperx service is currently unavailable',
+  503: 'Service unavailable - The Copperx service is temporarily down',
+  504: 'Gateway timeout - The Copperx service timed out'
+};
+
+/**
+ * Typed client for the Copperx API shared by all services
+ */
+export class CopperxClient {
+  private readonly http: AxiosInstance;
+  private tokenRefresher: TokenRefresher | null = null;
+  // Refreshes in flight by chat ID, so concurrent 401s share one refresh
+  private readonly refreshes = new Map<number, Promise<AuthToken>>();
+
+  constructor(baseURL: string = config.api.baseUrl, timeout: number = config.api.timeout) {
+    this.http = axios.create({
+      baseURL,
+      timeout,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  /**
+   * Set the function used to renew a session after a 401 response
+   * @param refresher - Refreshes and stores the session of a chat
+   */
+  setTokenRefresher(refresher: TokenRefresher): void {
+    this.tokenRefresher = refresher;
+  }
+
+  // Auth
+
+  requestEmailOtp(email: string): Promise<{ sid?: string }> {
+    return this.request('post', 'emailOtpRequest', OtpRequestSchema, { data: { email } });
+  }
+
+  authenticateEmailOtp(email: string, otp: string, sid?: string): Promise<AuthToken> {
+    return this.request('post', 'emailOtpAuthenticate', AuthResponseSchema, { data: { email, otp, sid } });
+  }
+
+  refreshToken(refreshToken: string): Promise<AuthToken> {
+    return this.request('post', 'refresh', AuthResponseSchema, { data: { refreshToken } });
+  }
+
+  getProfile(chatId: number): Promise<UserProfile> {
+    return this.request('get', 'me', UserProfileSchema, { chatId });
+  }
+
+  // KYC
+
+  getKycs(chatId: number): Promise<Kyc[]> {
+    return this.request('get', 'kycs', KycListSchema, { chatId });
+  }
+
+  // Wallets and balances
+
+  getWallets(chatId: number): Promise<Wallet[]> {
+    return this.request('get', 'wallets', WalletListSchema, { chatId });
+  }
+
+  getBalances(chatId: number): Promise<WalletBalance[]> {
+    return this.request('get', 'balances', WalletBalanceListSchema, { chatId });
+  }
+
+  getDefaultWallet(chatId: number): Promise<Wallet> {
+    return this.request('get', 'defaultWallet', WalletSchema, { chatId });
+  }
+
+  setDefaultWallet(chatId: number, walletId: string): Promise<Wallet> {
+    return this.request('put', 'defaultWallet', WalletSchema, { chatId, data: { walletId } });
+  }
+
+  // Transfers
+
+  getTransfers(chatId: number, page: number, limit: number): Promise<TransferHistory> {
+    return this.request('get', 'transfers', TransferHistorySchema, { chatId, params: { page, limit } });
+  }
+
+  sendTransfer(
+    chatId: number,
+    body: { recipient: string; amount: string; description?: string },
+    idempotencyKey?: string
+  ): Promise<Transfer> {
+    return this.request('post', 'sendTransfer', TransferSchema, { chatId, data: body, headers: idempotencyHeaders(idempotencyKey) });
+  }
+
+  walletWithdraw(
+    chatId: number,
+    body: { address: string; amount: string; network: string },
+    idempotencyKey?: string
+  ): Promise<Transfer> {
+    return this.request('post', 'walletWithdraw', TransferSchema, { chatId, data: body, headers: idempotencyHeaders(idempotencyKey) });
+  }
+
+  offramp(chatId: number, body: { amount: string; bankId: string }, idempotencyKey?: string): Promise<Transfer> {
+    return this.request('post', 'bankWithdraw', TransferSchema, { chatId, data: body, headers: idempotencyHeaders(idempotencyKey) });
+  }
+
+  /**
+   * Send several payments in one request; each one succeeds or fails on its own
+   * @param idempotencyKey - Key the API recognizes a repeated batch by
+   * @returns Per payment, the transfer or a readable error
+   */
+  async sendBatch(
+    chatId: number,
+    payments: { requestId: string; email: string; amount: string; description?: string }[],
+    idempotencyKey?: string
+  ): Promise<{ requestId: string; transfer?: Transfer; error?: string }[]> {
+    const responses = await this.request('post', 'batchTransfer', BatchTransferResponseSchema, {
+      chatId,
+      data: { requests: payments.map(({ requestId, ...request }) => ({ requestId, request })) },
+      headers: idempotencyHeaders(idempotencyKey)
+    });
+
+    return responses.map((entry) => entry.response
+      ? { requestId: entry.requestId, transfer: entry.response }
+      : { requestId: entry.requestId, error: extractMessage(entry.error) || 'Payment failed' }
+    );
+  }
+
+  // Payout accounts
+
+  getBankAccounts(chatId: number): Promise<BankAccount[]> {
+    return this.request('get', 'accounts', BankAccountListSchema, { chatId });
+  }
+
+  // Quotes
+
+  quoteTransfer(
+    chatId: number,
+    body: { type: 'send' | 'withdraw'; amount: string; network?: string }
+  ): Promise<QuoteResponse> {
+    return this.request('post', 'transferQuote', TransferQuoteSchema, { chatId, data: body });
+  }
+
+  quoteOfframp(chatId: number, body: { amount: string; bankId?: string }): Promise<QuoteResponse> {
+    return this.request('post', 'offrampQuote', TransferQuoteSchema, { chatId, data: body });
+  }
+
+  // Notifications
+
+  authorizeNotifications(chatId: number, socketId: string, channelName: string): Promise<PusherAuth> {
+    return this.request('post', 'notificationsAuth', PusherAuthSchema, {
+      chatId,
+      data: { socket_id: socketId, channel_name: channelName }
+    });
+  }
+
+  /**
+   * Perform a request against a configured endpoint
+   * @param method - HTTP method
+   * @param endpoint - Key of config.api.endpoints
+   * @param schema - Schema the response body is parsed with
+   * @param options - Chat to authorize as, body, query and headers
+   */
+  private async request<T>(
+    method: 'get' | 'post' | 'put' | 'delete',
+    endpoint: Endpoint,
+    schema: ResponseSchema<T>,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const requestConfig: AxiosRequestConfig = {
+      method,
+      url: config.api.endpoints[endpoint],
+      data: options.data,
+      params: options.params,
+      headers: { ...options.headers }
+    };
+
+    if (options.chatId !== undefined) {
+      const session = await getUserSession(options.chatId);
+      if (!session) {
+        throw new CopperxApiError('User not authenticated', 401, 'NOT_AUTHENTICATED');
+      }
+      requestConfig.headers!.Authorization = `Bearer ${session.token}`;
+    }
+
+    let body: unknown;
+    try {
+      body = (await this.http.request(requestConfig)).data;
+    } catch (error: unknown) {
+      const apiError = normalizeError(error);
+
+      // Renew an expired token once and replay the request with it
+      if (apiError.status === 401 && options.chatId !== undefined && this.tokenRefresher) {
+        const rejectedToken = String(requestConfig.headers!.Authorization).replace('Bearer ', '');
+        const session = await this.refreshSession(options.chatId, rejectedToken);
+        requestConfig.headers!.Authorization = `Bearer ${session.token}`;
+
+        try {
+          body = (await this.http.request(requestConfig)).data;
+        } catch (retryError: unknown) {
+          throw this.logFailure(method, requestConfig.url, normalizeError(retryError));
+        }
+      } else {
+        throw this.logFailure(method, requestConfig.url, apiError);
+      }
+    }
+
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`);
+      throw this.logFailure(method, requestConfig.url, new ResponseValidationError(endpoint, issues));
+    }
+
+    return parsed.data;
+  }
+
+  /**
+   * Refresh the session of a chat, joining a refresh already in flight
+   * @param chatId - Telegram chat ID
+   * @param rejectedToken - Access token the API just rejected
+   */
+  private async refreshSession(chatId: number, rejectedToken: string): Promise<AuthToken> {
+    // Another request may have refreshed the session since this one was sent
+    const current = await getUserSession(chatId);
+    if (current && current.token !== rejectedToken) {
+      return current;
+    }
+
+    let refresh = this.refreshes.get(chatId);
+
+    if (!refresh) {
+      logger.info(`Refreshing expired session for chat ${chatId}`);
+      refresh = this.tokenRefresher!(chatId).finally(() => this.refreshes.delete(chatId));
+      this.refreshes.set(chatId, refresh);
+    }
+
+    try {
+      return await refresh;
+    } catch (error) {
+      throw new CopperxApiError(
+        'Your session has expired. Please log in again with /login.',
+        401,
+        'SESSION_EXPIRED',
+        error
+      );
+    }
+  }
+
+  /**
+   * Log a failed request and return its error for rethrowing
+   */
+  private logFailure(method: string, url: string | undefined, error: CopperxApiError): CopperxApiError {
+    logger.error(`Copperx API ${method.toUpperCase()} ${url} failed:`, {
+      status: error.status,
+      message: error.message
+    });
+    return error;
+  }
+}
+
+/**
+ * Convert any axios or network failure into a CopperxApiError
+ * @param error - The thrown value
+ */
+export function normalizeError(error: unknown): CopperxApiError {
+  if (error instanceof CopperxApiError) {
+    return error;
+  }
+
+  if (isAxiosError(error)) {
+    if (!error.response) {
+      return new CopperxApiError(
+        error.code === 'ECONNABORTED' ? 'The Copperx service timed out' : 'Could not reach the Copperx service',
+        undefined,
+        error.code
+      );
+    }
+
+    const { status, data } = error.response;
+    const message = extractMessage(data) || STATUS_MESSAGES[status] || 'Request failed';
+    return new CopperxApiError(message, status, typeof data?.code === 'string' ? data.code : undefined, data);
+  }
+
+  return new CopperxApiError(error instanceof Error ? error.message : 'Unknown error');
+}
+
+/**
+ * Headers of a money movement carrying its idempotency key, if it has one
+ */
+function idempotencyHeaders(idempotencyKey?: string): Record<string, string> | undefined {
+  return idempotencyKey ? { [IDEMPOTENCY_HEADER]: idempotencyKey } : undefined;
+}
+
+/**
+ * Pull a readable message out of a Copperx error body
+ */
+function extractMessage(data: any): string | undefined {
+  if (!data) return undefined;
+  if (typeof data === 'string') return data;
+
+  let message: string | undefined;
+
+  if (typeof data.message === 'string') {
+    message = data.message;
+  } else if (Array.isArray(data.message)) {
+    // class-validator style errors with property and constraints
+    message = data.message.map(formatValidationError).filter(Boolean).join('; ');
+  } else if (data.message && typeof data.message === 'object') {
+    message = JSON.stringify(data.message);
+  } else if (typeof data.error === 'string') {
+    message = data.error;
+  }
+
+  // Field errors may be listed separately
+  if (data.errors && typeof data.errors === 'object') {
+    const details = Object.entries(data.errors)
+      .map(([field, msgs]) => `${field}: ${Array.isArray(msgs) ? msgs.join(', ') : msgs}`)
+      .join('; ');
+    if (details) {
+      message = message ? `${message}: ${details}` : details;
+    }
+  }
+
+  return message || undefined;
+}
+
+/**
+ * Format a single validation error entry
+ */
+function formatValidationError(entry: any, parent?: string): string {
+  if (typeof entry !== 'object' || entry === null) {
+    return String(entry);
+  }
+
+  const property = parent ? `${parent}.${entry.property}` : entry.property;
+
+  if (entry.property && entry.constraints) {
+    return `${property}: ${Object.values(entry.constraints).join(', ')}`;
+  }
+
+  if (entry.property && Array.isArray(entry.children)) {
+    const nested = entry.children.map((child: any) => formatValidationError(child, property)).filter(Boolean).join('; ');
+    return nested || `Invalid ${property}`;
+  }
+
+  return JSON.stringify(entry);
+}
+
+// Shared client instance
+export const copperx = new CopperxClient();
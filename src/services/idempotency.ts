@@ -0,0 +1,63 @@
+import crypto from 'crypto';
+import { config } from '../config';
+import { getStore } from '../store';
+import { logger } from '../utils/logger';
+import { ApiResponse } from '../types';
+
+// Key prefix for submitted transfers, followed by the chat ID and idempotency key
+const IDEMPOTENCY_PREFIX = 'idempotency:';
+
+/**
+ * A submission as persisted in the store: claimed while it runs, then its result
+ */
+interface Submission<R> {
+  status: 'pending' | 'done';
+  result?: R;
+}
+
+function submissionKey(chatId: number, idempotencyKey: string): string {
+  return `${IDEMPOTENCY_PREFIX}${chatId}:${idempotencyKey}`;
+}
+
+/**
+ * Create an idempotency key for a transfer about to be confirmed
+ */
+export function newIdempotencyKey(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Run a submission at most once per idempotency key
+ *
+ * The first call claims the key and stores its result for config.idempotency.ttl
+ * seconds. Later calls with the same key return that result, marked as replayed,
+ * and calls made while the first one is still running are refused, marked as pending.
+ * @param chatId - Telegram chat ID of the sender
+ * @param idempotencyKey - Key of the confirmed transfer
+ * @param submit - Sends the transfer to the API
+ * @returns The result of the first call
+ */
+export async function submitOnce<T>(
+  chatId: number,
+  idempotencyKey: string,
+  submit: () => Promise<ApiResponse<T>>
+): Promise<ApiResponse<T>> {
+  const key = submissionKey(chatId, idempotencyKey);
+  const pending: Submission<ApiResponse<T>> = { status: 'pending' };
+
+  if (!(await getStore().setIfAbsent(key, JSON.stringify(pending), config.idempotency.ttl))) {
+    const stored = await getStore().get(key);
+    const submission = stored ? JSON.parse(stored) as Submission<ApiResponse<T>> : null;
+
+    if (submission?.status === 'done' && submission.result) {
+      logger.info(`Returning the original result of submission ${idempotencyKey} for chat ${chatId}`);
+      return { ...submission.result, replayed: true };
+    }
+    return { success: false, pending: true, error: 'This transfer is already being processed' };
+  }
+
+  const result = await submit();
+  const done: Submission<ApiResponse<T>> = { status: 'done', result };
+  await getStore().set(key, JSON.stringify(done), config.idempotency.ttl);
+  return result;
+}
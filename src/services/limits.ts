@@ -0,0 +1,213 @@
+import { config } from '../config';
+import { getStore } from '../store';
+import { PendingLimitRaise, SpendingAllowance, SpendingLimits } from '../types';
+import { formatTransferAmount } from '../utils/formatter';
+
+// Key prefix for limits users have changed
+const LIMITS_PREFIX = 'limits:';
+
+// Key prefix for spending totals, followed by the chat ID and the UTC day or month
+const SPENDING_PREFIX = 'spending:';
+
+// Totals are kept a little longer than the period they cover
+const DAY_TOTAL_TTL = 2 * 24 * 60 * 60;
+const MONTH_TOTAL_TTL = 32 * 24 * 60 * 60;
+
+/**
+ * Limits a user has changed, as persisted in the store
+ */
+interface LimitSettings {
+  limits: Partial<SpendingLimits>;
+  pending: Partial<Record<keyof SpendingLimits, PendingLimitRaise>>;
+}
+
+/**
+ * Outcome of reserving an amount against a user's limits
+ */
+export type SpendingReservation =
+  | { reserved: true; release: (amount?: number) => Promise<void> }
+  | { reserved: false; error: string };
+
+/**
+ * Outcome of changing a limit
+ */
+export type LimitChange =
+  | { applied: true }
+  | { applied: false; effectiveAt: number };
+
+function dayKey(chatId: number, now: number): string {
+  return `${SPENDING_PREFIX}${chatId}:${new Date(now).toISOString().slice(0, 10)}`;
+}
+
+function monthKey(chatId: number, now: number): string {
+  return `${SPENDING_PREFIX}${chatId}:${new Date(now).toISOString().slice(0, 7)}`;
+}
+
+async function readTotal(key: string): Promise<number> {
+  const value = await getStore().get(key);
+  return value ? parseFloat(value) : 0;
+}
+
+/**
+ * Load a user's settings, applying raises whose cooling-off delay is over
+ */
+async function loadSettings(chatId: number, now: number): Promise<LimitSettings> {
+  const data = await getStore().get(`${LIMITS_PREFIX}${chatId}`);
+  const settings: LimitSettings = data ? JSON.parse(data) : { limits: {}, pending: {} };
+
+  let changed = false;
+  for (const [limit, raise] of Object.entries(settings.pending) as [keyof SpendingLimits, PendingLimitRaise][]) {
+    if (raise.effectiveAt <= now) {
+      settings.limits[limit] = raise.value;
+      delete settings.pending[limit];
+      changed = true;
+    }
+  }
+
+  if (changed) await saveSettings(chatId, settings);
+  return settings;
+}
+
+async function saveSettings(chatId: number, settings: LimitSettings): Promise<void> {
+  await getStore().set(`${LIMITS_PREFIX}${chatId}`, JSON.stringify(settings));
+}
+
+/**
+ * Get a user's limits and how much of them is left
+ * @param chatId The Telegram chat ID
+ * @param now Current time in milliseconds; days and months are UTC
+ * @returns Promise<SpendingAllowance>
+ */
+export async function getAllowance(chatId: number, now: number = Date.now()): Promise<SpendingAllowance> {
+  const settings = await loadSettings(chatId, now);
+  const limits: SpendingLimits = {
+    perTransaction: settings.limits.perTransaction ?? config.limits.perTransaction,
+    daily: settings.limits.daily ?? config.limits.daily,
+    monthly: settings.limits.monthly ?? config.limits.monthly
+  };
+  const spentToday = await readTotal(dayKey(chatId, now));
+  const spentThisMonth = await readTotal(monthKey(chatId, now));
+
+  return {
+    limits,
+    pending: settings.pending,
+    spentToday,
+    spentThisMonth,
+    remainingToday: Math.max(limits.daily - spentToday, 0),
+    remainingThisMonth: Math.max(limits.monthly - spentThisMonth, 0)
+  };
+}
+
+/**
+ * Why an amount cannot be spent under an allowance
+ * @param allowance The user's allowance
+ * @param amount Amount in USDC, the total for a batch
+ * @returns A message naming the limit, or null if the amount is within all limits
+ */
+export function spendingLimitError(allowance: SpendingAllowance, amount: number): string | null {
+  if (amount > allowance.limits.perTransaction) {
+    return `${formatTransferAmount(amount)} is over your limit of ${formatTransferAmount(allowance.limits.perTransaction)} per transaction. See /limits.`;
+  }
+  if (amount > allowance.remainingToday) {
+    return `${formatTransferAmount(amount)} is over what is left of your daily limit (${formatTransferAmount(allowance.remainingToday)}). See /limits.`;
+  }
+  if (amount > allowance.remainingThisMonth) {
+    return `${formatTransferAmount(amount)} is over what is left of your monthly limit (${formatTransferAmount(allowance.remainingThisMonth)}). See /limits.`;
+  }
+  return null;
+}
+
+/**
+ * Check an amount against a user's limits without reserving it
+ * @param chatId The Telegram chat ID
+ * @param amount Amount in USDC
+ * @returns A message naming the limit, or null if the amount may be spent
+ */
+export async function checkSpendingLimit(chatId: number, amount: number): Promise<string | null> {
+  return spendingLimitError(await getAllowance(chatId), amount);
+}
+
+/**
+ * Count an amount against today's and this month's totals before it is spent
+ *
+ * The totals are raised atomically and then checked, so transfers submitted
+ * at the same time cannot together go over a limit. An amount over a limit
+ * is given back at once; the caller gives back the rest with release() if
+ * the transfer fails.
+ * @param chatId The Telegram chat ID
+ * @param amount Amount in USDC, the total for a batch
+ * @param now Current time in milliseconds
+ */
+export async function reserveSpending(chatId: number, amount: number, now: number = Date.now()): Promise<SpendingReservation> {
+  const allowance = await getAllowance(chatId, now);
+  const store = getStore();
+  const day = dayKey(chatId, now);
+  const month = monthKey(chatId, now);
+
+  const spentToday = await store.incrBy(day, amount, DAY_TOTAL_TTL);
+  const spentThisMonth = await store.incrBy(month, amount, MONTH_TOTAL_TTL);
+  const release = async (released: number = amount) => {
+    await store.incrBy(day, -released, DAY_TOTAL_TTL);
+    await store.incrBy(month, -released, MONTH_TOTAL_TTL);
+  };
+
+  // What was left before this reservation, including others made in the meantime
+  const error = spendingLimitError({
+    ...allowance,
+    remainingToday: Math.max(allowance.limits.daily - (spentToday - amount), 0),
+    remainingThisMonth: Math.max(allowance.limits.monthly - (spentThisMonth - amount), 0)
+  }, amount);
+  if (error) {
+    await release();
+    return { reserved: false, error };
+  }
+
+  return { reserved: true, release };
+}
+
+/**
+ * Change one of a user's limits
+ *
+ * A lower limit applies at once and drops any raise of it that is waiting.
+ * A higher one applies after config.limits.raiseDelayHours, so a raise made
+ * from a compromised account can be noticed and cancelled.
+ * @param chatId The Telegram chat ID
+ * @param limit Which limit to change
+ * @param value New limit in USDC
+ * @param now Current time in milliseconds
+ */
+export async function changeSpendingLimit(
+  chatId: number,
+  limit: keyof SpendingLimits,
+  value: number,
+  now: number = Date.now()
+): Promise<LimitChange> {
+  const current = (await getAllowance(chatId, now)).limits[limit];
+  const settings = await loadSettings(chatId, now);
+
+  if (value <= current) {
+    settings.limits[limit] = value;
+    delete settings.pending[limit];
+    await saveSettings(chatId, settings);
+    return { applied: true };
+  }
+
+  const effectiveAt = now + config.limits.raiseDelayHours * 60 * 60 * 1000;
+  settings.pending[limit] = { value, effectiveAt };
+  await saveSettings(chatId, settings);
+  return { applied: false, effectiveAt };
+}
+
+/**
+ * Drop all raises that have not applied yet
+ * @param chatId The Telegram chat ID
+ * @returns true if there was a raise to cancel
+ */
+export async function cancelLimitRaises(chatId: number): Promise<boolean> {
+  const settings = await loadSettings(chatId, Date.now());
+  if (Object.keys(settings.pending).length === 0) return false;
+
+  settings.pending = {};
+  await saveSettings(chatId, settings);
+  return true;
+}
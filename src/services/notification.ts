@@ -1,8 +1,9 @@
-import axios from 'axios';
 import Pusher from 'pusher-js';
 import TelegramBot from 'node-telegram-bot-api';
-import { COPPERX_API_URL, config } from '../config';
+import { config } from '../config';
 import { getUserSession } from './auth';
+import { copperx } from './copperx';
+import { DepositNotification } from '../types';
 import { logger } from '../utils/logger';
 
 // Store Pusher instances by chat ID
@@ -33,28 +34,21 @@ export async function initializePusher(chatId: number, bot: TelegramBot): Promis
     // Initialize Pusher client with authentication
     const pusherClient = new Pusher(config.pusher.key, {
       cluster: config.pusher.cluster,
+      // Connect to a self-hosted server such as the mock API instead of the cluster
+      ...(config.pusher.wsHost ? {
+        wsHost: config.pusher.wsHost,
+        wsPort: config.pusher.wsPort,
+        forceTLS: false,
+        enabledTransports: ['ws' as const]
+      } : {}),
       authorizer: (channel) => ({
         authorize: async (socketId, callback) => {
           try {
-            // Get a fresh session token every time to ensure we have the most up-to-date token
-            const freshSession = await getUserSession(chatId);
-            
-            if (!freshSession || !freshSession.token) {
-              callback(new Error('User not authenticated'), null);
-              return;
-            }
-            
-            const response = await axios.post(`${COPPERX_API_URL}${config.api.endpoints.notificationsAuth}`, {
-              socket_id: socketId,
-              channel_name: channel.name
-            }, {
-              headers: {
-                Authorization: `Bearer ${freshSession.token}`
-              }
-            });
+            // The client reads the current session token on every call
+            const auth = await copperx.authorizeNotifications(chatId, socketId, channel.name);
 
-            if (response.data) {
-              callback(null, response.data);
+            if (auth) {
+              callback(null, auth);
             } else {
               callback(new Error('Pusher authentication failed'), null);
             }
@@ -88,7 +82,7 @@ export async function initializePusher(chatId: number, bot: TelegramBot): Promis
     });
     
     // Bind to the deposit event
-    channel.bind('deposit', (data: { amount?: string; currency?: string; network?: string }) => {
+    channel.bind('deposit', (data: DepositNotification) => {
       try {
         const amount = data.amount || 'Unknown amount';
         const currency = data.currency || 'USDC';
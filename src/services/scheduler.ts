@@ -0,0 +1,218 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { formatPayoutDestination, formatUtcTime, formatTransferAmount } from '../utils/formatter';
+import { ScheduledPayout, ScheduleRun } from '../types';
+import { getStore } from '../store';
+import { getUserSessionTtl } from '../utils/session';
+import { isAuthenticated, refreshToken } from './auth';
+import { sendFunds, withdrawToWallet } from './transfer';
+import { getDefaultBalance } from './wallet';
+import { checkSpendingLimit } from './limits';
+import { deleteSchedule, getAllSchedules, getSchedule, nextScheduledRun, saveSchedule } from './schedules';
+
+const MINUTE = 60 * 1000;
+
+// Key prefix for claimed runs, followed by the schedule ID and the time the run was due
+const RUN_CLAIM_PREFIX = 'schedule-run:';
+
+// Seconds a claim is kept; by then every process has seen the schedule move on to its next run
+const RUN_CLAIM_TTL = 24 * 60 * 60;
+
+// Seconds left on a session with schedules when it is renewed; passes run far more often
+const SESSION_RENEW_BEFORE = 60 * 60;
+
+let timer: NodeJS.Timeout | null = null;
+
+// Set while a pass is in progress, so a slow pass is not overlapped by the next tick
+let running = false;
+
+/**
+ * Start checking for due scheduled payouts every config.scheduler.interval seconds
+ * @param bot - The Telegram bot instance used for reminders and results
+ */
+export function startScheduler(bot: TelegramBot): void {
+  if (timer) return;
+
+  timer = setInterval(() => {
+    runDueSchedules(bot).catch((error) => logger.error('Error running scheduled payouts:', error));
+  }, config.scheduler.interval * 1000);
+
+  logger.info('Scheduler started');
+}
+
+/**
+ * Stop the scheduler loop; a pass in progress is allowed to finish
+ */
+export function stopScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+/**
+ * Run the payouts that are due and remind users of upcoming ones
+ * @param bot - The Telegram bot instance
+ * @param now - Current time in milliseconds
+ */
+export async function runDueSchedules(bot: TelegramBot, now: number = Date.now()): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    const renewed = new Set<number>();
+
+    for (const schedule of await getAllSchedules()) {
+      if (schedule.paused || schedule.nextRunAt === null) continue;
+
+      try {
+        if (!renewed.has(schedule.chatId)) {
+          renewed.add(schedule.chatId);
+          await renewSession(schedule.chatId);
+        }
+
+        if (schedule.nextRunAt <= now) {
+          await runSchedule(bot, schedule, now);
+        } else if (
+          schedule.nextRunAt - now <= config.scheduler.reminderMinutes * MINUTE &&
+          schedule.remindedFor !== schedule.nextRunAt
+        ) {
+          await remind(bot, schedule);
+        }
+      } catch (error) {
+        logger.error(`Error running schedule ${schedule.id} for chat ${schedule.chatId}:`, error);
+      }
+    }
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Renew a session about to expire with its refresh token
+ *
+ * Sessions last a day while schedules run weekly or monthly, so users with
+ * schedules are kept logged in. If the refresh is refused the user is logged
+ * out and their runs are skipped until they log in again.
+ */
+async function renewSession(chatId: number): Promise<void> {
+  const ttl = await getUserSessionTtl(chatId);
+  if (ttl === null || ttl > SESSION_RENEW_BEFORE) return;
+
+  try {
+    await refreshToken(chatId);
+    logger.info(`Renewed session of chat ${chatId} for its scheduled payouts`);
+  } catch (error) {
+    logger.warn(`Could not renew session of chat ${chatId} for its scheduled payouts:`, error);
+  }
+}
+
+/**
+ * Tell the user a payout is coming up, warning them if their balance will not cover it
+ */
+async function remind(bot: TelegramBot, schedule: ScheduledPayout): Promise<void> {
+  await saveSchedule({ ...schedule, remindedFor: schedule.nextRunAt! });
+
+  const balance = await getDefaultBalance(schedule.chatId);
+  const message = `⏰ Upcoming scheduled payout\n\n` +
+    `${formatTransferAmount(schedule.amount)} to ${formatPayoutDestination(schedule.destination)}\n` +
+    `Runs: ${formatUtcTime(schedule.nextRunAt!)}\n\n` +
+    (balance !== undefined && balance < schedule.amount
+      ? `⚠️ Your balance of ${formatTransferAmount(balance)} does not cover it. Top up before then or this run will be skipped.\n\n`
+      : '') +
+    `Use /schedules to pause or change it.`;
+
+  await bot.sendMessage(schedule.chatId, message);
+}
+
+/**
+ * Claim a due run for this process
+ *
+ * Another bot process may have read the schedule before this one saved its
+ * next run; only the process that claims the run executes and reports it.
+ * @returns true if the run is this process's to execute
+ */
+async function claimRun(schedule: ScheduledPayout): Promise<boolean> {
+  const key = `${RUN_CLAIM_PREFIX}${schedule.id}:${schedule.nextRunAt}`;
+  return getStore().setIfAbsent(key, String(Date.now()), RUN_CLAIM_TTL);
+}
+
+/**
+ * Execute a due payout and report the result
+ */
+async function runSchedule(bot: TelegramBot, schedule: ScheduledPayout, now: number): Promise<void> {
+  if (!(await claimRun(schedule))) {
+    logger.info(`Scheduled payout ${schedule.id} for chat ${schedule.chatId} is run by another process`);
+    return;
+  }
+
+  // Move on to the next run before paying, so a crash or a slow transfer never pays twice
+  const nextRunAt = nextScheduledRun(schedule, now);
+  await saveSchedule({ ...schedule, nextRunAt });
+
+  const run = await executeSchedule(schedule, now);
+  logger.info(`Scheduled payout ${schedule.id} for chat ${schedule.chatId}: ${run.status}`);
+
+  // The user may have edited or deleted the schedule while it ran
+  const current = await getSchedule(schedule.chatId, schedule.id);
+  if (current && current.nextRunAt === null) {
+    await deleteSchedule(schedule.chatId, schedule.id);
+  } else if (current) {
+    await saveSchedule({ ...current, lastRun: run });
+  }
+
+  await bot.sendMessage(schedule.chatId, formatRun(schedule, run, current ? current.nextRunAt : null));
+}
+
+/**
+ * Pay out a schedule unless it is too late, the user is logged out, or the balance or a spending limit does not allow it
+ */
+async function executeSchedule(schedule: ScheduledPayout, now: number): Promise<ScheduleRun> {
+  const { chatId, destination, amount } = schedule;
+  const skipped = (message: string): ScheduleRun => ({ at: now, status: 'skipped', message });
+
+  // Runs missed while the bot was down are not caught up
+  if (now - schedule.nextRunAt! > config.scheduler.graceMinutes * MINUTE) {
+    return skipped(`It was due at ${formatUtcTime(schedule.nextRunAt!)} and could not run on time.`);
+  }
+
+  if (!(await isAuthenticated(chatId))) {
+    return skipped("You are logged out. Use /login so the next run can go through.");
+  }
+
+  const balance = await getDefaultBalance(chatId);
+  if (balance !== undefined && balance < amount) {
+    return skipped(`Your balance of ${formatTransferAmount(balance)} does not cover it.`);
+  }
+
+  // Checked first so a run over a limit is reported as skipped; the transfer itself reserves the amount
+  const limitError = await checkSpendingLimit(chatId, amount);
+  if (limitError) {
+    return skipped(limitError);
+  }
+
+  // One key per due run, so two bot processes picking up the same run pay it once
+  const idempotencyKey = `schedule-${schedule.id}-${schedule.nextRunAt}`;
+  const result = destination.kind === 'email'
+    ? await sendFunds(chatId, destination.email, amount, schedule.description, idempotencyKey)
+    : await withdrawToWallet(chatId, destination.address, amount, destination.network, idempotencyKey);
+
+  return result.success && result.data
+    ? { at: now, status: 'sent', message: `Transaction ID: ${result.data.id}` }
+    : { at: now, status: 'failed', message: result.error || 'Unknown error' };
+}
+
+/**
+ * Result notification of a run
+ */
+function formatRun(schedule: ScheduledPayout, run: ScheduleRun, nextRunAt: number | null): string {
+  const title = run.status === 'sent'
+    ? '✅ Scheduled payout sent'
+    : run.status === 'skipped' ? '⚠️ Scheduled payout skipped' : '❌ Scheduled payout failed';
+
+  return `${title}\n\n` +
+    `${formatTransferAmount(schedule.amount)} to ${formatPayoutDestination(schedule.destination)}\n` +
+    `${run.message}\n\n` +
+    (nextRunAt === null ? 'This payout will not run again.' : `Next run: ${formatUtcTime(nextRunAt)}`);
+}
@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import { getStore } from '../store';
+import { ScheduledPayout } from '../types';
+import { nextCronRun, parseCron } from '../utils/cron';
+
+// Key prefix for scheduled payouts, followed by the chat ID and the schedule ID
+const SCHEDULE_PREFIX = 'schedule:';
+
+// Most schedules per user, which keeps the /schedules list within one message
+export const MAX_SCHEDULES = 20;
+
+/**
+ * A scheduled payout before it is saved
+ */
+export type NewSchedule = Omit<ScheduledPayout, 'id' | 'chatId' | 'nextRunAt' | 'paused' | 'createdAt'>;
+
+function scheduleKey(chatId: number, id: string): string {
+  return `${SCHEDULE_PREFIX}${chatId}:${id}`;
+}
+
+async function loadSchedules(prefix: string): Promise<ScheduledPayout[]> {
+  const store = getStore();
+  const schedules: ScheduledPayout[] = [];
+
+  for (const key of await store.keys(prefix)) {
+    const data = await store.get(key);
+    if (data) schedules.push(JSON.parse(data) as ScheduledPayout);
+  }
+
+  return schedules.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * The first run of a schedule after a moment
+ * @param schedule Frequency with its cron expression or one-off time
+ * @param after Time in milliseconds; runs at or before it are not returned
+ * @returns Time of the run in milliseconds, or null if the schedule will not run again
+ */
+export function nextScheduledRun(schedule: Pick<ScheduledPayout, 'cron' | 'runAt'>, after: number): number | null {
+  if (schedule.cron) {
+    return nextCronRun(parseCron(schedule.cron), new Date(after))?.getTime() ?? null;
+  }
+  return schedule.runAt !== undefined && schedule.runAt > after ? schedule.runAt : null;
+}
+
+/**
+ * Get the scheduled payouts of a user in the order they were created
+ * @param chatId The Telegram chat ID
+ * @returns Promise<ScheduledPayout[]>
+ */
+export async function getSchedules(chatId: number): Promise<ScheduledPayout[]> {
+  return loadSchedules(`${SCHEDULE_PREFIX}${chatId}:`);
+}
+
+/**
+ * Get the scheduled payouts of all users, for the scheduler loop
+ * @returns Promise<ScheduledPayout[]>
+ */
+export async function getAllSchedules(): Promise<ScheduledPayout[]> {
+  return loadSchedules(SCHEDULE_PREFIX);
+}
+
+/**
+ * Get one scheduled payout
+ * @param chatId The Telegram chat ID
+ * @param id Schedule ID
+ * @returns The schedule, or null if it no longer exists
+ */
+export async function getSchedule(chatId: number, id: string): Promise<ScheduledPayout | null> {
+  const data = await getStore().get(scheduleKey(chatId, id));
+  return data ? JSON.parse(data) as ScheduledPayout : null;
+}
+
+/**
+ * Create a scheduled payout; it first runs at the next time its timing allows
+ * @param chatId The Telegram chat ID
+ * @param schedule Destination, amount and timing
+ * @returns Promise<ScheduledPayout> The saved schedule with its ID
+ * @throws If the user already has the most schedules allowed
+ */
+export async function createSchedule(chatId: number, schedule: NewSchedule): Promise<ScheduledPayout> {
+  if ((await getSchedules(chatId)).length >= MAX_SCHEDULES) {
+    throw new Error(`You can have up to ${MAX_SCHEDULES} scheduled payouts`);
+  }
+
+  const now = Date.now();
+  const saved: ScheduledPayout = {
+    ...schedule,
+    // IDs end up in callback data, so they are kept short
+    id: crypto.randomBytes(4).toString('hex'),
+    chatId,
+    nextRunAt: nextScheduledRun(schedule, now),
+    paused: false,
+    createdAt: now
+  };
+
+  await saveSchedule(saved);
+  return saved;
+}
+
+/**
+ * Persist a scheduled payout as it is
+ * @param schedule The schedule
+ */
+export async function saveSchedule(schedule: ScheduledPayout): Promise<void> {
+  await getStore().set(scheduleKey(schedule.chatId, schedule.id), JSON.stringify(schedule));
+}
+
+/**
+ * Delete a scheduled payout
+ * @param chatId The Telegram chat ID
+ * @param id Schedule ID
+ * @returns true if the schedule existed
+ */
+export async function deleteSchedule(chatId: number, id: string): Promise<boolean> {
+  return getStore().del(scheduleKey(chatId, id));
+}
@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { config } from '../config';
+import { getStore } from '../store';
+import { decryptValue, encryptValue } from '../utils/crypto';
+import { verifyTotp } from '../utils/totp';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Key prefix for second factor settings
+const SECURITY_PREFIX = 'security:';
+
+const SALT_BYTES = 16;
+const HASH_BYTES = 32;
+
+/**
+ * Second factor a user confirms transfers with
+ */
+export type SecondFactor = 'pin' | 'totp';
+
+/**
+ * Outcome of checking a PIN or authenticator code
+ */
+export type StepUpResult =
+  | { ok: true }
+  | { ok: false; attemptsLeft: number; lockedUntil?: number };
+
+/**
+ * A user's second factor and failed attempts, as persisted in the store
+ */
+interface SecuritySettings {
+  method?: SecondFactor;
+  // salt:hash of the PIN, both base64url
+  pinHash?: string;
+  // Encrypted base32 TOTP secret
+  totpSecret?: string;
+  // Time step of the last accepted code, so a code cannot be replayed
+  lastTotpStep?: number;
+  failedAttempts: number;
+  lockedUntil?: number;
+}
+
+function securityKey(chatId: number): string {
+  return `${SECURITY_PREFIX}${chatId}`;
+}
+
+async function loadSettings(chatId: number): Promise<SecuritySettings> {
+  const data = await getStore().get(securityKey(chatId));
+  return data ? JSON.parse(data) as SecuritySettings : { failedAttempts: 0 };
+}
+
+async function saveSettings(chatId: number, settings: SecuritySettings): Promise<void> {
+  await getStore().set(securityKey(chatId), JSON.stringify(settings));
+}
+
+async function hashPin(pin: string, salt: Buffer): Promise<Buffer> {
+  return scrypt(pin, salt, HASH_BYTES);
+}
+
+async function pinMatches(pin: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':').map((part) => Buffer.from(part, 'base64url'));
+  const candidate = await hashPin(pin, salt);
+  return candidate.length === hash.length && crypto.timingSafeEqual(candidate, hash);
+}
+
+/**
+ * Get the second factor a user has set up
+ * @param chatId The Telegram chat ID
+ * @returns The method, or null if the user has none
+ */
+export async function getSecondFactor(chatId: number): Promise<SecondFactor | null> {
+  return (await loadSettings(chatId)).method ?? null;
+}
+
+/**
+ * Get the time until which transfers are locked after too many wrong codes
+ * @param chatId The Telegram chat ID
+ * @param now Current time in milliseconds
+ * @returns The end of the lockout in milliseconds, or null if transfers are allowed
+ */
+export async function getTransferLock(chatId: number, now: number = Date.now()): Promise<number | null> {
+  const { lockedUntil } = await loadSettings(chatId);
+  return lockedUntil !== undefined && lockedUntil > now ? lockedUntil : null;
+}
+
+/**
+ * Whether a transfer has to be confirmed with the second factor
+ * @param chatId The Telegram chat ID
+ * @param amount Amount in USDC, the total for a batch
+ */
+export async function requiresStepUp(chatId: number, amount: number): Promise<boolean> {
+  return amount > config.security.stepUpThreshold && (await getSecondFactor(chatId)) !== null;
+}
+
+/**
+ * Set a transaction PIN, replacing any second factor
+ * @param chatId The Telegram chat ID
+ * @param pin The PIN; only a salted scrypt hash of it is stored
+ */
+export async function setTransactionPin(chatId: number, pin: string): Promise<void> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const hash = await hashPin(pin, salt);
+
+  await saveSettings(chatId, {
+    method: 'pin',
+    pinHash: `${salt.toString('base64url')}:${hash.toString('base64url')}`,
+    failedAttempts: 0
+  });
+}
+
+/**
+ * Enroll an authenticator app, replacing any second factor, once it has produced a valid code
+ * @param chatId The Telegram chat ID
+ * @param secret Base32 secret shown to the user
+ * @param code Code from the app
+ * @returns false if the code does not match the secret
+ */
+export async function enableTotp(chatId: number, secret: string, code: string): Promise<boolean> {
+  const step = verifyTotp(secret, code);
+  if (step === null) return false;
+
+  await saveSettings(chatId, {
+    method: 'totp',
+    totpSecret: encryptValue(secret, securityKey(chatId)),
+    lastTotpStep: step,
+    failedAttempts: 0
+  });
+  return true;
+}
+
+/**
+ * Remove the second factor; transfers are then confirmed with a tap again
+ * @param chatId The Telegram chat ID
+ */
+export async function removeSecondFactor(chatId: number): Promise<void> {
+  await getStore().del(securityKey(chatId));
+}
+
+/**
+ * Check a PIN or authenticator code
+ *
+ * Each wrong code counts towards config.security.maxAttempts; reaching it
+ * locks transfers for config.security.lockoutMinutes. A right code resets the count.
+ * @param chatId The Telegram chat ID
+ * @param code Code typed by the user
+ * @param now Current time in milliseconds
+ */
+export async function verifySecondFactor(chatId: number, code: string, now: number = Date.now()): Promise<StepUpResult> {
+  const settings = await loadSettings(chatId);
+
+  if (settings.lockedUntil !== undefined && settings.lockedUntil > now) {
+    return { ok: false, attemptsLeft: 0, lockedUntil: settings.lockedUntil };
+  }
+
+  let valid = false;
+  if (settings.method === 'pin' && settings.pinHash) {
+    valid = await pinMatches(code, settings.pinHash);
+  } else if (settings.method === 'totp' && settings.totpSecret) {
+    const secret = decryptValue(settings.totpSecret, securityKey(chatId)).plaintext;
+    const step = verifyTotp(secret, code, now);
+    valid = step !== null && step > (settings.lastTotpStep ?? -1);
+    if (valid) settings.lastTotpStep = step!;
+  }
+
+  if (valid) {
+    await saveSettings(chatId, { ...settings, failedAttempts: 0, lockedUntil: undefined });
+    return { ok: true };
+  }
+
+  // Attempts counted before an expired lockout start over
+  const failedAttempts = (settings.lockedUntil !== undefined ? 0 : settings.failedAttempts) + 1;
+  if (failedAttempts >= config.security.maxAttempts) {
+    const lockedUntil = now + config.security.lockoutMinutes * 60 * 1000;
+    await saveSettings(chatId, { ...settings, failedAttempts: 0, lockedUntil });
+    return { ok: false, attemptsLeft: 0, lockedUntil };
+  }
+
+  await saveSettings(chatId, { ...settings, failedAttempts, lockedUntil: undefined });
+  return { ok: false, attemptsLeft: config.security.maxAttempts - failedAttempts };
+}
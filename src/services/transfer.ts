@@ -1,184 +1,310 @@
-import axios from 'axios';
+import { config } from '../config';
 import { logger } from '../utils/logger';
-import { COPPERX_API_URL } from '../config';
-import { TransferHistoryResponse, TransferHistoryItem, TransferResult } from '../types';
+import { copperx, CopperxApiError } from './copperx';
+import { reserveSpending, SpendingReservation } from './limits';
+import { submitOnce } from './idempotency';
+import {
+  ApiResponse,
+  BankAccount,
+  BatchPayment,
+  BatchTransferResult,
+  QuoteRequest,
+  TransferHistoryResponse,
+  TransferQuote,
+  TransferResult
+} from '../types';
 
 /**
  * Send funds to an email address
- * @param token - User's authentication token
+ * @param chatId - Telegram chat ID of the sender
  * @param recipient - Recipient's email
  * @param amount - Amount to send in USDC
  * @param description - Optional transaction description
+ * @param idempotencyKey - Key of the confirmed transfer; a repeated call with it returns the first result
  * @returns The transfer result
  */
 export async function sendFunds(
-  token: string,
+  chatId: number,
   recipient: string,
   amount: number,
-  description?: string
+  description?: string,
+  idempotencyKey?: string
 ): Promise<TransferResult> {
-  try {
-    const response = await axios.post(
-      `${COPPERX_API_URL}/transfers/send`,
-      {
+  return once(chatId, idempotencyKey, () => spend(chatId, amount, async () => {
+    try {
+      const data = await copperx.sendTransfer(chatId, {
         recipient,
         amount: amount.toString(),
         description: description || 'Sent via Telegram',
-      },
-      {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-
-    logger.info('Funds sent successfully', { recipient, amount });
-    return {
-      success: true,
-      data: response.data,
-    };
-  } catch (error: any) {
-    logger.error('Error sending funds', {
-      error: error.response?.data || error.message,
-    });
-    return {
-      success: false,
-      data: { 
-        error: error.response?.data?.message || error.message || 'Failed to send funds' 
-      },
-    };
-  }
+      }, idempotencyKey);
+
+      logger.info('Funds sent successfully', { recipient, amount });
+      return {
+        success: true,
+        data,
+      };
+    } catch (error: unknown) {
+      return {
+        success: false,
+        error: errorMessage(error, 'Failed to send funds'),
+      };
+    }
+  }));
+}
+
+/**
+ * Send several payments to email addresses in one batch
+ * @param chatId - Telegram chat ID of the sender
+ * @param payments - Payments in the order they should be reported
+ * @param idempotencyKey - Key of the confirmed batch; a repeated call with it returns the first result
+ * @returns Per payment, the transfer or the reason it failed
+ */
+export async function sendBatch(
+  chatId: number,
+  payments: BatchPayment[],
+  idempotencyKey?: string
+): Promise<BatchTransferResult> {
+  // The whole batch counts as one transaction
+  const total = payments.reduce((sum, payment) => sum + payment.amount, 0);
+
+  return once(chatId, idempotencyKey, () => spend(chatId, total, async (release) => {
+    try {
+      const responses = await copperx.sendBatch(chatId, payments.map((payment, index) => ({
+        // Position in the batch, used to match responses to payments
+        requestId: String(index + 1),
+        email: payment.recipient,
+        amount: payment.amount.toString(),
+        description: payment.description || 'Sent via Telegram',
+      })), idempotencyKey);
+
+      const data = payments.map((payment, index) => {
+        const response = responses.find((entry) => entry.requestId === String(index + 1));
+        return response
+          ? { payment, transfer: response.transfer, error: response.error }
+          : { payment, error: 'No result returned for this payment' };
+      });
+
+      logger.info('Batch sent', { payments: payments.length, failed: data.filter((result) => result.error).length });
+      // Payments that failed did not leave the account
+      const failed = data.reduce((sum, result) => result.error ? sum + result.payment.amount : sum, 0);
+      if (failed > 0) await release(failed);
+      return {
+        success: true,
+        data,
+      };
+    } catch (error: unknown) {
+      return {
+        success: false,
+        error: errorMessage(error, 'Failed to send batch'),
+      };
+    }
+  }));
 }
 
 /**
  * Withdraw funds to an external wallet
- * @param token - User's authentication token
+ * @param chatId - Telegram chat ID of the sender
  * @param address - Destination wallet address
  * @param amount - Amount to withdraw in USDC
  * @param network - Blockchain network for the withdrawal
+ * @param idempotencyKey - Key of the confirmed withdrawal; a repeated call with it returns the first result
  * @returns The transfer result
  */
 export async function withdrawToWallet(
-  token: string,
+  chatId: number,
   address: string,
   amount: number,
-  network: string
+  network: string,
+  idempotencyKey?: string
 ): Promise<TransferResult> {
-  try {
-    const response = await axios.post(
-      `${COPPERX_API_URL}/transfers/wallet-withdraw`,
-      {
+  return once(chatId, idempotencyKey, () => spend(chatId, amount, async () => {
+    try {
+      const data = await copperx.walletWithdraw(chatId, {
         address,
         amount: amount.toString(),
         network,
-      },
-      {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-
-    logger.info('Funds withdrawn to wallet successfully', { address, amount, network });
-    return {
-      success: true,
-      data: response.data,
-    };
-  } catch (error: any) {
-    logger.error('Error withdrawing funds to wallet', {
-      error: error.response?.data || error.message,
-    });
-    return {
-      success: false,
-      data: {
-        error: error.response?.data?.message || error.message || 'Failed to withdraw funds'
-      },
-    };
-  }
+      }, idempotencyKey);
+
+      logger.info('Funds withdrawn to wallet successfully', { address, amount, network });
+      return {
+        success: true,
+        data,
+      };
+    } catch (error: unknown) {
+      return {
+        success: false,
+        error: errorMessage(error, 'Failed to withdraw funds'),
+      };
+    }
+  }));
 }
 
 /**
  * Withdraw funds to a bank account
- * @param token - User's authentication token
+ * @param chatId - Telegram chat ID of the sender
  * @param amount - Amount to withdraw in USDC
  * @param bankId - ID of the connected bank account
+ * @param idempotencyKey - Key of the confirmed withdrawal; a repeated call with it returns the first result
  * @returns The transfer result
  */
 export async function withdrawToBank(
-  token: string,
+  chatId: number,
   amount: number,
-  bankId: string
+  bankId: string,
+  idempotencyKey?: string
 ): Promise<TransferResult> {
-  try {
-    const response = await axios.post(
-      `${COPPERX_API_URL}/transfers/offramp`,
-      {
+  return once(chatId, idempotencyKey, () => spend(chatId, amount, async () => {
+    try {
+      const data = await copperx.offramp(chatId, {
         amount: amount.toString(),
         bankId,
-      },
-      {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-
-    logger.info('Funds withdrawn to bank successfully', { bankId, amount });
+      }, idempotencyKey);
+
+      logger.info('Funds withdrawn to bank successfully', { bankId, amount });
+      return {
+        success: true,
+        data,
+      };
+    } catch (error: unknown) {
+      return {
+        success: false,
+        error: errorMessage(error, 'Failed to withdraw funds to bank'),
+      };
+    }
+  }));
+}
+
+/**
+ * Get the bank accounts withdrawals can be paid out to
+ * @param chatId - Telegram chat ID
+ * @returns The user's bank accounts, possibly none
+ */
+export async function getBankAccounts(chatId: number): Promise<ApiResponse<BankAccount[]>> {
+  try {
+    const data = await copperx.getBankAccounts(chatId);
+    return {
+      success: true,
+      data,
+    };
+  } catch (error: unknown) {
+    return {
+      success: false,
+      error: errorMessage(error, 'Failed to fetch bank accounts'),
+    };
+  }
+}
+
+/**
+ * Quote the fee of a send or withdrawal before it is confirmed
+ * @param chatId - Telegram chat ID of the sender
+ * @param request - Kind of transfer, its amount in USDC and where it goes
+ * @returns The quote, expiring after config.quotes.ttl seconds at the latest
+ */
+export async function getTransferQuote(chatId: number, request: QuoteRequest): Promise<ApiResponse<TransferQuote>> {
+  try {
+    const amount = request.amount.toString();
+    const quote = request.kind === 'bank'
+      ? await copperx.quoteOfframp(chatId, { amount, bankId: request.bankId })
+      : await copperx.quoteTransfer(chatId, request.kind === 'wallet'
+        ? { type: 'withdraw', amount, network: request.network }
+        : { type: 'send', amount });
+
+    const latest = Date.now() + config.quotes.ttl * 1000;
     return {
       success: true,
-      data: response.data,
+      data: { ...quote, expiresAt: Math.min(quote.expiresAt ?? latest, latest) },
     };
-  } catch (error: any) {
-    logger.error('Error withdrawing funds to bank', {
-      error: error.response?.data || error.message,
-    });
+  } catch (error: unknown) {
     return {
       success: false,
-      data: {
-        error: error.response?.data?.message || error.message || 'Failed to withdraw funds to bank'
-      },
+      error: errorMessage(error, 'Failed to get a quote'),
     };
   }
 }
 
 /**
  * Get transaction history
- * @param token - User's authentication token
+ * @param chatId - Telegram chat ID
  * @param page - Page number for pagination (default: 1)
  * @param limit - Number of transactions per page (default: 10)
  * @returns List of transactions
  */
 export async function getTransactionHistory(
-  token: string,
+  chatId: number,
   page: number = 1,
   limit: number = 10
 ): Promise<TransferHistoryResponse> {
   try {
-    const response = await axios.get(
-      `${COPPERX_API_URL}/transfers`,
-      {
-        params: { page, limit },
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      }
-    );
+    const data = await copperx.getTransfers(chatId, page, limit);
     logger.info('Transaction history fetched successfully', { page, limit });
     return {
       success: true,
-      data: response.data,
+      data,
     };
-  } catch (error: any) {
-    logger.error('Error fetching transaction history', {
-      error: error.response?.data || error.message,
-    });
+  } catch (error: unknown) {
     return {
       success: false,
-      error: error.response?.data?.message || error.message || 'Failed to fetch transaction history'
+      error: errorMessage(error, 'Failed to fetch transaction history')
     };
   }
 }
 
+/**
+ * Submit at most once when the caller passes an idempotency key
+ */
+function once<T>(
+  chatId: number,
+  idempotencyKey: string | undefined,
+  submit: () => Promise<ApiResponse<T>>
+): Promise<ApiResponse<T>> {
+  return idempotencyKey ? submitOnce(chatId, idempotencyKey, submit) : submit();
+}
+
+/**
+ * Reserve an amount against the user's limits, then submit
+ *
+ * The reservation is given back if the submission fails; submit can give
+ * back part of it, e.g. for the failed payments of a batch.
+ */
+async function spend<T>(
+  chatId: number,
+  amount: number,
+  submit: (release: (amount: number) => Promise<void>) => Promise<ApiResponse<T>>
+): Promise<ApiResponse<T>> {
+  let reservation: SpendingReservation;
+  try {
+    reservation = await reserveSpending(chatId, amount);
+  } catch (error: unknown) {
+    return {
+      success: false,
+      error: errorMessage(error, 'Failed to check your spending limits'),
+    };
+  }
+  if (!reservation.reserved) {
+    return { success: false, error: reservation.error };
+  }
+
+  const release = reservation.release;
+  // Funds may already have left the account, so a failure here is logged rather than reported
+  const giveBack = async (released: number) => {
+    try {
+      await release(released);
+    } catch (error) {
+      logger.error(`Error releasing reserved spending for chat ${chatId}:`, error);
+    }
+  };
+
+  const result = await submit(giveBack);
+  if (!result.success) await giveBack(amount);
+  return result;
+}
+
+/**
+ * Message to show for a failed API call
+ */
+function errorMessage(error: unknown, fallback: string): string {
+  if (error instanceof CopperxApiError || error instanceof Error) {
+    return error.message || fallback;
+  }
+  return fallback;
+}
@@ -1,27 +1,6 @@
-import axios, { isAxiosError } from 'axios';
-import { COPPERX_API_URL } from '../config';
-import { getUserSession } from './auth';
-
-// Interface for wallet
-export interface Wallet {
-  id: string;
-  name: string;
-  address: string;
-  network: string;
-  isDefault: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
-
-// Interface for wallet balance
-export interface WalletBalance {
-  walletId: string;
-  address: string;
-  network: string;
-  balance: string;  // Using string for precise numeric representation
-  isDefault: boolean;
-  name: string;
-}
+import { logger } from '../utils/logger';
+import { copperx } from './copperx';
+import { Wallet, WalletBalance } from '../types';
 
 /**
  * Get all wallets for the authenticated user
@@ -29,30 +8,7 @@ export interface WalletBalance {
  * @returns Promise<Wallet[]>
  */
 export async function getWallets(chatId: number): Promise<Wallet[]> {
-  const session = await getUserSession(chatId);
-  
-  if (!session) {
-    throw new Error('User not authenticated');
-  }
-  
-  try {
-    const response = await axios.get(`${COPPERX_API_URL}/wallets`, {
-      headers: {
-        Authorization: `Bearer ${session.token}`
-      }
-    });
-    
-    return response.data;
-  } catch (error: unknown) {
-    console.error('Error fetching wallets:', error);
-    if (isAxiosError(error) && error.response?.data?.message) {
-      throw new Error(error.response.data.message);
-    } else if (error instanceof Error) {
-      throw new Error(error.message);
-    } else {
-      throw new Error('Failed to fetch wallets');
-    }
-  }
+  return copperx.getWallets(chatId);
 }
 
 /**
@@ -61,29 +17,22 @@ export async function getWallets(chatId: number): Promise<Wallet[]> {
  * @returns Promise<WalletBalance[]>
  */
 export async function getWalletBalances(chatId: number): Promise<WalletBalance[]> {
-  const session = await getUserSession(chatId);
-  
-  if (!session) {
-    throw new Error('User not authenticated');
-  }
-  
+  return copperx.getBalances(chatId);
+}
+
+/**
+ * Get the balance of the default wallet, or of the first wallet if none is default
+ * @param chatId The Telegram chat ID
+ * @returns Promise<number | undefined> The balance, or undefined if it cannot be fetched
+ */
+export async function getDefaultBalance(chatId: number): Promise<number | undefined> {
   try {
-    const response = await axios.get(`${COPPERX_API_URL}/wallets/balances`, {
-      headers: {
-        Authorization: `Bearer ${session.token}`
-      }
-    });
-    
-    return response.data;
-  } catch (error: unknown) {
-    console.error('Error fetching wallet balances:', error);
-    if (isAxiosError(error) && error.response?.data?.message) {
-      throw new Error(error.response.data.message);
-    } else if (error instanceof Error) {
-      throw new Error(error.message);
-    } else {
-      throw new Error('Failed to fetch wallet balances');
-    }
+    const balances = await getWalletBalances(chatId);
+    const balance = balances.find((entry) => entry.isDefault) ?? balances[0];
+    return balance ? parseFloat(balance.balance) : undefined;
+  } catch (error) {
+    logger.error(`Error fetching default balance for chat ${chatId}:`, error);
+    return undefined;
   }
 }
 
@@ -94,34 +43,7 @@ export async function getWalletBalances(chatId: number): Promise<WalletBalance[]
  * @returns Promise<Wallet>
  */
 export async function setDefaultWallet(chatId: number, walletId: string): Promise<Wallet> {
-  const session = await getUserSession(chatId);
-  
-  if (!session) {
-    throw new Error('User not authenticated');
-  }
-  
-  try {
-    const response = await axios.put(
-      `${COPPERX_API_URL}/wallets/default`,
-      { walletId },
-      {
-        headers: {
-          Authorization: `Bearer ${session.token}`
-        }
-      }
-    );
-    
-    return response.data;
-  } catch (error: unknown) {
-    console.error('Error setting default wallet:', error);
-    if (isAxiosError(error) && error.response?.data?.message) {
-      throw new Error(error.response.data.message);
-    } else if (error instanceof Error) {
-      throw new Error(error.message);
-    } else {
-      throw new Error('Failed to set default wallet');
-    }
-  }
+  return copperx.setDefaultWallet(chatId, walletId);
 }
 
 /**
@@ -130,30 +52,7 @@ export async function setDefaultWallet(chatId: number, walletId: string): Promis
  * @returns Promise<Wallet>
  */
 export async function getDefaultWallet(chatId: number): Promise<Wallet> {
-  const session = await getUserSession(chatId);
-  
-  if (!session) {
-    throw new Error('User not authenticated');
-  }
-  
-  try {
-    const response = await axios.get(`${COPPERX_API_URL}/wallets/default`, {
-      headers: {
-        Authorization: `Bearer ${session.token}`
-      }
-    });
-    
-    return response.data;
-  } catch (error: unknown) {
-    console.error('Error fetching default wallet:', error);
-    if (isAxiosError(error) && error.response?.data?.message) {
-      throw new Error(error.response.data.message);
-    } else if (error instanceof Error) {
-      throw new Error(error.message);
-    } else {
-      throw new Error('Failed to fetch default wallet');
-    }
-  }
+  return copperx.getDefaultWallet(chatId);
 }
 
 /**
@@ -162,6 +61,6 @@ export async function getDefaultWallet(chatId: number): Promise<Wallet> {
  * @returns string
  */
 export function formatWalletBalance(balance: WalletBalance): string {
-  return `${balance.name} (${balance.network}): ${balance.balance} USDC ${balance.isDefault ? '(Default)' : ''}`;
+  return `${balance.name} (${balance.network}): ${balance.balance} ${balance.symbol} ${balance.isDefault ? '(Default)' : ''}`;
 }
 
@@ -0,0 +1,107 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { MemoryStore } from './memory';
+import { RedisStore } from './redis';
+
+/**
+ * Key-value store with per-key expiry shared by all bot state
+ *
+ * Values are strings; callers serialize structured data themselves and
+ * namespace their keys with a prefix such as 'user_session:'.
+ */
+export interface SessionStore {
+  /**
+   * Read a value, or null if it is missing or expired
+   */
+  get(key: string): Promise<string | null>;
+
+  /**
+   * Write a value
+   * @param ttlSeconds - Seconds until the key expires; kept forever when omitted
+   */
+  set(key: string, value: string, ttlSeconds?: number): Promise<void>;
+
+  /**
+   * Write a value only if the key does not exist yet, atomically
+   * @param ttlSeconds - Seconds until the key expires; kept forever when omitted
+   * @returns true if this call wrote the key
+   */
+  setIfAbsent(key: string, value: string, ttlSeconds?: number): Promise<boolean>;
+
+  /**
+   * Add to a numeric value atomically, starting from 0 if the key is missing
+   * @param amount - Amount to add; negative to subtract
+   * @param ttlSeconds - Seconds until the key expires, reset on every call; the expiry is left as it is when omitted
+   * @returns The value after adding
+   */
+  incrBy(key: string, amount: number, ttlSeconds?: number): Promise<number>;
+
+  /**
+   * Delete a key atomically
+   * @returns true if this call removed the key
+   */
+  del(key: string): Promise<boolean>;
+
+  /**
+   * Check whether a key exists and has not expired
+   */
+  exists(key: string): Promise<boolean>;
+
+  /**
+   * Reset the expiry of an existing key
+   * @returns false if the key does not exist
+   */
+  expire(key: string, ttlSeconds: number): Promise<boolean>;
+
+  /**
+   * Seconds until a key expires
+   * @returns null if the key is missing or never expires
+   */
+  ttl(key: string): Promise<number | null>;
+
+  /**
+   * List the live keys starting with a prefix
+   */
+  keys(prefix: string): Promise<string[]>;
+
+  /**
+   * Release connections and timers
+   */
+  close(): Promise<void>;
+}
+
+export { MemoryStore } from './memory';
+export { RedisStore } from './redis';
+
+// Store selected by config, created on first use
+let store: SessionStore | null = null;
+
+/**
+ * Get the configured store
+ */
+export function getStore(): SessionStore {
+  if (!store) {
+    store = config.store.driver === 'memory'
+      ? new MemoryStore()
+      : new RedisStore(config.store.redis.url, config.store.redis.tls);
+    logger.info(`Using ${config.store.driver} session store`);
+  }
+  return store;
+}
+
+/**
+ * Create the configured store and check that it is reachable
+ */
+export async function initStore(): Promise<void> {
+  await getStore().exists('store:ping');
+}
+
+/**
+ * Close the store so the next getStore() starts afresh
+ */
+export async function closeStore(): Promise<void> {
+  if (store) {
+    await store.close();
+    store = null;
+  }
+}
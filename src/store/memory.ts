@@ -0,0 +1,103 @@
+import type { SessionStore } from '.';
+
+// Milliseconds between sweeps removing expired entries
+const SWEEP_INTERVAL = 60 * 1000;
+
+interface Entry {
+  value: string;
+  // Epoch milliseconds; never expires when undefined
+  expiresAt?: number;
+}
+
+/**
+ * In-process store for local runs and tests
+ *
+ * State is lost on restart and not shared between processes.
+ */
+export class MemoryStore implements SessionStore {
+  private readonly entries = new Map<string, Entry>();
+  private readonly sweeper: NodeJS.Timeout;
+
+  constructor() {
+    this.sweeper = setInterval(() => this.sweep(), SWEEP_INTERVAL);
+    // Do not keep the process alive just to sweep
+    this.sweeper.unref();
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.live(key)?.value ?? null;
+  }
+
+  async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: expiry(ttlSeconds) });
+  }
+
+  async setIfAbsent(key: string, value: string, ttlSeconds?: number): Promise<boolean> {
+    if (this.live(key)) return false;
+
+    this.entries.set(key, { value, expiresAt: expiry(ttlSeconds) });
+    return true;
+  }
+
+  async incrBy(key: string, amount: number, ttlSeconds?: number): Promise<number> {
+    const entry = this.live(key);
+    const value = (entry ? parseFloat(entry.value) : 0) + amount;
+
+    this.entries.set(key, { value: String(value), expiresAt: ttlSeconds === undefined ? entry?.expiresAt : expiry(ttlSeconds) });
+    return value;
+  }
+
+  async del(key: string): Promise<boolean> {
+    const existed = this.live(key) !== undefined;
+    this.entries.delete(key);
+    return existed;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.live(key) !== undefined;
+  }
+
+  async expire(key: string, ttlSeconds: number): Promise<boolean> {
+    const entry = this.live(key);
+    if (!entry) return false;
+
+    entry.expiresAt = expiry(ttlSeconds);
+    return true;
+  }
+
+  async ttl(key: string): Promise<number | null> {
+    const expiresAt = this.live(key)?.expiresAt;
+    return expiresAt === undefined ? null : Math.ceil((expiresAt - Date.now()) / 1000);
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    return [...this.entries.keys()].filter((key) => key.startsWith(prefix) && this.live(key));
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweeper);
+    this.entries.clear();
+  }
+
+  /**
+   * Get an entry, dropping it if it has expired
+   */
+  private live(key: string): Entry | undefined {
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private sweep(): void {
+    for (const key of this.entries.keys()) {
+      this.live(key);
+    }
+  }
+}
+
+function expiry(ttlSeconds?: number): number | undefined {
+  return ttlSeconds === undefined ? undefined : Date.now() + ttlSeconds * 1000;
+}
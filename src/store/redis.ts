@@ -0,0 +1,134 @@
+import { createClient, RedisClientType } from 'redis';
+import type { SessionStore } from '.';
+import { logger } from '../utils/logger';
+
+/**
+ * Store backed by Redis, shared by all bot processes
+ */
+export class RedisStore implements SessionStore {
+  private client: RedisClientType | null = null;
+  private connecting: Promise<RedisClientType> | null = null;
+
+  /**
+   * @param url - Redis URL, e.g. redis://localhost:6379
+   * @param tls - Connect over TLS (accepting self-signed certificates, as Heroku Redis uses)
+   */
+  constructor(private readonly url: string, private readonly tls: boolean) {}
+
+  async get(key: string): Promise<string | null> {
+    return (await this.connect()).get(key);
+  }
+
+  async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+    const client = await this.connect();
+    await client.set(key, value, ttlSeconds === undefined ? undefined : { EX: ttlSeconds });
+  }
+
+  async setIfAbsent(key: string, value: string, ttlSeconds?: number): Promise<boolean> {
+    const client = await this.connect();
+    // SET NX is atomic, so only one caller writes the key
+    const reply = await client.set(key, value, ttlSeconds === undefined ? { NX: true } : { NX: true, EX: ttlSeconds });
+    return reply === 'OK';
+  }
+
+  async incrBy(key: string, amount: number, ttlSeconds?: number): Promise<number> {
+    const client = await this.connect();
+    if (ttlSeconds === undefined) {
+      return parseFloat(await client.incrByFloat(key, amount));
+    }
+
+    // INCRBYFLOAT is atomic; MULTI sets the expiry along with it
+    const [value] = await client.multi().incrByFloat(key, amount).expire(key, ttlSeconds).exec();
+    return parseFloat(String(value));
+  }
+
+  async del(key: string): Promise<boolean> {
+    // DEL is atomic, so only one caller sees the key removed
+    return await (await this.connect()).del(key) === 1;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return await (await this.connect()).exists(key) === 1;
+  }
+
+  async expire(key: string, ttlSeconds: number): Promise<boolean> {
+    return (await this.connect()).expire(key, ttlSeconds);
+  }
+
+  async ttl(key: string): Promise<number | null> {
+    // -2 for a missing key, -1 for a key without expiry
+    const seconds = await (await this.connect()).ttl(key);
+    return seconds < 0 ? null : seconds;
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const client = await this.connect();
+    const keys: string[] = [];
+
+    for await (const key of client.scanIterator({ MATCH: `${escapePattern(prefix)}*`, COUNT: 100 })) {
+      keys.push(key);
+    }
+    return keys;
+  }
+
+  async close(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    this.connecting = null;
+
+    if (client?.isOpen) {
+      await client.quit();
+      logger.info('Redis connection closed');
+    }
+  }
+
+  /**
+   * Connect on first use, sharing one connection attempt between callers
+   */
+  private async connect(): Promise<RedisClientType> {
+    if (this.client?.isOpen) {
+      return this.client;
+    }
+
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async open(): Promise<RedisClientType> {
+    const client: RedisClientType = createClient({
+      url: this.url,
+      socket: this.tls
+        ? { tls: true, rejectUnauthorized: false } // Accept self-signed certificates
+        : undefined
+    });
+
+    client.on('error', (err) => {
+      logger.error(`Redis connection error: ${err}`);
+    });
+
+    client.on('connect', () => {
+      logger.info('Connected to Redis');
+    });
+
+    try {
+      await client.connect();
+    } catch (error) {
+      logger.error(`Failed to initialize Redis connection: ${error}`);
+      throw new Error(`Redis connection failed: ${error}`);
+    }
+
+    this.client = client;
+    return client;
+  }
+}
+
+/**
+ * Escape glob characters so a key prefix matches literally
+ */
+function escapePattern(prefix: string): string {
+  return prefix.replace(/[*?[\]\\]/g, '\\$&');
+}
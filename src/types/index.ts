@@ -1,89 +1,199 @@
 /**
  * Type definitions for the application
+ *
+ * Domain types for Copperx data are inferred from the runtime schemas in
+ * ./schemas, so the types and the response validation cannot drift apart.
  */
 
 import TelegramBot from 'node-telegram-bot-api';
+import { z } from 'zod';
+import {
+  AuthResponseSchema,
+  UserProfileSchema,
+  KycSchema,
+  WalletSchema,
+  WalletBalanceListSchema,
+  TransferSchema,
+  TransferHistorySchema,
+  TransferQuoteSchema,
+  BankAccountListSchema,
+  BatchTransferResponseSchema,
+  PusherAuthSchema
+} from './schemas';
 
 /**
- * Session data for user authentication
+ * Session tokens stored for an authenticated chat
  */
-export interface UserSession {
-  userId: number;
-  token: string;
-  organizationId: string;
-  refreshToken?: string;
-  expiresAt?: number;
-}
+export type AuthToken = z.infer<typeof AuthResponseSchema>;
 
 /**
  * User profile from Copperx API
  */
-export interface UserProfile {
+export type UserProfile = z.infer<typeof UserProfileSchema>;
+
+/**
+ * KYC or KYB application
+ */
+export type Kyc = z.infer<typeof KycSchema>;
+
+/**
+ * Wallet information
+ */
+export type Wallet = z.infer<typeof WalletSchema>;
+
+/**
+ * Balance of one token in one wallet
+ */
+export type WalletBalance = z.infer<typeof WalletBalanceListSchema>[number];
+
+/**
+ * Transfer information
+ */
+export type Transfer = z.infer<typeof TransferSchema>;
+
+/**
+ * A page of transfer history
+ */
+export type TransferHistory = z.infer<typeof TransferHistorySchema>;
+
+/**
+ * Fee quote as returned by the API, which may leave out its expiry
+ */
+export type QuoteResponse = z.infer<typeof TransferQuoteSchema>;
+
+/**
+ * Fee quote for a send or withdrawal, valid until expiresAt (milliseconds)
+ */
+export type TransferQuote = QuoteResponse & { expiresAt: number };
+
+/**
+ * A send or withdrawal to quote the fee of
+ */
+export type QuoteRequest =
+  | { kind: 'send'; amount: number }
+  | { kind: 'wallet'; amount: number; network: string }
+  | { kind: 'bank'; amount: number; bankId?: string };
+
+/**
+ * A bank account withdrawals can be paid out to
+ */
+export type BankAccount = z.infer<typeof BankAccountListSchema>[number];
+
+/**
+ * Pusher channel authorization
+ */
+export type PusherAuth = z.infer<typeof PusherAuthSchema>;
+
+/**
+ * Per-payment entries of a batch transfer as returned by the API
+ */
+export type BatchTransferResponse = z.infer<typeof BatchTransferResponseSchema>;
+
+/**
+ * A single payment of a batch payout
+ */
+export interface BatchPayment {
+  recipient: string;
+  amount: number;
+  description?: string;
+}
+
+/**
+ * Outcome of one payment of a batch payout
+ */
+export interface BatchPaymentResult {
+  payment: BatchPayment;
+  transfer?: Transfer;
+  error?: string;
+}
+
+/**
+ * Deposit event pushed on the organization channel
+ */
+export interface DepositNotification {
+  amount?: string;
+  currency?: string;
+  network?: string;
+  transactionHash?: string;
+}
+
+/**
+ * A saved email recipient
+ */
+export interface RecipientContact {
   id: string;
+  label: string;
+  kind: 'email';
   email: string;
-  firstName: string;
-  lastName: string;
-  organizationId: string;
-  kycStatus?: string;
-  kybStatus?: string;
 }
 
 /**
- * Wallet information
+ * A saved withdrawal address
  */
-export interface Wallet {
+export interface AddressContact {
   id: string;
+  label: string;
+  kind: 'wallet';
   address: string;
   network: string;
-  isDefault: boolean;
-  balance?: string;
 }
 
 /**
- * Transfer information
+ * An entry of a user's address book
  */
-export interface Transfer {
-  id: string;
-  amount: string;
-  currency: string;
-  recipient: string;
-  status: string;
-  createdAt: string;
-  type: 'email' | 'wallet' | 'bank';
-}
+export type Contact = RecipientContact | AddressContact;
 
 /**
- * Command handler type
+ * Where a payout goes: an email recipient or an address on a network
  */
-export type CommandHandler = (msg: TelegramBot.Message, match: RegExpExecArray | null) => void;
+export type PayoutDestination =
+  | Pick<RecipientContact, 'kind' | 'email'>
+  | Pick<AddressContact, 'kind' | 'address' | 'network'>;
 
 /**
- * API response containing transfer result
+ * How often a scheduled payout runs
  */
-export interface TransferResult {
-  id: string;
-  amount: string;
-  currency: string;
-  recipient: string;
-  status: string;
-  transactionHash?: string;
-  fee?: string;
+export type ScheduleFrequency = 'once' | 'daily' | 'weekly' | 'monthly' | 'cron';
+
+/**
+ * Outcome of one run of a scheduled payout
+ */
+export interface ScheduleRun {
+  at: number;
+  status: 'sent' | 'skipped' | 'failed';
+  message: string;
 }
 
 /**
- * API response for transfer history request
+ * A one-off or recurring payout executed by the scheduler
  */
-export interface TransferHistoryResponse {
-  data: Transfer[];
-  meta: {
-    totalItems: number;
-    itemCount: number;
-    itemsPerPage: number;
-    totalPages: number;
-    currentPage: number;
-  };
+export interface ScheduledPayout {
+  id: string;
+  chatId: number;
+  destination: PayoutDestination;
+  amount: number;
+  description?: string;
+  frequency: ScheduleFrequency;
+  // When it runs, as shown to the user, e.g. "Every Monday at 09:00 UTC"
+  timing: string;
+  // Cron expression of recurring payouts; daily, weekly and monthly ones are stored as cron too
+  cron?: string;
+  // Time of a one-off payout, in milliseconds
+  runAt?: number;
+  // Next time the payout is due, in milliseconds; null when it will not run again
+  nextRunAt: number | null;
+  paused: boolean;
+  // nextRunAt the last reminder was sent for
+  remindedFor?: number;
+  lastRun?: ScheduleRun;
+  createdAt: number;
 }
 
+/**
+ * Command handler type
+ */
+export type CommandHandler = (msg: TelegramBot.Message, match: RegExpExecArray | null) => void;
+
 /**
  * Generic API response
  */
@@ -91,4 +201,53 @@ export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  // Set when a repeated submission returned the result of the first one
+  replayed?: boolean;
+  // Set when a repeated submission was refused because the first one is still running
+  pending?: boolean;
+}
+
+/**
+ * Result of a send or withdrawal
+ */
+export type TransferResult = ApiResponse<Transfer>;
+
+/**
+ * Result of a transfer history request
+ */
+export type TransferHistoryResponse = ApiResponse<TransferHistory>;
+
+/**
+ * Result of a batch payout; payments can fail individually even when the batch succeeds
+ */
+export type BatchTransferResult = ApiResponse<BatchPaymentResult[]>;
+
+/**
+ * Caps on the USDC a user can move out through the bot
+ */
+export interface SpendingLimits {
+  perTransaction: number;
+  daily: number;
+  monthly: number;
+}
+
+/**
+ * A raised limit waiting out its cooling-off delay
+ */
+export interface PendingLimitRaise {
+  value: number;
+  // Time the raise applies, in milliseconds
+  effectiveAt: number;
+}
+
+/**
+ * A user's limits with what is left of them
+ */
+export interface SpendingAllowance {
+  limits: SpendingLimits;
+  pending: Partial<Record<keyof SpendingLimits, PendingLimitRaise>>;
+  spentToday: number;
+  spentThisMonth: number;
+  remainingToday: number;
+  remainingThisMonth: number;
 }
@@ -1 +0,0 @@
-declare module "node-telegram-bot-api";
@@ -0,0 +1,322 @@
+import { z } from 'zod';
+
+/**
+ * Runtime schemas for every Copperx API response the bot reads.
+ *
+ * Each schema accepts the shapes the API is known to return and transforms
+ * them into the canonical domain types exported from ./index.
+ */
+
+// Amounts arrive as strings or numbers; the bot keeps them as strings
+const amount = z.union([z.string(), z.number()]).transform(String);
+
+// Optional strings may be null in API responses
+const optionalString = z.string().nullish().transform((value) => value ?? undefined);
+
+/**
+ * Response to an email OTP request
+ */
+export const OtpRequestSchema = z.object({
+  sid: optionalString
+}).passthrough();
+
+/**
+ * Response to an OTP authentication or token refresh
+ */
+export const AuthResponseSchema = z.object({
+  token: optionalString,
+  accessToken: optionalString,
+  refreshToken: optionalString,
+  refresh_token: optionalString,
+  expiresIn: z.number().nullish(),
+  expireAt: optionalString,
+  organizationId: optionalString,
+  user: z.object({ organizationId: optionalString }).passthrough().nullish()
+}).passthrough()
+  .refine((data) => !!(data.token || data.accessToken), { message: 'Missing authentication token' })
+  .transform((data) => {
+    // Handle expiration time from either expiresIn or expireAt
+    const expiresIn = data.expiresIn
+      ?? (data.expireAt ? Math.floor((new Date(data.expireAt).getTime() - Date.now()) / 1000) : 0);
+    const refreshToken = data.refreshToken || data.refresh_token;
+
+    return {
+      token: (data.token || data.accessToken) as string,
+      expiresIn,
+      organizationId: data.organizationId || data.user?.organizationId || '',
+      ...(refreshToken ? { refreshToken } : {})
+    };
+  });
+
+/**
+ * Profile returned by /auth/me
+ */
+export const UserProfileSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  firstName: z.string().nullish().transform((value) => value ?? ''),
+  lastName: z.string().nullish().transform((value) => value ?? ''),
+  phoneNumber: z.string().nullish().transform((value) => value ?? null),
+  organizationId: optionalString,
+  organizationName: optionalString,
+  role: optionalString,
+  status: optionalString,
+  kycStatus: optionalString,
+  kybStatus: optionalString
+}).passthrough();
+
+/**
+ * A KYC or KYB application
+ */
+export const KycSchema = z.object({
+  id: z.string(),
+  status: z.string().transform((value) => value.toLowerCase()),
+  type: optionalString,
+  createdAt: optionalString,
+  updatedAt: optionalString
+}).passthrough();
+
+/**
+ * Response of /kycs, either a bare list or a page
+ */
+export const KycListSchema = z.union([
+  z.array(KycSchema),
+  z.object({ data: z.array(KycSchema) }).passthrough().transform((page) => page.data)
+]);
+
+/**
+ * A wallet of the user's organization
+ */
+export const WalletSchema = z.object({
+  id: z.string(),
+  name: optionalString,
+  walletType: optionalString,
+  address: optionalString,
+  walletAddress: optionalString,
+  network: z.string(),
+  isDefault: z.boolean().nullish().transform((value) => value ?? false),
+  createdAt: optionalString,
+  updatedAt: optionalString
+}).passthrough().transform((wallet) => ({
+  id: wallet.id,
+  name: wallet.name || wallet.walletType || 'Wallet',
+  address: wallet.address || wallet.walletAddress || '',
+  network: wallet.network,
+  isDefault: wallet.isDefault,
+  createdAt: wallet.createdAt,
+  updatedAt: wallet.updatedAt
+}));
+
+export const WalletListSchema = z.array(WalletSchema);
+
+// A token balance inside a wallet
+const TokenBalanceSchema = z.object({
+  balance: amount,
+  symbol: optionalString,
+  decimals: z.number().nullish(),
+  address: optionalString
+}).passthrough();
+
+// Flat balance row: one token of one wallet
+const FlatBalanceSchema = z.object({
+  walletId: z.string(),
+  network: z.string(),
+  balance: amount,
+  symbol: optionalString,
+  address: optionalString,
+  name: optionalString,
+  isDefault: z.boolean().nullish()
+}).passthrough();
+
+// Nested balance entry: a wallet with the balances of its tokens
+const NestedBalanceSchema = z.object({
+  walletId: z.string(),
+  network: z.string(),
+  isDefault: z.boolean().nullish(),
+  balances: z.array(TokenBalanceSchema)
+}).passthrough();
+
+/**
+ * Response of /wallets/balances, flattened to one row per wallet token
+ */
+export const WalletBalanceListSchema = z.array(z.union([NestedBalanceSchema, FlatBalanceSchema]))
+  .transform((entries) => entries.flatMap((entry) => {
+    if ('balances' in entry && Array.isArray(entry.balances)) {
+      return entry.balances.map((token) => ({
+        walletId: entry.walletId,
+        network: entry.network,
+        isDefault: entry.isDefault ?? false,
+        name: entry.network,
+        address: token.address || '',
+        symbol: token.symbol || 'USDC',
+        balance: token.balance
+      }));
+    }
+
+    const flat = entry as z.infer<typeof FlatBalanceSchema>;
+    return [{
+      walletId: flat.walletId,
+      network: flat.network,
+      isDefault: flat.isDefault ?? false,
+      name: flat.name || flat.network,
+      address: flat.address || '',
+      symbol: flat.symbol || 'USDC',
+      balance: flat.balance
+    }];
+  }));
+
+/**
+ * A transfer as returned by the transfer endpoints and history
+ */
+export const TransferSchema = z.object({
+  id: z.string(),
+  type: optionalString,
+  status: z.string().nullish().transform((value) => value ?? 'pending'),
+  amount: amount,
+  currency: z.string().nullish().transform((value) => value ?? 'USDC'),
+  fee: amount.nullish().transform((value) => value ?? undefined),
+  totalFee: amount.nullish().transform((value) => value ?? undefined),
+  network: optionalString,
+  transactionHash: optionalString,
+  recipient: optionalString,
+  sender: optionalString,
+  createdAt: z.string().nullish().transform((value) => value ?? new Date().toISOString())
+}).passthrough().transform((transfer) => ({
+  id: transfer.id,
+  type: transfer.type,
+  status: transfer.status,
+  amount: transfer.amount,
+  currency: transfer.currency,
+  fee: transfer.fee ?? transfer.totalFee,
+  network: transfer.network,
+  transactionHash: transfer.transactionHash,
+  recipient: transfer.recipient,
+  sender: transfer.sender,
+  createdAt: transfer.createdAt
+}));
+
+/**
+ * Response of /transfers, either the paged API shape or transfers with pagination
+ */
+export const TransferHistorySchema = z.union([
+  z.object({
+    data: z.array(TransferSchema),
+    page: z.number().nullish(),
+    limit: z.number().nullish(),
+    count: z.number().nullish(),
+    hasMore: z.boolean().nullish()
+  }).passthrough().transform((page) => ({
+    transfers: page.data,
+    pagination: {
+      page: page.page ?? 1,
+      limit: page.limit ?? page.data.length,
+      total: page.count ?? page.data.length,
+      hasMore: page.hasMore ?? false
+    }
+  })),
+  z.object({
+    transfers: z.array(TransferSchema),
+    pagination: z.object({
+      page: z.number(),
+      limit: z.number(),
+      total: z.number(),
+      pages: z.number().nullish()
+    }).passthrough()
+  }).passthrough().transform((history) => ({
+    transfers: history.transfers,
+    pagination: {
+      page: history.pagination.page,
+      limit: history.pagination.limit,
+      total: history.pagination.total,
+      hasMore: history.pagination.pages != null && history.pagination.page < history.pagination.pages
+    }
+  }))
+]);
+
+/**
+ * A payout account from /accounts, in the nested API shape or flat
+ */
+const PayoutAccountSchema = z.object({
+  id: z.string(),
+  type: z.string().nullish().transform((value) => value ?? 'bank_account'),
+  country: optionalString,
+  currency: optionalString,
+  bankName: optionalString,
+  accountNumber: optionalString,
+  bankAccount: z.object({
+    bankName: optionalString,
+    bankAccountNumber: optionalString,
+    currency: optionalString
+  }).passthrough().nullish(),
+  minAmount: amount.nullish().transform((value) => value ?? undefined),
+  arrivalTimeMessage: optionalString
+}).passthrough();
+
+/**
+ * Response of /accounts reduced to the bank accounts, which are the ones withdrawals can be paid out to
+ */
+export const BankAccountListSchema = z.union([
+  z.array(PayoutAccountSchema),
+  z.object({ data: z.array(PayoutAccountSchema) }).passthrough().transform((page) => page.data)
+]).transform((accounts) => accounts
+  .filter((account) => account.type === 'bank_account')
+  .map((account) => ({
+    id: account.id,
+    bankName: account.bankAccount?.bankName ?? account.bankName ?? 'Bank account',
+    accountNumber: account.bankAccount?.bankAccountNumber ?? account.accountNumber ?? '',
+    currency: account.bankAccount?.currency ?? account.currency ?? 'USD',
+    country: account.country,
+    // Smallest withdrawal in USDC
+    minAmount: account.minAmount,
+    // How long a payout takes to arrive, e.g. "1-3 business days"
+    settlementTime: account.arrivalTimeMessage
+  })));
+
+/**
+ * Fee quote from /quotes/transfer or /quotes/offramp; offramp quotes add the fiat payout
+ */
+export const TransferQuoteSchema = z.object({
+  id: optionalString,
+  amount: amount,
+  currency: z.string().nullish().transform((value) => value ?? 'USDC'),
+  fee: amount.nullish().transform((value) => value ?? '0'),
+  total: amount.nullish(),
+  receiveAmount: amount.nullish(),
+  fiatAmount: amount.nullish().transform((value) => value ?? undefined),
+  fiatCurrency: optionalString,
+  rate: amount.nullish().transform((value) => value ?? undefined),
+  expiresAt: z.union([z.string(), z.number()]).nullish()
+}).passthrough().transform((quote) => ({
+  id: quote.id,
+  amount: quote.amount,
+  currency: quote.currency,
+  fee: quote.fee,
+  total: quote.total ?? String(parseFloat(quote.amount) + parseFloat(quote.fee)),
+  receiveAmount: quote.receiveAmount ?? quote.amount,
+  fiatAmount: quote.fiatAmount,
+  fiatCurrency: quote.fiatCurrency,
+  rate: quote.rate,
+  // Milliseconds; ISO strings and epoch seconds are both seen
+  expiresAt: typeof quote.expiresAt === 'string' ? Date.parse(quote.expiresAt)
+    : typeof quote.expiresAt === 'number' ? (quote.expiresAt < 1e12 ? quote.expiresAt * 1000 : quote.expiresAt)
+    : undefined
+}));
+
+/**
+ * Response of /transfers/send-batch: per payment, either the transfer or the error body of a failed send
+ */
+export const BatchTransferResponseSchema = z.object({
+  responses: z.array(z.object({
+    requestId: z.string(),
+    response: TransferSchema.nullish(),
+    error: z.unknown()
+  }).passthrough())
+}).passthrough().transform((batch) => batch.responses);
+
+/**
+ * Response of /notifications/auth
+ */
+export const PusherAuthSchema = z.object({
+  auth: z.string(),
+  channel_data: optionalString
+}).passthrough();
@@ -0,0 +1,221 @@
+/**
+ * Wallet address formats of the withdrawal networks
+ */
+
+/**
+ * Address format shared by a group of networks
+ */
+export type AddressFamily = 'solana' | 'evm';
+
+// Address format of each withdrawal network
+export const NETWORK_ADDRESS_FAMILIES: Record<string, AddressFamily> = {
+  solana: 'solana',
+  ethereum: 'evm',
+  polygon: 'evm',
+  base: 'evm',
+  arbitrum: 'evm'
+};
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// Solana addresses are 32-byte public keys
+const SOLANA_ADDRESS_BYTES = 32;
+
+const EVM_ADDRESS_REGEX = /^0x[0-9a-fA-F]{40}$/;
+
+// Keccak-256 absorbs 136 bytes per permutation
+const KECCAK_RATE_BYTES = 136;
+
+// Round constants of Keccak-f[1600], as [high, low] 32-bit halves
+const ROUND_CONSTANTS: [number, number][] = [
+  [0x00000000, 0x00000001], [0x00000000, 0x00008082], [0x80000000, 0x0000808a], [0x80000000, 0x80008000],
+  [0x00000000, 0x0000808b], [0x00000000, 0x80000001], [0x80000000, 0x80008081], [0x80000000, 0x00008009],
+  [0x00000000, 0x0000008a], [0x00000000, 0x00000088], [0x00000000, 0x80008009], [0x00000000, 0x8000000a],
+  [0x00000000, 0x8000808b], [0x80000000, 0x0000008b], [0x80000000, 0x00008089], [0x80000000, 0x00008003],
+  [0x80000000, 0x00008002], [0x80000000, 0x00000080], [0x00000000, 0x0000800a], [0x80000000, 0x8000000a],
+  [0x80000000, 0x80008081], [0x80000000, 0x00008080], [0x00000000, 0x80000001], [0x80000000, 0x80008008]
+];
+
+// Rotation of each lane in the rho step, indexed by x + 5y
+const ROTATIONS = [
+  0, 1, 62, 28, 27,
+  36, 44, 6, 55, 20,
+  3, 10, 43, 25, 39,
+  41, 45, 15, 21, 8,
+  18, 2, 61, 56, 14
+];
+
+/**
+ * Decode base58 text, or return null if it has characters outside the alphabet
+ */
+function fromBase58(text: string): Buffer | null {
+  const bytes: number[] = [];
+
+  for (const char of text) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry === -1) return null;
+
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  // Each leading '1' stands for a zero byte
+  for (const char of text) {
+    if (char !== '1') break;
+    bytes.push(0);
+  }
+
+  return Buffer.from(bytes.reverse());
+}
+
+/**
+ * Rotate a 64-bit lane, given as 32-bit halves, left by n bits
+ */
+function rotateLane(high: number, low: number, n: number): [number, number] {
+  if (n === 0) return [high, low];
+  if (n === 32) return [low, high];
+  if (n > 32) {
+    [high, low] = [low, high];
+    n -= 32;
+  }
+  return [
+    ((high << n) | (low >>> (32 - n))) >>> 0,
+    ((low << n) | (high >>> (32 - n))) >>> 0
+  ];
+}
+
+/**
+ * Apply the Keccak-f[1600] permutation to a state of 25 lanes
+ */
+function keccakPermute(high: Uint32Array, low: Uint32Array): void {
+  const columnHigh = new Uint32Array(5);
+  const columnLow = new Uint32Array(5);
+  const movedHigh = new Uint32Array(25);
+  const movedLow = new Uint32Array(25);
+
+  for (const [constantHigh, constantLow] of ROUND_CONSTANTS) {
+    // Theta: mix each column with its neighbours
+    for (let x = 0; x < 5; x++) {
+      columnHigh[x] = high[x] ^ high[x + 5] ^ high[x + 10] ^ high[x + 15] ^ high[x + 20];
+      columnLow[x] = low[x] ^ low[x + 5] ^ low[x + 10] ^ low[x + 15] ^ low[x + 20];
+    }
+    for (let x = 0; x < 5; x++) {
+      const [rotatedHigh, rotatedLow] = rotateLane(columnHigh[(x + 1) % 5], columnLow[(x + 1) % 5], 1);
+      const mixHigh = columnHigh[(x + 4) % 5] ^ rotatedHigh;
+      const mixLow = columnLow[(x + 4) % 5] ^ rotatedLow;
+      for (let y = 0; y < 25; y += 5) {
+        high[x + y] ^= mixHigh;
+        low[x + y] ^= mixLow;
+      }
+    }
+
+    // Rho and pi: rotate each lane and move it to its new position
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        const [rotatedHigh, rotatedLow] = rotateLane(high[x + 5 * y], low[x + 5 * y], ROTATIONS[x + 5 * y]);
+        const target = y + 5 * ((2 * x + 3 * y) % 5);
+        movedHigh[target] = rotatedHigh;
+        movedLow[target] = rotatedLow;
+      }
+    }
+
+    // Chi: combine each lane with the next two in its row
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        high[x + y] = movedHigh[x + y] ^ (~movedHigh[(x + 1) % 5 + y] & movedHigh[(x + 2) % 5 + y]);
+        low[x + y] = movedLow[x + y] ^ (~movedLow[(x + 1) % 5 + y] & movedLow[(x + 2) % 5 + y]);
+      }
+    }
+
+    // Iota
+    high[0] ^= constantHigh;
+    low[0] ^= constantLow;
+  }
+}
+
+/**
+ * Keccak-256 as used by Ethereum, which pads differently from the standardized SHA3-256
+ * @param data Bytes to hash
+ * @returns The 32-byte digest
+ */
+export function keccak256(data: Buffer): Buffer {
+  const high = new Uint32Array(25);
+  const low = new Uint32Array(25);
+
+  // Pad with 0x01 ... 0x80 to a whole number of blocks
+  const blocks = Math.floor(data.length / KECCAK_RATE_BYTES) + 1;
+  const padded = Buffer.alloc(blocks * KECCAK_RATE_BYTES);
+  data.copy(padded);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  for (let offset = 0; offset < padded.length; offset += KECCAK_RATE_BYTES) {
+    for (let lane = 0; lane < KECCAK_RATE_BYTES / 8; lane++) {
+      low[lane] ^= padded.readUInt32LE(offset + lane * 8);
+      high[lane] ^= padded.readUInt32LE(offset + lane * 8 + 4);
+    }
+    keccakPermute(high, low);
+  }
+
+  const digest = Buffer.alloc(32);
+  for (let lane = 0; lane < 4; lane++) {
+    digest.writeUInt32LE(low[lane], lane * 8);
+    digest.writeUInt32LE(high[lane], lane * 8 + 4);
+  }
+  return digest;
+}
+
+/**
+ * Capitalize an EVM address as its EIP-55 checksum prescribes
+ * @param address Address of 0x and 40 hex characters, in any case
+ * @returns The checksummed address
+ */
+export function toChecksumAddress(address: string): string {
+  const hex = address.slice(2).toLowerCase();
+  const hash = keccak256(Buffer.from(hex, 'ascii')).toString('hex');
+
+  return '0x' + [...hex].map((char, i) => parseInt(hash[i], 16) >= 8 ? char.toUpperCase() : char).join('');
+}
+
+/**
+ * Whether the capitalization of an EVM address matches its EIP-55 checksum
+ *
+ * All-lowercase and all-uppercase addresses carry no checksum and are accepted.
+ */
+export function hasValidChecksum(address: string): boolean {
+  const hex = address.slice(2);
+  if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) return true;
+  return toChecksumAddress(address) === address;
+}
+
+/**
+ * Whether text is a Solana address: base58 for 32 bytes
+ */
+export function isSolanaAddress(text: string): boolean {
+  return fromBase58(text)?.length === SOLANA_ADDRESS_BYTES;
+}
+
+/**
+ * Whether text has the shape of an EVM address, regardless of its checksum
+ */
+export function isEvmAddress(text: string): boolean {
+  return EVM_ADDRESS_REGEX.test(text);
+}
+
+/**
+ * Detect which address format text is in
+ * @param text Address as entered
+ * @returns The family whose format it matches, or null
+ */
+export function addressFamily(text: string): AddressFamily | null {
+  if (isEvmAddress(text)) return 'evm';
+  if (isSolanaAddress(text)) return 'solana';
+  return null;
+}
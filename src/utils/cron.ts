@@ -0,0 +1,153 @@
+/**
+ * A parsed five-field cron expression, evaluated in UTC
+ */
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  // 0 is Sunday
+  weekdays: Set<number>;
+  // L in the day-of-month field: the last day of each month
+  lastDay: boolean;
+  // Standard cron runs on either day when both day fields are restricted
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  // 7 is accepted for Sunday, as most cron implementations do
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] }
+];
+
+// How far ahead nextCronRun looks; enough for expressions that only match on 29 February
+const SEARCH_YEARS = 8;
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Parse a cron expression of the form "minute hour day-of-month month day-of-week"
+ *
+ * Fields accept *, numbers, ranges (1-5), steps (*\/15, 1-10/2), lists (1,15)
+ * and month or weekday names. The day of month may also be L for the last day.
+ * @param source - The expression
+ * @throws Error naming the field that could not be parsed
+ */
+export function parseCron(source: string): CronExpression {
+  const parts = source.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`A cron expression has ${FIELDS.length} fields (minute hour day month weekday), not ${parts.length}`);
+  }
+
+  const lastDay = /^l$/i.test(parts[2]);
+  const [minutes, hours, days, months, weekdays] = parts.map((part, index) =>
+    index === 2 && lastDay ? new Set<number>() : parseField(part, FIELDS[index]));
+
+  // Sunday may be written as 0 or 7
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    source: parts.join(' '),
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    lastDay,
+    daysRestricted: parts[2] !== '*',
+    weekdaysRestricted: parts[4] !== '*'
+  };
+}
+
+/**
+ * Values matched by one field
+ */
+function parseField(part: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+  const invalid = () => new Error(`Invalid ${field.name} "${part}"; use numbers from ${field.min} to ${field.max}`);
+
+  for (const item of part.toLowerCase().split(',')) {
+    const match = item.match(/^(\*|[a-z0-9]+)(?:-([a-z0-9]+))?(?:\/(\d+))?$/);
+    if (!match) throw invalid();
+
+    const [, start, end, step] = match;
+    const from = start === '*' ? field.min : parseValue(start, field);
+    const to = start === '*' ? field.max : end !== undefined ? parseValue(end, field) : step ? field.max : from;
+    const increment = step ? parseInt(step, 10) : 1;
+
+    if (from === undefined || to === undefined || from > to || increment < 1 || (start === '*' && end !== undefined)) {
+      throw invalid();
+    }
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(text: string, field: CronField): number | undefined {
+  const named = field.names?.indexOf(text.slice(0, 3));
+  const value = /^\d+$/.test(text)
+    ? parseInt(text, 10)
+    : named !== undefined && named !== -1 && text.length >= 3 ? named + (field.name === 'month' ? 1 : 0) : NaN;
+
+  return value >= field.min && value <= field.max ? value : undefined;
+}
+
+/**
+ * Whether an expression runs on a UTC date
+ */
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const day = date.getUTCDate();
+  const lastOfMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  const dayMatches = cron.days.has(day) || (cron.lastDay && day === lastOfMonth);
+  const weekdayMatches = cron.weekdays.has(date.getUTCDay());
+
+  if (cron.daysRestricted && cron.weekdaysRestricted) {
+    return dayMatches || weekdayMatches;
+  }
+  return dayMatches && weekdayMatches;
+}
+
+/**
+ * The first time after a moment at which a cron expression runs
+ * @param cron - Parsed expression
+ * @param after - Runs at or before this moment are not returned
+ * @returns The next run, or null if the expression never runs (e.g. 31 February)
+ */
+export function nextCronRun(cron: CronExpression, after: Date): Date | null {
+  // Runs fall on whole minutes
+  const date = new Date(Math.floor(after.getTime() / MINUTE) * MINUTE + MINUTE);
+  const limit = after.getUTCFullYear() + SEARCH_YEARS;
+
+  while (date.getUTCFullYear() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import { config } from '../config';
+
+// Marks values written by encryptValue: enc:v1:<keyId>:<iv>:<tag>:<ciphertext>
+const PREFIX = 'enc:v1:';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+// Context string keeping session keys apart from other uses of the secret
+const KEY_INFO = 'copperx-telegram-bot/session-encryption';
+
+/**
+ * A derived encryption key and its public identifier
+ */
+interface SessionKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Result of decrypting a stored value
+ */
+export interface DecryptedValue {
+  plaintext: string;
+  // Encrypted with a previous key and should be written again
+  stale: boolean;
+}
+
+// Derived keys by secret, since derivation runs on every read
+const derivedKeys = new Map<string, SessionKey>();
+
+/**
+ * Whether a stored value was written by encryptValue
+ */
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+/**
+ * Encrypt a value with the current session key
+ * @param plaintext - Value to protect
+ * @param context - Storage key the value is bound to, so it cannot be moved to another key
+ * @returns The encoded ciphertext
+ */
+export function encryptValue(plaintext: string, context: string): string {
+  const { id, key } = currentKey();
+  const iv = crypto.randomBytes(IV_BYTES);
+
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(context));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return PREFIX + [id, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => typeof part === 'string' ? part : part.toString('base64url'))
+    .join(':');
+}
+
+/**
+ * Decrypt a value written by encryptValue with the current or a previous key
+ * @param value - Encoded ciphertext
+ * @param context - Storage key the value was encrypted for
+ * @throws If the key is unknown or the value was tampered with
+ */
+export function decryptValue(value: string, context: string): DecryptedValue {
+  const parts = value.slice(PREFIX.length).split(':');
+  if (!isEncrypted(value) || parts.length !== 4) {
+    throw new Error('Malformed encrypted value');
+  }
+
+  const [keyId, iv, tag, ciphertext] = parts;
+  const sessionKey = allKeys().find((candidate) => candidate.id === keyId);
+  if (!sessionKey) {
+    throw new Error(`Value was encrypted with unknown key ${keyId}`);
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, sessionKey.key, Buffer.from(iv, 'base64url'));
+  decipher.setAAD(Buffer.from(context));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64url')),
+    decipher.final()
+  ]).toString('utf8');
+
+  return { plaintext, stale: keyId !== currentKey().id };
+}
+
+function currentKey(): SessionKey {
+  if (!config.session.secret) {
+    throw new Error('SESSION_SECRET must be set to encrypt sessions');
+  }
+  return deriveKey(config.session.secret);
+}
+
+function allKeys(): SessionKey[] {
+  return [currentKey(), ...config.session.previousSecrets.map(deriveKey)];
+}
+
+/**
+ * Derive a 256-bit key from a secret with HKDF
+ */
+function deriveKey(secret: string): SessionKey {
+  let derived = derivedKeys.get(secret);
+
+  if (!derived) {
+    const key = Buffer.from(crypto.hkdfSync('sha256', secret, '', KEY_INFO, 32));
+    // The ID names the key without revealing it
+    const id = crypto.createHash('sha256').update(key).digest('base64url').slice(0, 8);
+    derived = { id, key };
+    derivedKeys.set(secret, derived);
+  }
+
+  return derived;
+}
@@ -1,4 +1,4 @@
-import { TransferResult, Transfer, ApiResponse } from '../types/index';
+import { TransferResult, Transfer, PayoutDestination, BankAccount } from '../types';
 
 /**
  * Utility functions for formatting values
@@ -94,7 +94,7 @@ export function formatCurrency(amount: number | string, decimals = 2): string {
  * @param result - Transfer result object
  * @returns Formatted transfer message
  */
-export function formatTransferResult(result: ApiResponse<TransferResult>): string {
+export function formatTransferResult(result: TransferResult): string {
   if (!result.success || !result.data) {
     return `❌ Transfer Failed\n${result.error || 'Unknown error'}`;
   }
@@ -108,15 +108,58 @@ Status: ${transferData.status}
 Date: ${formatDate(new Date())}`;
 }
 
+/**
+ * Formats a time in UTC, the time zone of schedules, limits and lockouts
+ * @param time - Time in milliseconds
+ * @returns Formatted time, e.g. "Mon, Nov 2, 2026, 09:00 UTC"
+ */
+export function formatUtcTime(time: number): string {
+  return `${formatDate(new Date(time), {
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone: 'UTC'
+  })} UTC`;
+}
+
+/**
+ * Formats where a payout goes: the email, or the shortened address and its network
+ * @param destination - Email recipient or wallet address
+ * @returns Formatted destination
+ */
+export function formatPayoutDestination(destination: PayoutDestination): string {
+  return destination.kind === 'email'
+    ? destination.email
+    : `${formatWalletAddress(destination.address)} (${destination.network})`;
+}
+
+/**
+ * Formats a bank account with only the last digits of its number
+ * @param account - Bank account to format
+ * @returns Formatted account, e.g. "Mock Bank ••••1234 (USD, USA)"
+ */
+export function formatBankAccount(account: BankAccount): string {
+  const digits = account.accountNumber.replace(/[^0-9A-Za-z]/g, '');
+  // Bullets rather than asterisks, which Markdown would take for bold
+  const number = digits ? ` ••••${digits.slice(-4)}` : '';
+  const location = [account.currency, account.country].filter(Boolean).join(', ');
+  return `${account.bankName}${number} (${location})`;
+}
+
 /**
  * Formats a transaction history item into a readable message
  * @param transaction - Transaction history item
  * @returns Formatted transaction message
  */
 export function formatTransactionHistoryItem(transaction: Transfer): string {
-  const direction = transaction.type === 'email' ? '📧 Email Transfer' : 
-                   transaction.type === 'wallet' ? '💳 Wallet Transfer' : 
-                   '🏦 Bank Transfer';
+  const direction = transaction.type === 'send' ? '📧 Email Transfer' : 
+                   transaction.type === 'withdraw' ? '💳 Wallet Transfer' : 
+                   transaction.type === 'offramp' ? '🏦 Bank Transfer' :
+                   '🔄 Transfer';
   const status = getStatusEmoji(transaction.status);
   
   return `${direction} ${status}
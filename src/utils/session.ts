@@ -0,0 +1,267 @@
+import { AuthToken } from '../types';
+import { ConversationState } from '../conversations';
+import { config } from '../config';
+import { getStore } from '../store';
+import { decryptValue, encryptValue, isEncrypted } from './crypto';
+import { logger } from './logger';
+
+// Key prefix for user sessions
+const SESSION_PREFIX = 'user_session:';
+
+// Key prefix for conversation state
+const CONVERSATION_PREFIX = 'conversation:';
+
+// Key prefix for inline keyboard nonces
+const CALLBACK_NONCE_PREFIX = 'callback_nonce:';
+
+// Key prefix for answers to repeated taps, followed by the chat and message ID
+const CALLBACK_RECEIPT_PREFIX = 'callback_receipt:';
+
+/**
+ * Store user session, encrypted so a dump of the store does not expose tokens
+ * @param userId - User ID (Telegram ID)
+ * @param token - Authentication token object
+ * @param expiryInSeconds - Optional TTL in seconds (default: 24 hours)
+ */
+export async function storeUserSession(
+  userId: number,
+  token: AuthToken,
+  expiryInSeconds: number = 60 * 60 * 24
+): Promise<void> {
+  try {
+    const key = `${SESSION_PREFIX}${userId}`;
+    await getStore().set(key, encryptValue(JSON.stringify(token), key), expiryInSeconds);
+
+    logger.debug(`Stored session for user ${userId} with expiry ${expiryInSeconds}s`);
+  } catch (error) {
+    logger.error(`Failed to store user session for ${userId}: ${error}`);
+    throw new Error(`Session storage failed: ${error}`);
+  }
+}
+
+/**
+ * Retrieve user session
+ *
+ * Sessions encrypted with a previous key or written before encryption are
+ * re-encrypted with the current key, keeping their remaining lifetime.
+ * @param userId - User ID (Telegram ID)
+ * @returns AuthToken or null if not found
+ */
+export async function getUserSession(userId: number): Promise<AuthToken | null> {
+  const key = `${SESSION_PREFIX}${userId}`;
+
+  try {
+    const data = await getStore().get(key);
+    if (!data) {
+      return null;
+    }
+
+    let plaintext = data;
+    let stale = true;
+
+    if (isEncrypted(data)) {
+      try {
+        ({ plaintext, stale } = decryptValue(data, key));
+      } catch (error) {
+        // Encrypted with a retired key or tampered with; the user has to log in again
+        logger.warn(`Discarding undecryptable session for ${userId}: ${error}`);
+        await getStore().del(key);
+        return null;
+      }
+    }
+
+    const token = JSON.parse(plaintext) as AuthToken;
+
+    if (stale) {
+      await reencryptSession(key, token);
+    }
+
+    return token;
+  } catch (error) {
+    logger.error(`Failed to retrieve user session for ${userId}: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Write a session again with the current key
+ */
+async function reencryptSession(key: string, token: AuthToken): Promise<void> {
+  const store = getStore();
+  const ttl = await store.ttl(key);
+
+  await store.set(key, encryptValue(JSON.stringify(token), key), ttl ?? undefined);
+  logger.info(`Re-encrypted session ${key} with the current key`);
+}
+
+/**
+ * Seconds until a user session expires
+ * @param userId - User ID (Telegram ID)
+ * @returns Remaining lifetime, or null if there is no session
+ */
+export async function getUserSessionTtl(userId: number): Promise<number | null> {
+  return getStore().ttl(`${SESSION_PREFIX}${userId}`);
+}
+
+/**
+ * Delete user session
+ * @param userId - User ID (Telegram ID)
+ */
+export async function deleteUserSession(userId: number): Promise<void> {
+  try {
+    await getStore().del(`${SESSION_PREFIX}${userId}`);
+    logger.debug(`Deleted session for user ${userId}`);
+  } catch (error) {
+    logger.error(`Failed to delete user session for ${userId}: ${error}`);
+    throw new Error(`Session deletion failed: ${error}`);
+  }
+}
+
+/**
+ * Check if a usable user session exists
+ * @param userId - User ID (Telegram ID)
+ * @returns boolean indicating if session exists and can be decrypted
+ */
+export async function hasUserSession(userId: number): Promise<boolean> {
+  return (await getUserSession(userId)) !== null;
+}
+
+/**
+ * Update the expiry time of an existing session
+ * @param userId - User ID (Telegram ID)
+ * @param expiryInSeconds - New TTL in seconds
+ * @returns boolean indicating success
+ */
+export async function updateSessionExpiry(
+  userId: number,
+  expiryInSeconds: number = 60 * 60 * 24
+): Promise<boolean> {
+  try {
+    return await getStore().expire(`${SESSION_PREFIX}${userId}`, expiryInSeconds);
+  } catch (error) {
+    logger.error(`Failed to update session expiry for ${userId}: ${error}`);
+    return false;
+  }
+}
+
+
+/**
+ * Store conversation state
+ * @param userId - User ID (Telegram ID)
+ * @param state - Conversation state
+ * @param expiryInSeconds - Optional TTL in seconds (default: conversation TTL from config)
+ */
+export async function storeConversationState(
+  userId: number,
+  state: ConversationState,
+  expiryInSeconds: number = config.conversation.ttl
+): Promise<void> {
+  try {
+    await getStore().set(`${CONVERSATION_PREFIX}${userId}`, JSON.stringify(state), expiryInSeconds);
+  } catch (error) {
+    logger.error(`Failed to store conversation state for ${userId}: ${error}`);
+    throw new Error(`Conversation storage failed: ${error}`);
+  }
+}
+
+/**
+ * Retrieve conversation state
+ * @param userId - User ID (Telegram ID)
+ * @returns ConversationState or null if there is no active conversation
+ */
+export async function getConversationState(userId: number): Promise<ConversationState | null> {
+  try {
+    const data = await getStore().get(`${CONVERSATION_PREFIX}${userId}`);
+    if (!data) {
+      return null;
+    }
+
+    return JSON.parse(data) as ConversationState;
+  } catch (error) {
+    logger.error(`Failed to retrieve conversation state for ${userId}: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Delete conversation state
+ * @param userId - User ID (Telegram ID)
+ */
+export async function deleteConversationState(userId: number): Promise<void> {
+  try {
+    await getStore().del(`${CONVERSATION_PREFIX}${userId}`);
+  } catch (error) {
+    logger.error(`Failed to delete conversation state for ${userId}: ${error}`);
+    throw new Error(`Conversation deletion failed: ${error}`);
+  }
+}
+
+/**
+ * Store a single-use callback nonce
+ * @param nonce - Nonce embedded in an inline keyboard
+ * @param userId - User ID (Telegram ID) the keyboard was sent to
+ * @param expiryInSeconds - Optional TTL in seconds (default: callback TTL from config)
+ */
+export async function storeCallbackNonce(
+  nonce: string,
+  userId: number,
+  expiryInSeconds: number = config.callbacks.ttl
+): Promise<void> {
+  try {
+    await getStore().set(`${CALLBACK_NONCE_PREFIX}${nonce}`, String(userId), expiryInSeconds);
+  } catch (error) {
+    logger.error(`Failed to store callback nonce for ${userId}: ${error}`);
+    throw new Error(`Callback nonce storage failed: ${error}`);
+  }
+}
+
+/**
+ * Consume a callback nonce so it cannot be used again
+ * @param nonce - Nonce embedded in an inline keyboard
+ * @returns boolean indicating whether the nonce was still valid
+ */
+export async function consumeCallbackNonce(nonce: string): Promise<boolean> {
+  try {
+    // Deletion is atomic, so only the first tap sees the key
+    return await getStore().del(`${CALLBACK_NONCE_PREFIX}${nonce}`);
+  } catch (error) {
+    logger.error(`Failed to consume callback nonce: ${error}`);
+    return false;
+  }
+}
+
+/**
+ * Store the answer to repeated taps on the spent keyboard of a message
+ * @param userId - User ID (Telegram ID)
+ * @param messageId - Message carrying the keyboard
+ * @param text - Answer shown to the user
+ * @param expiryInSeconds - Optional TTL in seconds (default: callback TTL from config)
+ */
+export async function storeCallbackReceipt(
+  userId: number,
+  messageId: number,
+  text: string,
+  expiryInSeconds: number = config.callbacks.ttl
+): Promise<void> {
+  try {
+    await getStore().set(`${CALLBACK_RECEIPT_PREFIX}${userId}:${messageId}`, text, expiryInSeconds);
+  } catch (error) {
+    // Repeated taps then get the generic answer
+    logger.error(`Failed to store callback receipt for ${userId}: ${error}`);
+  }
+}
+
+/**
+ * Get the answer to repeated taps on the spent keyboard of a message
+ * @param userId - User ID (Telegram ID)
+ * @param messageId - Message carrying the keyboard
+ * @returns The answer, or null if none was stored
+ */
+export async function getCallbackReceipt(userId: number, messageId: number): Promise<string | null> {
+  try {
+    return await getStore().get(`${CALLBACK_RECEIPT_PREFIX}${userId}:${messageId}`);
+  } catch (error) {
+    logger.error(`Failed to get callback receipt for ${userId}: ${error}`);
+    return null;
+  }
+}
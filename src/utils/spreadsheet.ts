@@ -0,0 +1,315 @@
+import zlib from 'zlib';
+
+/**
+ * Rows of a sheet as cell text; rows keep their position, so empty rows are empty arrays
+ */
+export type SheetRows = string[][];
+
+// Delimiters tried when reading CSV, in order of preference
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+// ZIP record signatures
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Worksheet read when the workbook does not say which sheet comes first
+const DEFAULT_SHEET = 'xl/worksheets/sheet1.xml';
+
+// Largest unpacked workbook part read; a full batch sheet is a few hundred kilobytes at most
+const MAX_XLSX_PART_SIZE = 4 * 1024 * 1024;
+
+// Columns read from each row (A to Z); cells further right are ignored
+const MAX_SHEET_COLUMNS = 26;
+
+/**
+ * Where a file sits in a ZIP archive, from its central directory entry
+ */
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  size: number;
+  // Start of the file's data
+  start: number;
+}
+
+/**
+ * Thrown when a worksheet holds values below the last row read
+ */
+export class SheetTooLargeError extends Error {
+  constructor(public readonly maxRows: number) {
+    super(`The sheet has values below row ${maxRows}`);
+  }
+}
+
+/**
+ * Parse CSV text, detecting whether commas, semicolons or tabs separate the fields
+ *
+ * Quoted fields may contain delimiters, line breaks and doubled quotes.
+ * @param text - File contents
+ */
+export function parseCsv(text: string): SheetRows {
+  const source = text.replace(/^﻿/, '');
+  const delimiter = detectDelimiter(source);
+  const rows: SheetRows = [];
+
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row.some(Boolean) ? row : []);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row.some(Boolean) ? row : []);
+  }
+
+  return rows;
+}
+
+/**
+ * Pick the delimiter that occurs most often outside quotes on the first line
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  const counts = CSV_DELIMITERS.map((delimiter) => firstLine.split(delimiter).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? CSV_DELIMITERS[best] : ',';
+}
+
+/**
+ * Write rows as CSV, quoting fields where needed
+ */
+export function toCsv(rows: SheetRows): string {
+  return rows
+    .map((row) => row.map((field) => /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+/**
+ * Read the first worksheet of an .xlsx workbook
+ *
+ * Cell values are read as stored; formulas give their last calculated
+ * value and dates come out as Excel serial numbers.
+ * @param data - File contents
+ * @param maxRows - Last row read; empty rows below it are dropped
+ * @throws If the file is not a readable workbook
+ * @throws SheetTooLargeError if a row below maxRows holds values
+ */
+export function readXlsx(data: Buffer, maxRows: number): SheetRows {
+  // Only the parts read below are unpacked, so other entries cannot exhaust memory
+  const entries = readZipDirectory(data);
+  const read = (name: string) => {
+    const entry = entries.get(name);
+    return entry && extractZipEntry(data, name, entry).toString('utf8');
+  };
+
+  const sharedStrings = [...(read('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map((match) => textContent(match[1]));
+
+  const sheet = read(firstSheetPath(read('xl/workbook.xml'), read('xl/_rels/workbook.xml.rels')) ?? DEFAULT_SHEET)
+    ?? read(DEFAULT_SHEET);
+  if (!sheet) {
+    throw new Error('The workbook has no worksheet');
+  }
+
+  const rows: SheetRows = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    // Rows only move down, so each one read takes at least one more position
+    const number = Math.max(Number(attribute(rowMatch[1], 'r')) || 0, rows.length + 1);
+    const row: string[] = [];
+
+    for (const cell of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = attribute(cell[1], 'r');
+      const column = reference ? columnIndex(reference) : row.length;
+      if (column >= MAX_SHEET_COLUMNS) continue;
+      row[column] = cellValue(attribute(cell[1], 't'), cell[2] ?? '', sharedStrings);
+    }
+
+    const values = Array.from(row, (value) => value ?? '');
+    if (number > maxRows) {
+      if (values.some(Boolean)) {
+        throw new SheetTooLargeError(maxRows);
+      }
+      break;
+    }
+
+    while (rows.length < number - 1) rows.push([]);
+    rows.push(values.some(Boolean) ? values : []);
+  }
+
+  return rows;
+}
+
+/**
+ * Path of the first sheet listed in the workbook
+ */
+function firstSheetPath(workbook?: string, relationships?: string): string | undefined {
+  const sheet = workbook?.match(/<sheet\b[^>]*>/)?.[0];
+  const id = sheet && attribute(sheet, 'r:id');
+  if (!id || !relationships) return undefined;
+
+  const relationship = [...relationships.matchAll(/<Relationship\b[^>]*>/g)]
+    .map((match) => match[0])
+    .find((tag) => attribute(tag, 'Id') === id);
+  const target = relationship && attribute(relationship, 'Target');
+  if (!target) return undefined;
+
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Text of a cell, resolving shared and inline strings
+ */
+function cellValue(type: string | undefined, body: string, sharedStrings: string[]): string {
+  if (type === 'inlineStr') {
+    return textContent(body);
+  }
+
+  const value = decodeXml(body.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '');
+  if (type === 's') {
+    return sharedStrings[Number(value)] ?? '';
+  }
+  if (type === 'str' || type === 'b' || type === 'e' || value === '') {
+    return value;
+  }
+
+  // Excel shows 15 significant digits; more only exposes binary rounding, e.g. 0.30000000000000004
+  return String(Number(Number(value).toPrecision(15)));
+}
+
+/**
+ * Concatenated text runs of a string item
+ */
+function textContent(xml: string): string {
+  return [...xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map((match) => decodeXml(match[1])).join('');
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+/**
+ * Zero-based column of a cell reference such as "AB12"
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? 'A';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+    }
+  });
+}
+
+/**
+ * List the files of a ZIP archive without unpacking them
+ * @throws If a record is malformed or points outside the archive
+ */
+function readZipDirectory(data: Buffer): Map<string, ZipEntry> {
+  // The end of central directory record sits at the end, before an optional comment of up to 64 KB
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  const count = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > end || data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const size = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString('utf8', offset + 46, Math.min(end, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (localOffset + 30 > end || data.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry ${name}`);
+    }
+    const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    if (start + compressedSize > end) {
+      throw new Error(`Corrupt ZIP entry ${name}`);
+    }
+
+    entries.set(name, { method, compressedSize, size, start });
+  }
+
+  return entries;
+}
+
+/**
+ * Unpack a stored or deflated file of a ZIP archive
+ * @throws If the file is larger than MAX_XLSX_PART_SIZE unpacked, or uses another compression method
+ */
+function extractZipEntry(data: Buffer, name: string, entry: ZipEntry): Buffer {
+  // The declared size is checked first, and inflating stops at the limit should it be false
+  if (entry.size > MAX_XLSX_PART_SIZE) {
+    throw new Error(`ZIP entry ${name} is too large`);
+  }
+
+  const content = data.subarray(entry.start, entry.start + entry.compressedSize);
+  if (entry.method === 0) {
+    return content;
+  }
+  if (entry.method !== 8) {
+    throw new Error(`ZIP entry ${name} uses unsupported compression`);
+  }
+
+  try {
+    return zlib.inflateRawSync(content, { maxOutputLength: MAX_XLSX_PART_SIZE });
+  } catch (error) {
+    throw new Error(`ZIP entry ${name} could not be unpacked: ${(error as Error).message}`);
+  }
+}
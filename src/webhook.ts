@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import http from 'http';
+import TelegramBot from 'node-telegram-bot-api';
+import { config } from './config';
+import { logger } from './utils/logger';
+
+// Header Telegram uses to echo the secret token given to setWebHook
+const SECRET_HEADER = 'x-telegram-bot-api-secret-token';
+
+// Largest update body accepted (Telegram updates are far smaller)
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Start the HTTP server receiving Telegram updates and register the webhook
+ * @param bot - The Telegram bot instance (created without polling)
+ * @returns The listening HTTP server
+ */
+export async function startWebhookServer(bot: TelegramBot): Promise<http.Server> {
+  const { url, path, port, secret } = config.bot.webhook;
+
+  if (!url) {
+    throw new Error('WEBHOOK_URL is required when BOT_MODE=webhook');
+  }
+  if (!secret) {
+    throw new Error('WEBHOOK_SECRET is required when BOT_MODE=webhook');
+  }
+
+  const server = http.createServer((req, res) => {
+    handleRequest(bot, req, res).catch((error) => {
+      logger.error('Error handling webhook request:', error);
+      if (!res.headersSent) {
+        res.writeHead(500).end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  logger.info(`Webhook server listening on port ${port}`);
+
+  const webhookUrl = `${url.replace(/\/$/, '')}${path}`;
+  await bot.setWebHook(webhookUrl, { secret_token: secret });
+  logger.info(`Webhook registered at ${webhookUrl}`);
+
+  return server;
+}
+
+/**
+ * Deregister the webhook and close the HTTP server
+ * @param bot - The Telegram bot instance
+ * @param server - Server returned by startWebhookServer
+ */
+export async function stopWebhookServer(bot: TelegramBot, server: http.Server): Promise<void> {
+  try {
+    await bot.deleteWebHook();
+    logger.info('Webhook deregistered');
+  } catch (error) {
+    logger.error('Error deregistering webhook:', error);
+  }
+
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  logger.info('Webhook server closed');
+}
+
+/**
+ * Verify and feed a single webhook request into the bot
+ */
+async function handleRequest(
+  bot: TelegramBot,
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  const requestPath = (req.url || '').split('?')[0];
+
+  // Health check for the load balancer
+  if (req.method === 'GET' && requestPath === '/health') {
+    res.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok');
+    return;
+  }
+
+  if (requestPath !== config.bot.webhook.path) {
+    res.writeHead(404).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.writeHead(405, { Allow: 'POST' }).end();
+    return;
+  }
+
+  if (!isValidSecret(req.headers[SECRET_HEADER])) {
+    logger.warn(`Rejected webhook request with invalid secret token from ${req.socket.remoteAddress}`);
+    res.writeHead(401).end();
+    return;
+  }
+
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+    res.writeHead(413, { Connection: 'close' }).end();
+    return;
+  }
+
+  let update: TelegramBot.Update;
+  try {
+    const body = await readBody(req);
+    if (body === null) {
+      res.writeHead(413, { Connection: 'close' }).end();
+      return;
+    }
+    update = JSON.parse(body);
+  } catch (error) {
+    logger.warn('Rejected webhook request with invalid body:', error);
+    res.writeHead(400).end();
+    return;
+  }
+
+  // Acknowledge first so Telegram does not redeliver slow updates
+  res.writeHead(200).end();
+  bot.processUpdate(update);
+}
+
+/**
+ * Compare the secret token header in constant time
+ */
+function isValidSecret(header: string | string[] | undefined): boolean {
+  if (typeof header !== 'string') return false;
+
+  const expected = Buffer.from(config.bot.webhook.secret);
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Read a request body up to MAX_BODY_BYTES
+ * @returns The body, or null once it grows past the limit; the rest is discarded
+ */
+function readBody(req: http.IncomingMessage): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        chunks.length = 0;
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { E2EHarness, startHarness } from '../support/harness';
+
+describe('bank withdrawals', () => {
+  let harness: E2EHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('pays out to the bank account picked from the saved ones', async () => {
+    const alice = harness.bot.user(11001);
+    await harness.login(alice, 'alice@example.com');
+    const account = harness.mock.getAccounts()[0];
+    const balance = account.wallets[0].balance;
+
+    alice.say('/withdraw bank');
+    const picker = await alice.expectReply('choose the account');
+    assert.match(picker.text, /Mock Bank ••••1234 \(USD, USA\)\*\nMinimum: 10\.00 USDC · Arrives in 1-3 business days/);
+    assert.match(picker.text, /Mock Euro Bank ••••5678 \(EUR, DEU\)\*\nMinimum: 50\.00 USDC · Arrives in 1 business day/);
+    // Telegram refuses callback data over 64 bytes
+    for (const button of picker.replyMarkup!.inline_keyboard.flat()) {
+      assert.ok(Buffer.byteLength(button.callback_data!) <= 64);
+    }
+
+    await alice.tap('🏦 Mock Euro Bank ••••5678 (EUR, DEU)');
+    await alice.expectReply('enter the amount in USDC');
+    alice.say('20');
+    await alice.expectReply('minimum withdrawal to this account is 50.00 USDC');
+    alice.say('60');
+
+    const confirmation = await alice.expectReply('Bank Withdrawal Confirmation');
+    assert.match(confirmation.text, /To: Mock Euro Bank ••••5678 \(EUR, DEU\)/);
+    assert.match(confirmation.text, /Bank payout: 55\.20 EUR/);
+    await alice.tap('✅ Confirm');
+    const receipt = await alice.expectReply('Bank Withdrawal Initiated');
+    assert.match(receipt.text, /arrive in 1 business day/);
+
+    const refreshed = harness.mock.getAccounts()[0];
+    assert.equal(refreshed.transfers[0].recipient, 'Mock Euro Bank ****5678');
+    assert.equal(refreshed.wallets[0].balance, balance - 61);
+  });
+
+  it('refuses an amount below the minimum given with the command', async () => {
+    const alice = harness.bot.user(11002);
+    await harness.login(alice, 'alice@example.com');
+
+    alice.say('/withdraw bank 20');
+    await alice.expectReply('choose the account');
+    await alice.tap(/Mock Euro Bank/);
+    const confirmation = await alice.expectReply('Bank Withdrawal Confirmation');
+    assert.match(confirmation.text, /minimum withdrawal to this account is 50\.00 USDC/);
+    assert.deepEqual(confirmation.replyMarkup!.inline_keyboard[0].map((button) => button.text), ['❌ Cancel']);
+  });
+
+  it('explains when there is no bank account to withdraw to', async () => {
+    const bob = harness.bot.user(11003);
+    await harness.login(bob, 'bob@example.com');
+
+    bob.say('/withdraw bank 20');
+    await bob.expectReply('no bank account to withdraw to yet');
+
+    bob.say('/withdraw');
+    await bob.expectReply('select your withdrawal method');
+    await bob.tap('💳 To Bank Account');
+    await bob.expectReply('no bank account to withdraw to yet');
+  });
+});
@@ -0,0 +1,175 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { E2EHarness, startHarness } from '../support/harness';
+import { buildXlsx } from '../support/xlsx';
+
+describe('batch payouts', () => {
+  let harness: E2EHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('validates rows, summarizes against the balance and pays everyone', async () => {
+    const alice = harness.bot.user(4001);
+    await harness.login(alice, 'alice@example.com');
+
+    alice.say('/sendbatch');
+    await alice.expectReply('Batch Payout');
+    alice.say('bob@example.com, 10, March invoice\nnot-an-email, 5\ncarol@example.com, lots');
+    const problems = await alice.expectReply('Please fix these lines');
+    assert.match(problems.text, /Line 2: .*valid email/);
+    assert.match(problems.text, /Line 3: .*valid amount/);
+
+    alice.say('bob@example.com, 10, March invoice\ncarol@example.com 2.5');
+    const summary = await alice.expectReply('Batch Payout Confirmation');
+    assert.match(summary.text, /Payments: 2/);
+    assert.match(summary.text, /Total: 12\.50 USDC/);
+    assert.match(summary.text, /Balance: 1000\.00 USDC/);
+
+    await alice.tap('✅ Confirm');
+    const report = await alice.expectReply('Batch Payout Complete');
+    assert.match(report.text, /Sent: 2 of 2 \(12\.50 USDC\)/);
+
+    const [aliceAccount, bobAccount, carolAccount] = harness.mock.getAccounts();
+    assert.equal(aliceAccount.wallets[0].balance, 987.5);
+    assert.equal(bobAccount.wallets[0].balance, 60);
+    assert.equal(carolAccount.wallets[0].balance, 2.5);
+  });
+
+  it('reports payments that fail on their own', async () => {
+    const bob = harness.bot.user(4002);
+    await harness.login(bob, 'bob@example.com');
+
+    bob.say('/sendbatch alice@example.com, 30\ncarol@example.com, 25, Rent');
+    await bob.expectReply('Batch Payout Confirmation');
+
+    // The balance drops after the summary, so only the first payment can be covered
+    harness.mock.getAccounts()[1].wallets[0].balance = 40;
+
+    await bob.tap('✅ Confirm');
+    const report = await bob.expectReply('Batch Payout Partially Complete');
+    assert.match(report.text, /✅ alice@example\.com/);
+    assert.match(report.text, /❌ carol@example\.com .*Insufficient balance/);
+    assert.match(report.text, /Sent: 1 of 2 \(30\.00 USDC\)/);
+    assert.match(report.text, /carol@example\.com, 25, Rent/);
+  });
+
+  it('requires an approved KYC', async () => {
+    const carol = harness.bot.user(4003);
+    await harness.login(carol, 'carol@example.com');
+
+    carol.say('/sendbatch');
+    await carol.expectReply('requires an approved KYC');
+  });
+
+  it('refuses a batch larger than the balance', async () => {
+    const bob = harness.bot.user(4004);
+    await harness.login(bob, 'bob@example.com');
+
+    bob.say('/sendbatch alice@example.com, 500');
+    const summary = await bob.expectReply('Batch Payout Confirmation');
+    assert.match(summary.text, /exceeds your balance/);
+    assert.deepEqual(summary.replyMarkup?.inline_keyboard.flat().map((button) => button.text), ['❌ Cancel']);
+  });
+
+  it('checks an uploaded CSV and returns a corrected file', async () => {
+    const alice = harness.bot.user(4005);
+    await harness.login(alice, 'alice@example.com');
+
+    alice.upload('payouts.csv', [
+      'Note;Amount;Email',
+      '"Rent; April";25;bob@example.com',
+      'Invoice;abc;carol@example.com',
+      ';5;not-an-email',
+      'Again;25;BOB@example.com'
+    ].join('\n'));
+
+    const report = await alice.expectReply('Payout file checked: payouts.csv');
+    assert.match(report.text, /Rows: 4/);
+    assert.match(report.text, /Valid: 1 \(25\.00 USDC\)/);
+    assert.match(report.text, /Row 3: .*valid amount/);
+    assert.match(report.text, /Row 4: .*valid email/);
+    assert.match(report.text, /Row 5: .*Duplicate of row 2/);
+
+    const corrected = await alice.expectReply('Fix the rows with an issue');
+    assert.equal(corrected.document?.fileName, 'payouts-checked.csv');
+    assert.deepEqual(corrected.document?.content.toString('utf8').trim().split('\r\n'), [
+      'email,amount,note,issue',
+      'bob@example.com,25,Rent; April,',
+      'carol@example.com,abc,Invoice,"Please enter a valid amount (e.g., 10 or 10.5)"',
+      'not-an-email,5,,Please enter a valid email address.',
+      'BOB@example.com,25,Again,Duplicate of row 2; combine the payments into one row.'
+    ]);
+  });
+
+  it('pays the rows of an uploaded workbook', async () => {
+    const alice = harness.bot.user(4006);
+    await harness.login(alice, 'alice@example.com');
+
+    alice.upload('payouts.xlsx', buildXlsx([
+      ['Recipient', 'Amount (USDC)', 'Memo'],
+      ['bob@example.com', 0.1 + 0.2, 'Tip'],
+      [],
+      ['carol@example.com', 7, 'Refund & fees']
+    ]));
+
+    const report = await alice.expectReply('Payout file checked: payouts.xlsx');
+    assert.match(report.text, /Valid: 2 \(7\.30 USDC\)/);
+    assert.match(report.text, /Problems: 0/);
+
+    await alice.expectReply('Batch Payout Confirmation');
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('Batch Payout Complete');
+  });
+
+  it('refuses a workbook that unpacks to more than it should', async () => {
+    const alice = harness.bot.user(4007);
+    await harness.login(alice, 'alice@example.com');
+    // Five megabytes of one letter pack into a few kilobytes
+    const padding = 'x'.repeat(5 * 1024 * 1024);
+
+    alice.upload('large.xlsx', buildXlsx([['bob@example.com', 5, padding]]));
+    await alice.expectReply('Could not read large.xlsx');
+
+    alice.upload('bomb.xlsx', buildXlsx([['bob@example.com', 5, padding]], { understateSizes: true }));
+    await alice.expectReply('Could not read bomb.xlsx');
+  });
+
+  it('unpacks only the parts of a workbook it reads', async () => {
+    const alice = harness.bot.user(4008);
+    await harness.login(alice, 'alice@example.com');
+
+    alice.upload('payouts.xlsx', buildXlsx([['bob@example.com', 5, 'Tip']], {
+      extraFiles: { 'xl/media/image1.png': 'x'.repeat(5 * 1024 * 1024) },
+      understateSizes: true
+    }));
+    const report = await alice.expectReply('Payout file checked: payouts.xlsx');
+    assert.match(report.text, /Valid: 1 \(5\.00 USDC\)/);
+  });
+
+  it('reads only the rows and columns a batch can use', async () => {
+    const alice = harness.bot.user(4009);
+    await harness.login(alice, 'alice@example.com');
+    const cell = (reference: string, text: string) => `<c r="${reference}" t="inlineStr"><is><t>${text}</t></is></c>`;
+    const sheet = (rows: string) => ({
+      'xl/worksheets/sheet1.xml': `<worksheet><sheetData>${rows}</sheetData></worksheet>`
+    });
+    const header = `<row r="1">${cell('A1', 'email')}${cell('B1', 'amount')}</row>`;
+    const payment = `<row r="2">${cell('A2', 'bob@example.com')}${cell('B2', '5')}${cell('XFD2', 'far right')}</row>`;
+
+    // Far-right cells and empty rows at the bottom of the sheet are skipped
+    alice.upload('payouts.xlsx', buildXlsx([], { extraFiles: sheet(`${header}${payment}<row r="1048576"/>`) }));
+    const report = await alice.expectReply('Payout file checked: payouts.xlsx');
+    assert.match(report.text, /Valid: 1 \(5\.00 USDC\)/);
+
+    alice.upload('far.xlsx', buildXlsx([], {
+      extraFiles: sheet(`${header}${payment}<row r="1048576">${cell('A1048576', 'carol@example.com')}${cell('B1048576', '5')}</row>`)
+    }));
+    await alice.expectReply('far.xlsx is too long; only its first 70 rows are read. A batch can have at most 50 payments.');
+  });
+});
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { E2EHarness, eventually, startHarness } from '../support/harness';
+import { SentMessage } from '../support/fakeBot';
+
+describe('signed inline keyboards', () => {
+  let harness: E2EHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  function aliceBalance(): number {
+    return harness.mock.getAccounts()[0].wallets[0].balance;
+  }
+
+  // Deliver callback_data as if tapped in a chat, returning the answer shown
+  async function tapData(chatId: number, message: SentMessage, data: string): Promise<string | undefined> {
+    const queryId = harness.bot.injectCallback(chatId, message, data);
+    await eventually(() => harness.bot.answers.some((answer) => answer.queryId === queryId));
+    return harness.bot.answers.find((answer) => answer.queryId === queryId)!.text;
+  }
+
+  it('rejects forged and tampered callback data', async () => {
+    const alice = harness.bot.user(13001);
+    await harness.login(alice, 'alice@example.com');
+    const balance = aliceBalance();
+
+    alice.say('/send bob@example.com 10');
+    const confirmation = await alice.expectReply('Transfer Confirmation');
+    const cancelData = confirmation.replyMarkup!.inline_keyboard[0][1].callback_data!;
+    const [flow, step, , nonce, signature] = cancelData.split(':');
+
+    // The signature covers the action, so Cancel cannot be turned into Confirm
+    assert.equal(await tapData(13001, confirmation, [flow, step, 'confirm', nonce, signature].join(':')), 'This button is no longer valid.');
+    assert.equal(await tapData(13001, confirmation, [flow, step, 'confirm', nonce, 'AAAAAAAA'].join(':')), 'This button is no longer valid.');
+    assert.equal(await tapData(13001, confirmation, 'send:confirm:confirm'), 'This button is no longer valid.');
+    assert.equal(aliceBalance(), balance);
+
+    // Rejected taps do not spend the keyboard
+    await alice.tap('❌ Cancel');
+    await alice.expectReply('Transfer has been canceled');
+  });
+
+  it('rejects data signed for another chat', async () => {
+    const alice = harness.bot.user(13002);
+    const bob = harness.bot.user(13003);
+    await harness.login(alice, 'alice@example.com');
+    await harness.login(bob, 'bob@example.com');
+    const balance = aliceBalance();
+
+    alice.say('/send bob@example.com 10');
+    const confirmation = await alice.expectReply('Transfer Confirmation');
+    const confirmData = confirmation.replyMarkup!.inline_keyboard[0][0].callback_data!;
+
+    assert.equal(await tapData(13003, confirmation, confirmData), 'This button is no longer valid.');
+    assert.equal(aliceBalance(), balance);
+
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('Transfer Successful');
+    assert.equal(aliceBalance(), balance - 10);
+  });
+
+  it('rejects taps on a keyboard whose nonce has expired', async () => {
+    const alice = harness.bot.user(13004);
+    await harness.login(alice, 'alice@example.com');
+    const balance = aliceBalance();
+
+    const { config } = await import('../../src/config');
+    const original = config.callbacks.ttl;
+    config.callbacks.ttl = 1;
+
+    try {
+      alice.say('/send bob@example.com 10');
+      await alice.expectReply('Transfer Confirmation');
+      await new Promise((resolve) => setTimeout(resolve, 1100));
+
+      const answer = await alice.tap('✅ Confirm');
+      assert.equal(answer.text, 'This button has expired or was already used.');
+      assert.equal(aliceBalance(), balance);
+    } finally {
+      config.callbacks.ttl = original;
+    }
+  });
+});
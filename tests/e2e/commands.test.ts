@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { E2EHarness, eventually, startHarness } from '../support/harness';
+
+describe('command registry', () => {
+  let harness: E2EHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('builds /help and the Telegram menu from the same commands', async () => {
+    const user = harness.bot.user(3001);
+
+    user.say('/help');
+    const help = await user.expectReply('Copperx Payout Bot Commands');
+
+    assert.ok(harness.bot.commands.length > 0);
+    for (const { command, description } of harness.bot.commands) {
+      assert.match(help.text, new RegExp(`/${command}\\b.* - ${description}`));
+    }
+    assert.doesNotMatch(help.text, /\/support/);
+  });
+
+  it('describes a single command', async () => {
+    const user = harness.bot.user(3002);
+
+    user.say('/help setdefault');
+    const help = await user.expectReply('/setdefaultwallet');
+    assert.match(help.text, /Also available as \/setdefault/);
+    assert.match(help.text, /Requires login/);
+  });
+
+  it('runs exactly one handler per command', async () => {
+    const user = harness.bot.user(3003);
+
+    user.say('/wallets');
+    await user.expectReply('You need to be logged in');
+    user.say('/setdefault');
+    await user.expectReply('You need to be logged in');
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.equal(user.messages.length, 2);
+  });
+
+  it('rejects unknown commands and unexpected arguments', async () => {
+    const user = harness.bot.user(3004);
+
+    user.say('/walletsx');
+    await user.expectReply('Unknown command /walletsx');
+
+    user.say('/balance now');
+    await user.expectReply('Usage: /balance');
+  });
+
+  it('ignores commands addressed to another bot', async () => {
+    const user = harness.bot.user(3005);
+
+    user.say('/help@some_other_bot');
+    user.say('/start@copperx_test_bot');
+    await user.expectReply('Welcome to Copperx Payout Bot');
+
+    await eventually(() => user.messages.length === 1);
+    assert.doesNotMatch(user.messages[0].text, /Commands/);
+  });
+});
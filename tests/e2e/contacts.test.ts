@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { E2EHarness, EVM_ADDRESS, startHarness } from '../support/harness';
+
+describe('contacts', () => {
+  let harness: E2EHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('offers saved recipients in /send', async () => {
+    const alice = harness.bot.user(5001);
+    await harness.login(alice, 'alice@example.com');
+
+    alice.say('/contacts');
+    await alice.expectReply('no saved contacts yet');
+    await alice.tap('➕ Recipient');
+    await alice.expectReply("recipient's email address");
+    alice.say('bob@example.com');
+    await alice.expectReply('enter a name for bob@example.com');
+    alice.say('Bob');
+    await alice.expectReply('Saved Bob');
+
+    alice.say('/send');
+    await alice.expectReply('or pick a saved contact');
+    await alice.tap('👤 Bob');
+    await alice.expectReply('amount in USDC to send to bob@example.com');
+    alice.say('3');
+    await alice.expectReply('description');
+    alice.say('skip');
+    await alice.expectReply('Transfer Confirmation');
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('Transfer Successful');
+
+    // A saved recipient is not offered again
+    alice.say('/contacts');
+    await alice.expectReply('👤 Bob: bob@example.com');
+    assert.ok(!alice.messages.some((message) => message.text.includes('Save bob@example.com')));
+  });
+
+  it('offers to save a new recipient once after a transfer', async () => {
+    const alice = harness.bot.user(5002);
+    await harness.login(alice, 'alice@example.com');
+
+    alice.say('/send carol@example.com 2');
+    await alice.expectReply('Transfer Confirmation');
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('Transfer Successful');
+    await alice.expectReply('Save carol@example.com to your contacts?');
+    await alice.tap('Not now');
+    await alice.expectReply("won't offer to save it again");
+
+    alice.say('/send carol@example.com 2');
+    await alice.expectReply('Transfer Confirmation');
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('Transfer Successful');
+    alice.say('/contacts');
+    await alice.expectReply('Contacts');
+    assert.equal(alice.messages.filter((message) => message.text.includes('Save carol@example.com')).length, 1);
+  });
+
+  it('saves, picks, renames and removes withdrawal addresses', async () => {
+    const bob = harness.bot.user(5003);
+    await harness.login(bob, 'bob@example.com');
+
+    bob.say(`/withdraw wallet ${EVM_ADDRESS} 5 ethereum`);
+    await bob.expectReply('Withdrawal Confirmation');
+    await bob.tap('✅ Confirm');
+    await bob.expectReply('Withdrawal Initiated');
+    await bob.expectReply(`Save ${EVM_ADDRESS} to your contacts?`);
+    await bob.tap('💾 Save');
+    await bob.expectReply(`enter a name for ${EVM_ADDRESS}`);
+    bob.say('Cold wallet');
+    await bob.expectReply('Saved Cold wallet');
+
+    bob.say('/withdraw wallet');
+    await bob.expectReply('select the network');
+    await bob.tap('Ethereum');
+    await bob.expectReply('or pick a saved one');
+    await bob.tap('🔑 Cold wallet');
+    await bob.expectReply('amount in USDC to withdraw');
+    bob.say('4');
+    const confirmation = await bob.expectReply('Withdrawal Confirmation');
+    assert.match(confirmation.text, new RegExp(`To: ${EVM_ADDRESS}`));
+    assert.match(confirmation.text, /Network: ethereum/);
+    await bob.tap('❌ Cancel');
+
+    bob.say('/contacts');
+    await bob.expectReply(`🔑 Cold wallet: ${EVM_ADDRESS} (Ethereum)`);
+    await bob.tap('✏️ Rename');
+    await bob.expectReply('Which contact do you want to rename?');
+    await bob.tap('🔑 Cold wallet');
+    await bob.expectReply('new name for Cold wallet');
+    bob.say('x'.repeat(40));
+    await bob.expectReply('up to 32 characters');
+    bob.say('Ledger');
+    await bob.expectReply('Cold wallet is now called Ledger');
+
+    bob.say('/contacts');
+    await bob.expectReply('🔑 Ledger');
+    await bob.tap('🗑️ Remove');
+    await bob.expectReply('Which contact do you want to remove?');
+    await bob.tap('🔑 Ledger');
+    await bob.expectReply('Removed Ledger');
+
+    bob.say('/contacts');
+    await bob.expectReply('no saved contacts yet');
+  });
+});
@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { E2EHarness, eventually, startHarness } from '../support/harness';
+
+describe('duplicate transfer protection', () => {
+  let harness: E2EHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  function aliceBalance(): number {
+    return harness.mock.getAccounts()[0].wallets[0].balance;
+  }
+
+  it('shows progress on the confirmation and answers repeated taps with the outcome', async () => {
+    const alice = harness.bot.user(9001);
+    await harness.login(alice, 'alice@example.com');
+    const balance = aliceBalance();
+
+    alice.say('/send bob@example.com 10');
+    const confirmation = await alice.expectReply('Transfer Confirmation');
+    const confirmData = confirmation.replyMarkup!.inline_keyboard[0][0].callback_data!;
+    harness.mock.injectFailure({ endpoint: 'sendTransfer', delayMs: 300 });
+
+    const repeatTap = async () => {
+      const queryId = harness.bot.injectCallback(alice.chatId, confirmation, confirmData);
+      await eventually(() => harness.bot.answers.some((answer) => answer.queryId === queryId));
+      return harness.bot.answers.find((answer) => answer.queryId === queryId)!.text;
+    };
+
+    await alice.tap('✅ Confirm');
+    await eventually(() => confirmation.text.includes('⏳ Processing...'));
+    assert.equal(confirmation.replyMarkup, undefined);
+    assert.equal(await repeatTap(), '⏳ This is already being processed.');
+
+    await alice.expectReply('Transfer Successful');
+    await eventually(() => confirmation.text.includes('✅ Completed'));
+    assert.match(await repeatTap() ?? '', /already completed/);
+    assert.equal(aliceBalance(), balance - 10);
+  });
+
+  it('treats a second PIN sent during the submission as still processing', async () => {
+    const alice = harness.bot.user(9004);
+    await harness.login(alice, 'alice@example.com');
+    const balance = aliceBalance();
+
+    alice.say('/security');
+    await alice.expectReply('Transfer Security');
+    await alice.tap('🔢 Set PIN');
+    await alice.expectReply('Choose a transaction PIN');
+    alice.say('2580');
+    await alice.expectReply('enter the PIN again');
+    alice.say('2580');
+    await alice.expectReply('PIN set');
+
+    alice.say('/send bob@example.com 150');
+    const confirmation = await alice.expectReply('Transfer Confirmation');
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('enter your transaction PIN');
+    harness.mock.injectFailure({ endpoint: 'sendTransfer', delayMs: 300 });
+    alice.say('2580');
+    alice.say('2580');
+
+    await alice.expectReply('This transfer is already being processed. Its result will follow.');
+    await alice.expectReply('Transfer Successful');
+    await eventually(() => confirmation.text.includes('✅ Completed'));
+    assert.ok(!alice.messages.some((message) => /failed|Not completed/.test(message.text)));
+    assert.equal(aliceBalance(), balance - 150);
+  });
+
+  it('returns the original result when a transfer is submitted again', async () => {
+    const alice = harness.bot.user(9002);
+    await harness.login(alice, 'alice@example.com');
+    const balance = aliceBalance();
+
+    const { sendFunds } = await import('../../src/services/transfer');
+    const { newIdempotencyKey } = await import('../../src/services/idempotency');
+    const key = newIdempotencyKey();
+
+    const [first, concurrent] = await Promise.all([
+      sendFunds(9002, 'bob@example.com', 5, 'Rent', key),
+      sendFunds(9002, 'bob@example.com', 5, 'Rent', key)
+    ]);
+    assert.equal(first.success, true);
+    assert.deepEqual(concurrent, { success: false, pending: true, error: 'This transfer is already being processed' });
+
+    const repeated = await sendFunds(9002, 'bob@example.com', 5, 'Rent', key);
+    assert.equal(repeated.replayed, true);
+    assert.equal(repeated.data?.id, first.data?.id);
+    assert.equal(aliceBalance(), balance - 5);
+
+    // Without a key every call is a new transfer
+    await sendFunds(9002, 'bob@example.com', 5, 'Rent');
+    assert.equal(aliceBalance(), balance - 10);
+  });
+
+  it('sends the key to the API, which carries out a repeated request once', async () => {
+    const alice = harness.bot.user(9003);
+    await harness.login(alice, 'alice@example.com');
+    const balance = aliceBalance();
+
+    const { copperx } = await import('../../src/services/copperx');
+    const body = { recipient: 'bob@example.com', amount: '3', description: 'Lunch' };
+
+    const first = await copperx.sendTransfer(9003, body, 'api-key-1');
+    const repeated = await copperx.sendTransfer(9003, body, 'api-key-1');
+    assert.equal(repeated.id, first.id);
+    assert.equal(aliceBalance(), balance - 3);
+  });
+});
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { E2EHarness, EVM_ADDRESS, startHarness } from '../support/harness';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('spending limits', () => {
+  let harness: E2EHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('shows the remaining limit and blocks amounts over it', async () => {
+    const alice = harness.bot.user(7001);
+    await harness.login(alice, 'alice@example.com');
+
+    alice.say('/limits');
+    const limits = await alice.expectReply('Spending Limits');
+    assert.match(limits.text, /Per transaction: 1000\.00 USDC/);
+    await alice.tap('✏️ Daily');
+    await alice.expectReply('new daily limit');
+    alice.say('20');
+    await alice.expectReply('Your daily limit is now 20.00 USDC');
+
+    alice.say('/send bob@example.com 15');
+    const confirmation = await alice.expectReply('Transfer Confirmation');
+    assert.match(confirmation.text, /Remaining limit: 20\.00 USDC today, 10000\.00 USDC this month/);
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('Transfer Successful');
+
+    alice.say('/send bob@example.com 10');
+    const blocked = await alice.expectReply('Transfer Confirmation');
+    assert.match(blocked.text, /10\.00 USDC is over what is left of your daily limit \(5\.00 USDC\)/);
+    await assert.rejects(alice.tap('✅ Confirm'), /No button/);
+    await alice.tap('❌ Cancel');
+
+    alice.say(`/withdraw wallet ${EVM_ADDRESS} 5 ethereum`);
+    const withdrawal = await alice.expectReply('Withdrawal Confirmation');
+    assert.match(withdrawal.text, /Remaining limit: 5\.00 USDC today/);
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('Withdrawal Initiated');
+
+    alice.say('/limits');
+    const used = await alice.expectReply('Spending Limits');
+    assert.match(used.text, /Daily: 20\.00 USDC \(20\.00 USDC used today\)/);
+    assert.match(used.text, /Monthly: 10000\.00 USDC \(20\.00 USDC used this month\)/);
+  });
+
+  it('applies raised limits only after the cooling-off delay', async () => {
+    const bob = harness.bot.user(7002);
+    await harness.login(bob, 'bob@example.com');
+
+    bob.say('/limits');
+    await bob.expectReply('Spending Limits');
+    await bob.tap('✏️ Per transaction');
+    await bob.expectReply('new per-transaction limit');
+    bob.say('5000');
+    await bob.expectReply('Your per-transaction limit rises to 5000.00 USDC on');
+    const pending = await bob.expectReply('Spending Limits');
+    assert.match(pending.text, /Per transaction: 1000\.00 USDC/);
+    assert.match(pending.text, /⏳ per-transaction limit rises to 5000\.00 USDC/);
+
+    await bob.tap('🚫 Cancel raise');
+    await bob.expectReply('Pending raises cancelled');
+    const cancelled = await bob.expectReply('Spending Limits');
+    assert.doesNotMatch(cancelled.text, /⏳/);
+
+    await bob.tap('✏️ Monthly');
+    await bob.expectReply('new monthly limit');
+    bob.say('20000');
+    await bob.expectReply('Your monthly limit rises to 20000.00 USDC on');
+
+    const { getAllowance } = await import('../../src/services/limits');
+    assert.equal((await getAllowance(7002)).limits.monthly, 10000);
+    assert.equal((await getAllowance(7002, Date.now() + 25 * HOUR)).limits.monthly, 20000);
+  });
+
+  it('counts transfers submitted at the same time against one limit', async () => {
+    const alice = harness.bot.user(7003);
+    await harness.login(alice, 'alice@example.com');
+    const { changeSpendingLimit, getAllowance } = await import('../../src/services/limits');
+    const { sendFunds } = await import('../../src/services/transfer');
+    await changeSpendingLimit(7003, 'daily', 100);
+
+    const results = await Promise.all([
+      sendFunds(7003, 'bob@example.com', 60),
+      sendFunds(7003, 'bob@example.com', 60)
+    ]);
+    assert.deepEqual(results.map((result) => result.success).sort(), [false, true]);
+    assert.match(results.find((result) => !result.success)!.error!, /over what is left of your daily limit \(40\.00 USDC\)/);
+
+    // A transfer that fails gives its reservation back
+    harness.mock.injectFailure({ endpoint: 'sendTransfer', status: 500 });
+    assert.equal((await sendFunds(7003, 'bob@example.com', 30)).success, false);
+    assert.equal((await getAllowance(7003)).spentToday, 60);
+  });
+});
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { E2EHarness, EVM_ADDRESS, startHarness } from '../support/harness';
+
+describe('fee quotes on confirmations', () => {
+  let harness: E2EHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('shows the fee, total and receive amount of sends and withdrawals', async () => {
+    const alice = harness.bot.user(10001);
+    await harness.login(alice, 'alice@example.com');
+
+    alice.say('/send bob@example.com 10');
+    const send = await alice.expectReply('Transfer Confirmation');
+    assert.match(send.text, /Fee: 0\.00 USDC\nTotal debited: 10\.00 USDC\nReceive amount: 10\.00 USDC/);
+    assert.match(send.text, /Quote valid for \d+ seconds/);
+    await alice.tap('❌ Cancel');
+    await alice.expectReply('Transfer has been canceled');
+
+    alice.say(`/withdraw wallet ${EVM_ADDRESS} 20 ethereum`);
+    const withdrawal = await alice.expectReply('Withdrawal Confirmation');
+    assert.match(withdrawal.text, /Fee: 1\.00 USDC\nTotal debited: 21\.00 USDC\nReceive amount: 20\.00 USDC/);
+    await alice.tap('❌ Cancel');
+    await alice.expectReply('Withdrawal has been canceled');
+
+    alice.say('/withdraw bank 30');
+    await alice.expectReply('choose the account');
+    await alice.tap(/Mock Bank/);
+    const bank = await alice.expectReply('Bank Withdrawal Confirmation');
+    assert.match(bank.text, /Total debited: 31\.00 USDC/);
+    assert.match(bank.text, /Bank payout: 30\.00 USD \(1 USDC = 1\.0000 USD\)/);
+  });
+
+  it('refreshes a quote that expired before Confirm was tapped', async () => {
+    const alice = harness.bot.user(10002);
+    await harness.login(alice, 'alice@example.com');
+
+    const { config } = await import('../../src/config');
+    const original = config.quotes.ttl;
+    config.quotes.ttl = 1;
+
+    try {
+      alice.say('/send bob@example.com 10');
+      const confirmation = await alice.expectReply('Transfer Confirmation');
+      await new Promise((resolve) => setTimeout(resolve, 1100));
+
+      await alice.tap('✅ Confirm');
+      await alice.expectReply('The quote has expired');
+      assert.match(confirmation.text, /⌛ Quote expired/);
+      assert.equal(confirmation.replyMarkup, undefined);
+
+      // The fresh quote is confirmed while it is still valid
+      await alice.expectReply('Transfer Confirmation');
+      await alice.tap('✅ Confirm');
+      await alice.expectReply('Transfer Successful');
+    } finally {
+      config.quotes.ttl = original;
+    }
+  });
+
+  it('still offers the transfer when no quote can be had', async () => {
+    const alice = harness.bot.user(10003);
+    await harness.login(alice, 'alice@example.com');
+    harness.mock.injectFailure({ endpoint: 'transferQuote', status: 503 });
+
+    alice.say('/send bob@example.com 10');
+    const confirmation = await alice.expectReply('Transfer Confirmation');
+    assert.match(confirmation.text, /Fee: quote unavailable right now/);
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('Transfer Successful');
+  });
+});
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { config } from '../../src/config';
+import { E2EHarness, startHarness } from '../support/harness';
+
+describe('rate limiting', () => {
+  let harness: E2EHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('stops sending OTP emails once the auth budget is spent', async () => {
+    const mallory = harness.bot.user(2001);
+    const { requests } = config.rateLimits.auth;
+
+    for (let i = 0; i < requests; i++) {
+      mallory.say('/login');
+      await mallory.expectReply('enter your Copperx account email');
+      mallory.say('alice@example.com');
+      await mallory.expectReply('OTP sent to alice@example.com');
+    }
+
+    mallory.say('/login');
+    await mallory.expectReply('enter your Copperx account email');
+    mallory.say('alice@example.com');
+    await mallory.expectReply(/going a bit fast\. Please wait \d+ minutes?/);
+
+    // Still at the email step, so no OTP was requested
+    assert.doesNotMatch(mallory.messages.at(-1)!.text, /OTP sent/);
+  });
+
+  it('offers a fresh confirmation when a transfer is rate limited', async () => {
+    const original = config.rateLimits.money;
+    config.rateLimits.money = { requests: 1, windowSeconds: 3600 };
+
+    try {
+      const alice = harness.bot.user(2002);
+      alice.say('/login');
+      await alice.expectReply('enter your Copperx account email');
+      alice.say('alice@example.com');
+      await alice.expectReply('OTP sent to alice@example.com');
+      alice.say('123456');
+      await alice.expectReply('You are now logged in');
+
+      const send = async (amount: string) => {
+        alice.say('/send');
+        await alice.expectReply("recipient's email address");
+        alice.say('bob@example.com');
+        await alice.expectReply('amount in USDC');
+        alice.say(amount);
+        await alice.expectReply('description');
+        alice.say('skip');
+        await alice.expectReply('Transfer Confirmation');
+        await alice.tap('✅ Confirm');
+      };
+
+      await send('10');
+      await alice.expectReply('Transfer Successful');
+
+      await send('20');
+      await alice.expectReply('going a bit fast');
+      assert.match((await alice.expectReply('Transfer Confirmation')).text, /Amount: 20 USDC/);
+
+      // Only the first transfer reached Copperx
+      const [aliceAccount] = harness.mock.getAccounts();
+      assert.equal(aliceAccount.wallets[0].balance, 990);
+    } finally {
+      config.rateLimits.money = original;
+    }
+  });
+});
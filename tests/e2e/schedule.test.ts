@@ -0,0 +1,221 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { E2EHarness, EVM_ADDRESS, startHarness } from '../support/harness';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+describe('scheduled payouts', () => {
+  let harness: E2EHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  // Loaded after the harness has pointed the API client at the mock
+  async function runDueSchedules(now: number): Promise<void> {
+    const scheduler = await import('../../src/services/scheduler');
+    await scheduler.runDueSchedules(harness.bot.asTelegramBot(), now);
+  }
+
+  async function nextRunAt(chatId: number): Promise<number> {
+    const { getSchedules } = await import('../../src/services/schedules');
+    const [schedule] = await getSchedules(chatId);
+    assert.ok(schedule?.nextRunAt);
+    return schedule.nextRunAt;
+  }
+
+  it('schedules a weekly transfer, reminds before it and pays it', async () => {
+    const alice = harness.bot.user(6001);
+    await harness.login(alice, 'alice@example.com');
+
+    alice.say('/schedule');
+    await alice.expectReply('Schedule a Payout');
+    alice.say('bob@example.com');
+    await alice.expectReply('amount in USDC for each payout to bob@example.com');
+    alice.say('5');
+    await alice.expectReply('description');
+    alice.say('Rent');
+    await alice.expectReply('How often should it run?');
+    await alice.tap('🗓️ Weekly');
+    await alice.expectReply('On which day and at what time?');
+    alice.say('Funday 09:00');
+    await alice.expectReply('Please enter a weekday and a time');
+    alice.say('Monday 09:00');
+    const confirmation = await alice.expectReply('Scheduled Payout Confirmation');
+    assert.match(confirmation.text, /When: Every Monday at 09:00 UTC/);
+    assert.equal(confirmation.text.match(/• Mon, .* 09:00 UTC/g)?.length, 3);
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('Payout scheduled');
+
+    const runAt = await nextRunAt(6001);
+    assert.equal(new Date(runAt).getUTCDay(), 1);
+
+    await runDueSchedules(runAt - 30 * MINUTE);
+    await runDueSchedules(runAt - 20 * MINUTE);
+    await alice.expectReply('Upcoming scheduled payout');
+    assert.equal(alice.messages.filter((message) => message.text.includes('Upcoming scheduled payout')).length, 1);
+
+    await runDueSchedules(runAt + MINUTE);
+    const result = await alice.expectReply('Scheduled payout sent');
+    assert.match(result.text, /5\.00 USDC to bob@example\.com/);
+    assert.match(result.text, /Next run: Mon, /);
+    assert.equal(await nextRunAt(6001), runAt + 7 * DAY);
+
+    const [, bobAccount] = harness.mock.getAccounts();
+    assert.equal(bobAccount.wallets[0].balance, 55);
+
+    // A second bot process that read the schedule before the run moved on leaves the run alone
+    const { getSchedules, saveSchedule } = await import('../../src/services/schedules');
+    const [schedule] = await getSchedules(6001);
+    await saveSchedule({ ...schedule, nextRunAt: runAt });
+    const sent = alice.messages.length;
+    await runDueSchedules(runAt + MINUTE);
+    assert.equal(alice.messages.length, sent);
+    assert.equal(bobAccount.wallets[0].balance, 55);
+    assert.equal((await getSchedules(6001))[0].lastRun?.status, 'sent');
+  });
+
+  it('skips runs the balance does not cover, then pauses, edits and deletes', async () => {
+    const bob = harness.bot.user(6002);
+    await harness.login(bob, 'bob@example.com');
+
+    bob.say('/schedule');
+    await bob.expectReply('Schedule a Payout');
+    bob.say(EVM_ADDRESS);
+    await bob.expectReply('network of this address');
+    await bob.tap('Ethereum');
+    await bob.expectReply('amount in USDC for each payout');
+    bob.say('80');
+    await bob.expectReply('How often should it run?');
+    await bob.tap('📆 Daily');
+    await bob.expectReply('At what time each day?');
+    bob.say('25:00');
+    await bob.expectReply('Please enter a time in UTC');
+    bob.say('08:30');
+    const confirmation = await bob.expectReply('Scheduled Payout Confirmation');
+    assert.match(confirmation.text, /To: 0x3f5c\.\.\.f0be \(ethereum\)/);
+    await bob.tap('✅ Confirm');
+    await bob.expectReply('Payout scheduled');
+
+    const runAt = await nextRunAt(6002);
+    await runDueSchedules(runAt - 10 * MINUTE);
+    const reminder = await bob.expectReply('Upcoming scheduled payout');
+    assert.match(reminder.text, /does not cover it/);
+
+    await runDueSchedules(runAt);
+    const skipped = await bob.expectReply('Scheduled payout skipped');
+    assert.match(skipped.text, /balance of 55\.00 USDC does not cover it/);
+
+    bob.say('/schedules');
+    const list = await bob.expectReply('Scheduled Payouts');
+    assert.match(list.text, /Every day at 08:30 UTC/);
+    assert.match(list.text, /Last run: skipped/);
+    await bob.tap('1. 80.00 USDC to 0x3f5c...f0be (ethereum)');
+    await bob.expectReply('Scheduled Payout\n');
+    await bob.tap('⏸️ Pause');
+    await bob.expectReply('Paused');
+    await bob.expectReply('Scheduled Payout\n');
+
+    const sent = bob.messages.length;
+    await runDueSchedules(runAt + DAY);
+    assert.equal(bob.messages.length, sent);
+
+    await bob.tap('✏️ Amount');
+    await bob.expectReply('new amount');
+    bob.say('20');
+    await bob.expectReply('Each payout is now 20.00 USDC');
+    await bob.expectReply('Scheduled Payout\n');
+    await bob.tap('🕒 Timing');
+    await bob.expectReply('How often should it run?');
+    await bob.tap('⚙️ Cron expression');
+    await bob.expectReply('Enter a cron expression');
+    bob.say('*/15 * * * *');
+    await bob.expectReply('at most once an hour');
+    bob.say('0 12 1 * *');
+    await bob.expectReply('It now runs: Cron 0 12 1 * * (UTC)');
+    await bob.expectReply('Scheduled Payout\n');
+    await bob.tap('▶️ Resume');
+    const resumed = await bob.expectReply('Resumed. The next run is on');
+    assert.match(resumed.text, /, 12:00 UTC/);
+    await bob.expectReply('Scheduled Payout\n');
+
+    await bob.tap('🗑️ Delete');
+    await bob.expectReply('Delete this scheduled payout?');
+    await bob.tap('🗑️ Delete');
+    await bob.expectReply('Scheduled payout deleted');
+    await bob.expectReply('You have no scheduled payouts');
+  });
+
+  it('runs a one-off payout once and skips it when logged out', async () => {
+    const alice = harness.bot.user(6003);
+    await harness.login(alice, 'alice@example.com');
+
+    alice.say('/schedule');
+    await alice.expectReply('Schedule a Payout');
+    alice.say(EVM_ADDRESS);
+    await alice.expectReply('network of this address');
+    await alice.tap('Ethereum');
+    await alice.expectReply('amount in USDC for each payout');
+    alice.say('1');
+    await alice.expectReply('How often should it run?');
+    await alice.tap('1️⃣ Once');
+    await alice.expectReply('Enter a date and time in UTC');
+    alice.say('2020-01-01 09:00');
+    await alice.expectReply('already passed');
+    alice.say('2099-02-30 09:00');
+    await alice.expectReply('not a valid date');
+    alice.say('2099-01-01 09:00');
+    const confirmation = await alice.expectReply('Scheduled Payout Confirmation');
+    assert.match(confirmation.text, /When: Once on Thu, Jan 1, 2099, 09:00 UTC/);
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('Payout scheduled');
+
+    alice.say('/logout');
+    await alice.expectReply('logged out successfully');
+
+    await runDueSchedules(Date.UTC(2099, 0, 1, 9, 0));
+    const skipped = await alice.expectReply('Scheduled payout skipped');
+    assert.match(skipped.text, /You are logged out/);
+    assert.match(skipped.text, /will not run again/);
+
+    const { getSchedules } = await import('../../src/services/schedules');
+    assert.deepEqual(await getSchedules(6003), []);
+  });
+
+  it('keeps the session of a user with schedules alive until the run', async () => {
+    const alice = harness.bot.user(6004);
+    await harness.login(alice, 'alice@example.com');
+
+    alice.say('/schedule');
+    await alice.expectReply('Schedule a Payout');
+    alice.say('bob@example.com');
+    await alice.expectReply('amount in USDC for each payout');
+    alice.say('2');
+    await alice.expectReply('description');
+    alice.say('skip');
+    await alice.expectReply('How often should it run?');
+    await alice.tap('🗓️ Weekly');
+    await alice.expectReply('On which day and at what time?');
+    alice.say('Friday 12:00');
+    await alice.expectReply('Scheduled Payout Confirmation');
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('Payout scheduled');
+    const runAt = await nextRunAt(6004);
+
+    // The session is about to expire; the next pass renews it through the refresh token
+    const { getStore } = await import('../../src/store');
+    await getStore().expire('user_session:6004', 1);
+    await runDueSchedules(runAt - 2 * DAY);
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    assert.ok((await getStore().ttl('user_session:6004'))! > 60 * 60);
+
+    await runDueSchedules(runAt + MINUTE);
+    const result = await alice.expectReply('Scheduled payout sent');
+    assert.match(result.text, /2\.00 USDC to bob@example\.com/);
+  });
+});
@@ -0,0 +1,183 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { E2EHarness, EVM_ADDRESS, startHarness } from '../support/harness';
+import { FakeUser } from '../support/fakeBot';
+
+const MINUTE = 60 * 1000;
+
+describe('transfer step-up confirmation', () => {
+  let harness: E2EHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  async function setPin(user: FakeUser, pin: string): Promise<void> {
+    user.say('/security');
+    await user.expectReply('Transfer Security');
+    await user.tap('🔢 Set PIN');
+    await user.expectReply('Choose a transaction PIN');
+    user.say(pin);
+    await user.expectReply('enter the PIN again');
+    user.say(pin);
+    await user.expectReply('PIN set');
+  }
+
+  it('asks for the PIN only above the threshold', async () => {
+    const alice = harness.bot.user(8001);
+    await harness.login(alice, 'alice@example.com');
+
+    alice.say('/security');
+    const menu = await alice.expectReply('Transfer Security');
+    assert.match(menu.text, /confirmed with a tap on Confirm only/);
+    await alice.tap('🔢 Set PIN');
+    await alice.expectReply('Choose a transaction PIN');
+    alice.say('1234');
+    await alice.expectReply('too easy to guess');
+    alice.say('2580');
+    await alice.expectReply('enter the PIN again');
+    alice.say('2581');
+    await alice.expectReply('The PINs do not match');
+    await alice.expectReply('Choose a transaction PIN');
+    alice.say('2580');
+    await alice.expectReply('enter the PIN again');
+    alice.say('2580');
+    await alice.expectReply('PIN set');
+
+    alice.say('/send bob@example.com 50');
+    await alice.expectReply('Transfer Confirmation');
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('Transfer Successful');
+
+    alice.say('/send bob@example.com 150');
+    await alice.expectReply('Transfer Confirmation');
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('enter your transaction PIN');
+    alice.say('1111');
+    await alice.expectReply('4 attempt(s) left');
+    alice.say('2580');
+    await alice.expectReply('Transfer Successful');
+    await alice.expectReply('Save bob@example.com');
+
+    // Changing the second factor needs the current one
+    alice.say('/security');
+    await alice.expectReply('enter your transaction PIN to change');
+    alice.say('2580');
+    await alice.expectReply('Transfer Security');
+    await alice.tap('🗑️ Remove');
+    await alice.expectReply('Second factor removed');
+
+    alice.say('/send bob@example.com 150');
+    await alice.expectReply('Transfer Confirmation');
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('Transfer Successful');
+  });
+
+  it('enrolls an authenticator app and rejects replayed codes', async () => {
+    const alice = harness.bot.user(8002);
+    await harness.login(alice, 'alice@example.com');
+
+    const { totpCode } = await import('../../src/utils/totp');
+    const step = () => Math.floor(Date.now() / 30000);
+
+    alice.say('/security');
+    await alice.expectReply('Transfer Security');
+    await alice.tap('📱 Authenticator app');
+    const enrollment = await alice.expectReply('Authenticator App');
+    const secret = enrollment.text.match(/`([A-Z2-7]{32})`/)![1];
+    assert.match(enrollment.text, /otpauth:\/\/totp\/Copperx%3A/);
+    const { getStore } = await import('../../src/store');
+    assert.ok(!(await getStore().get('conversation:8002'))!.includes(secret));
+
+    alice.say('000000');
+    await alice.expectReply('That code does not match');
+    const enrolledStep = step();
+    alice.say(totpCode(secret, enrolledStep));
+    await alice.expectReply('Authenticator app enrolled');
+
+    alice.say(`/withdraw wallet ${EVM_ADDRESS} 200 ethereum`);
+    await alice.expectReply('Withdrawal Confirmation');
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('code from your authenticator app');
+    alice.say(totpCode(secret, enrolledStep));
+    await alice.expectReply('4 attempt(s) left');
+    alice.say(totpCode(secret, enrolledStep + 1));
+    await alice.expectReply('Withdrawal Initiated');
+  });
+
+  it('locks transfers after too many wrong codes', async () => {
+    const alice = harness.bot.user(8003);
+    await harness.login(alice, 'alice@example.com');
+    await setPin(alice, '7391');
+
+    alice.say('/send bob@example.com 150');
+    await alice.expectReply('Transfer Confirmation');
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('enter your transaction PIN');
+    for (const left of [4, 3, 2, 1]) {
+      alice.say('0000');
+      await alice.expectReply(`${left} attempt(s) left`);
+    }
+    alice.say('0000');
+    await alice.expectReply('Transfers are locked until');
+
+    // Even the right PIN and small amounts are refused while locked
+    alice.say('/send bob@example.com 10');
+    await alice.expectReply('Transfers are locked until');
+    alice.say('/security');
+    await alice.expectReply('Transfers are locked until');
+
+    const { getTransferLock, verifySecondFactor } = await import('../../src/services/security');
+    const lockedUntil = await getTransferLock(8003);
+    assert.ok(lockedUntil !== null && lockedUntil > Date.now() + 29 * MINUTE);
+    assert.equal((await verifySecondFactor(8003, '7391')).ok, false);
+    assert.equal(await getTransferLock(8003, lockedUntil + 1), null);
+    assert.equal((await verifySecondFactor(8003, '7391', lockedUntil + 1)).ok, true);
+  });
+
+  it('keeps PINs out of the chat, the logs and the conversation state', async () => {
+    const alice = harness.bot.user(8004);
+    await harness.login(alice, 'alice@example.com');
+
+    const { logger } = await import('../../src/utils/logger');
+    const { getStore } = await import('../../src/store');
+    const info = logger.info;
+    const logged: string[] = [];
+    logger.info = (message, ...args) => {
+      logged.push(message);
+      info(message, ...args);
+    };
+
+    try {
+      alice.say('/security');
+      await alice.expectReply('Transfer Security');
+      await alice.tap('🔢 Set PIN');
+      await alice.expectReply('Choose a transaction PIN');
+      alice.say('4826');
+      await alice.expectReply('enter the PIN again');
+      assert.ok(!(await getStore().get('conversation:8004'))!.includes('4826'));
+      alice.say('4826');
+      await alice.expectReply('PIN set');
+
+      alice.say('/send bob@example.com 150');
+      await alice.expectReply('Transfer Confirmation');
+      await alice.tap('✅ Confirm');
+      await alice.expectReply('enter your transaction PIN');
+      alice.say('4826');
+      await alice.expectReply('Transfer Successful');
+    } finally {
+      logger.info = info;
+    }
+
+    const received = harness.bot.received.filter((message) => message.chatId === 8004);
+    assert.deepEqual(received.filter((message) => message.text === '4826').map((message) => message.deleted), [true, true, true]);
+    assert.ok(received.filter((message) => message.text.startsWith('/')).every((message) => !message.deleted));
+    assert.ok(logged.some((line) => line.includes('(8004): /security')));
+    assert.ok(logged.some((line) => line.includes('(8004): [hidden]')));
+    assert.ok(!logged.some((line) => line.includes('4826')));
+  });
+});
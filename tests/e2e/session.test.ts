@@ -0,0 +1,225 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { E2EHarness, eventually, EVM_ADDRESS, startHarness } from '../support/harness';
+
+describe('login, balance and send session', () => {
+  let harness: E2EHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('logs in, shows balances and sends funds', async () => {
+    const alice = harness.bot.user(1001);
+
+    await harness.login(alice, 'alice@example.com');
+
+    alice.say('/balance');
+    const balances = await alice.expectReply('Your Wallet Balances');
+    assert.match(balances.text, /1000\.00/);
+    assert.match(balances.text, /250\.00/);
+
+    alice.say('/send');
+    await alice.expectReply("recipient's email address");
+    alice.say('bob@example.com');
+    await alice.expectReply('amount in USDC to send to bob@example.com');
+    alice.say('25');
+    await alice.expectReply('description');
+    alice.say('Lunch');
+    const confirmation = await alice.expectReply('Transfer Confirmation');
+    assert.match(confirmation.text, /Amount: 25 USDC/);
+
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('Transfer Successful');
+
+    // The keyboard is spent and removed once the conversation ends
+    await eventually(() => confirmation.replyMarkup === undefined);
+
+    const [aliceAccount, bobAccount] = harness.mock.getAccounts();
+    assert.equal(aliceAccount.wallets[0].balance, 975);
+    assert.equal(bobAccount.wallets[0].balance, 75);
+
+    alice.say('/balance');
+    assert.match((await alice.expectReply('Your Wallet Balances')).text, /975\.00/);
+  });
+
+  it('rejects a wrong OTP and lets the user log in again', async () => {
+    const bob = harness.bot.user(1002);
+
+    bob.say('/login');
+    await bob.expectReply('enter your Copperx account email');
+    bob.say('bob@example.com');
+    await bob.expectReply('OTP sent');
+    bob.say('654321');
+    await bob.expectReply('Please try /login again');
+
+    await harness.login(bob, 'bob@example.com');
+  });
+
+  it('cancels a transfer from the confirmation keyboard', async () => {
+    const bob = harness.bot.user(1003);
+    await harness.login(bob, 'bob@example.com');
+
+    bob.say('/send');
+    await bob.expectReply("recipient's email address");
+    bob.say('alice@example.com');
+    await bob.expectReply('amount in USDC');
+    bob.say('10');
+    await bob.expectReply('description');
+    bob.say('skip');
+    const confirmation = await bob.expectReply('Transfer Confirmation');
+    const confirmData = confirmation.replyMarkup!.inline_keyboard[0][0].callback_data!;
+
+    await bob.tap('❌ Cancel');
+    await bob.expectReply('Transfer has been canceled');
+
+    // The Confirm button shared the keyboard's nonce, so it is spent too
+    const queryId = harness.bot.injectCallback(bob.chatId, confirmation, confirmData);
+    await eventually(() => harness.bot.answers.some((answer) => answer.queryId === queryId));
+    assert.equal(
+      harness.bot.answers.find((answer) => answer.queryId === queryId)!.text,
+      'This button has expired or was already used.'
+    );
+  });
+
+  it('reports an API outage while fetching balances', async () => {
+    const alice = harness.bot.user(1004);
+    await harness.login(alice, 'alice@example.com');
+
+    harness.mock.injectFailure({ endpoint: 'balances', status: 503, message: 'Copperx is down for maintenance' });
+
+    alice.say('/balance');
+    await alice.expectReply('Error fetching wallet balances: Copperx is down for maintenance');
+  });
+
+  it('reports a failed transfer', async () => {
+    const bob = harness.bot.user(1005);
+    await harness.login(bob, 'bob@example.com');
+
+    bob.say('/send');
+    await bob.expectReply("recipient's email address");
+    bob.say('alice@example.com');
+    await bob.expectReply('amount in USDC');
+    bob.say('500');
+    await bob.expectReply('description');
+    bob.say('skip');
+    await bob.expectReply('Transfer Confirmation');
+
+    await bob.tap('✅ Confirm');
+    await bob.expectReply('Transfer failed: Insufficient balance');
+  });
+
+  it('asks users without a session to log in', async () => {
+    const stranger = harness.bot.user(1008);
+
+    for (const command of ['/balance', '/wallets', '/send', '/history', '/profile']) {
+      stranger.say(command);
+      await stranger.expectReply('You need to be logged in to use this command');
+    }
+  });
+
+  it('keeps users without an approved KYC out of transfers', async () => {
+    const carol = harness.bot.user(1009);
+    await harness.login(carol, 'carol@example.com');
+
+    carol.say('/send');
+    await carol.expectReply('requires an approved KYC');
+
+    // Commands without the requirement still work
+    carol.say('/balance');
+    await carol.expectReply('Your Wallet Balances');
+
+    // Leave carol's notification channel to the deposit test
+    carol.say('/logout');
+    await carol.expectReply('logged out successfully');
+  });
+
+  it('sends with inline arguments straight from the command', async () => {
+    const alice = harness.bot.user(1010);
+    await harness.login(alice, 'alice@example.com');
+
+    alice.say('/send bob@example.com 12.5 "March invoice"');
+    const confirmation = await alice.expectReply('Transfer Confirmation');
+    assert.match(confirmation.text, /To: bob@example\.com/);
+    assert.match(confirmation.text, /Amount: 12\.5 USDC/);
+    assert.match(confirmation.text, /Description: March invoice/);
+
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('Transfer Successful');
+  });
+
+  it('asks only for missing or invalid inline arguments', async () => {
+    const alice = harness.bot.user(1011);
+    await harness.login(alice, 'alice@example.com');
+
+    alice.say('/send bob@example.com lots');
+    await alice.expectReply('Please enter a valid amount');
+    await alice.expectReply('amount in USDC to send to bob@example.com');
+    alice.say('5');
+    const confirmation = await alice.expectReply('Transfer Confirmation');
+    assert.match(confirmation.text, /Amount: 5 USDC/);
+    await alice.tap('❌ Cancel');
+
+    alice.say(`/withdraw wallet ${EVM_ADDRESS} 100`);
+    await alice.expectReply('select the network');
+    await alice.tap('Ethereum');
+    const withdrawal = await alice.expectReply('Withdrawal Confirmation');
+    assert.match(withdrawal.text, /Network: ethereum/);
+    await alice.tap('❌ Cancel');
+
+    alice.say('/withdraw');
+    await alice.expectReply('select your withdrawal method');
+  });
+
+  it('goes back a step with /back and completes the transfer', async () => {
+    const alice = harness.bot.user(1012);
+    await harness.login(alice, 'alice@example.com');
+
+    alice.say('/send');
+    await alice.expectReply("recipient's email address");
+    alice.say('/back');
+    await alice.expectReply('already at the first step');
+    alice.say('bob@example.com');
+    await alice.expectReply('amount in USDC to send to bob@example.com');
+
+    alice.say('/back');
+    await alice.expectReply("recipient's email address");
+    alice.say('carol@example.com');
+    await alice.expectReply('amount in USDC to send to carol@example.com');
+    alice.say('3');
+    await alice.expectReply('description');
+    alice.say('skip');
+    const confirmation = await alice.expectReply('Transfer Confirmation');
+    assert.match(confirmation.text, /To: carol@example\.com\nAmount: 3 USDC/);
+    await alice.tap('✅ Confirm');
+    await alice.expectReply('Transfer Successful');
+
+    const carolAccount = harness.mock.getAccounts().find((account) => account.email === 'carol@example.com')!;
+    assert.equal(carolAccount.wallets[0].balance, 3);
+  });
+
+  it('refreshes an expired session transparently', async () => {
+    const alice = harness.bot.user(1006);
+    await harness.login(alice, 'alice@example.com');
+
+    harness.mock.expireTokens('alice@example.com');
+
+    alice.say('/balance');
+    await alice.expectReply('Your Wallet Balances');
+  });
+
+  it('notifies the user of deposits', async () => {
+    const carol = harness.bot.user(1007);
+    await harness.login(carol, 'carol@example.com');
+
+    await eventually(() => harness.mock.notificationSubscribers('carol@example.com') > 0);
+    harness.mock.deposit('carol@example.com', 42);
+
+    const notification = await carol.expectReply('New Deposit Received');
+    assert.match(notification.text, /42\.00 USDC/);
+  });
+});
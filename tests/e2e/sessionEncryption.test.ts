@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { config } from '../../src/config';
+import { getStore } from '../../src/store';
+import { getUserSession } from '../../src/utils/session';
+import { E2EHarness, startHarness } from '../support/harness';
+
+describe('session encryption', () => {
+  let harness: E2EHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  function stored(chatId: number): Promise<string | null> {
+    return getStore().get(`user_session:${chatId}`);
+  }
+
+  // Key ID recorded in an encrypted value: enc:v1:<keyId>:...
+  function keyId(value: string | null): string {
+    return value!.split(':')[2];
+  }
+
+  // Run with a new SESSION_SECRET, restoring the original afterwards
+  async function withSecret(secret: string, previousSecrets: string[], run: () => Promise<void>): Promise<void> {
+    const original = { ...config.session };
+    config.session.secret = secret;
+    config.session.previousSecrets = previousSecrets;
+    try {
+      await run();
+    } finally {
+      Object.assign(config.session, original);
+    }
+  }
+
+  it('stores sessions encrypted', async () => {
+    const alice = harness.bot.user(15001);
+    await harness.login(alice, 'alice@example.com');
+
+    const value = await stored(15001);
+    const token = await getUserSession(15001);
+    assert.ok(token?.token);
+    assert.match(value!, /^enc:v1:/);
+    assert.ok(!value!.includes(token.token));
+    assert.throws(() => JSON.parse(value!));
+  });
+
+  it('re-encrypts sessions written with a previous key on read', async () => {
+    const alice = harness.bot.user(15002);
+    await harness.login(alice, 'alice@example.com');
+    const original = await stored(15002);
+
+    await withSecret('rotated-session-secret', [config.session.secret], async () => {
+      alice.say('/balance');
+      await alice.expectReply('Your Wallet Balances');
+
+      const rotated = await stored(15002);
+      assert.notEqual(keyId(rotated), keyId(original));
+      assert.ok(await getStore().ttl('user_session:15002'));
+    });
+  });
+
+  it('encrypts legacy plaintext sessions on read', async () => {
+    const alice = harness.bot.user(15003);
+    await harness.login(alice, 'alice@example.com');
+    const token = await getUserSession(15003);
+    await getStore().set('user_session:15003', JSON.stringify(token), 60 * 60);
+
+    alice.say('/balance');
+    await alice.expectReply('Your Wallet Balances');
+
+    const value = await stored(15003);
+    assert.match(value!, /^enc:v1:/);
+    assert.deepEqual(await getUserSession(15003), token);
+  });
+
+  it('discards sessions encrypted with an unknown key', async () => {
+    const alice = harness.bot.user(15004);
+    await harness.login(alice, 'alice@example.com');
+
+    await withSecret('unrelated-session-secret', [], async () => {
+      alice.say('/balance');
+      await alice.expectReply('You need to be logged in to use this command');
+      assert.equal(await stored(15004), null);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { CHECKSUMMED_ADDRESS, E2EHarness, SOLANA_ADDRESS, startHarness } from '../support/harness';
+
+describe('wallet withdrawals', () => {
+  let harness: E2EHarness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.stop();
+  });
+
+  it('asks for a network the user holds funds on, then an address valid on it', async () => {
+    const alice = harness.bot.user(12001);
+    await harness.login(alice, 'alice@example.com');
+
+    alice.say('/withdraw wallet');
+    const networks = await alice.expectReply('select the network');
+    assert.match(networks.text, /Solana: 1000\.00 USDC\nEthereum: 250\.00 USDC/);
+    assert.deepEqual(networks.replyMarkup!.inline_keyboard.flat().map((button) => button.text), ['Solana', 'Ethereum']);
+
+    await alice.tap('Ethereum');
+    await alice.expectReply('destination Ethereum address');
+    alice.say(SOLANA_ADDRESS);
+    await alice.expectReply('That is a Solana address, but Ethereum is an EVM network');
+    alice.say(CHECKSUMMED_ADDRESS.slice(0, -1));
+    await alice.expectReply('0x followed by 40 hexadecimal characters');
+    alice.say(CHECKSUMMED_ADDRESS.replace('aAeb', 'aaeb'));
+    await alice.expectReply('does not match its checksum');
+    alice.say(CHECKSUMMED_ADDRESS);
+    await alice.expectReply('amount in USDC to withdraw');
+    alice.say('5');
+
+    const confirmation = await alice.expectReply('Withdrawal Confirmation');
+    assert.match(confirmation.text, new RegExp(`To: ${CHECKSUMMED_ADDRESS}\nAmount: 5 USDC\nNetwork: ethereum`));
+    await alice.tap('❌ Cancel');
+  });
+
+  it('checks inline arguments against the network', async () => {
+    const alice = harness.bot.user(12002);
+    await harness.login(alice, 'alice@example.com');
+
+    alice.say(`/withdraw wallet ${CHECKSUMMED_ADDRESS} 5 solana`);
+    await alice.expectReply('That is an EVM address, which cannot receive on Solana');
+    await alice.expectReply('destination Solana address');
+    alice.say(SOLANA_ADDRESS);
+    await alice.expectReply('Withdrawal Confirmation');
+    await alice.tap('❌ Cancel');
+
+    alice.say(`/withdraw wallet ${CHECKSUMMED_ADDRESS} 5 polygon`);
+    await alice.expectReply('You hold no USDC on Polygon');
+    await alice.expectReply('select the network');
+    await alice.tap('Ethereum');
+    await alice.expectReply('Withdrawal Confirmation');
+    await alice.tap('❌ Cancel');
+
+    // An address given without a network is checked once the network is picked
+    alice.say(`/withdraw wallet ${SOLANA_ADDRESS} 5`);
+    await alice.expectReply('select the network');
+    await alice.tap('Ethereum');
+    await alice.expectReply('That is a Solana address, but Ethereum is an EVM network');
+    await alice.expectReply('destination Ethereum address');
+  });
+
+  it('skips the network choice when funds are held on one network only', async () => {
+    const bob = harness.bot.user(12003);
+    await harness.login(bob, 'bob@example.com');
+    const wallets = harness.mock.getAccounts().find((account) => account.email === 'bob@example.com')!.wallets;
+    wallets.find((wallet) => wallet.network === 'ethereum')!.balance = 0;
+
+    bob.say('/withdraw wallet');
+    await bob.expectReply('destination Solana address');
+    bob.say('/cancel');
+    await bob.expectReply('Canceled');
+
+    for (const wallet of wallets) wallet.balance = 0;
+    bob.say('/withdraw wallet');
+    await bob.expectReply('You have no USDC to withdraw');
+  });
+});
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import { config } from '../../src/config';
+import { startWebhookServer, stopWebhookServer } from '../../src/webhook';
+import { E2EHarness, startHarness } from '../support/harness';
+
+const SECRET = 'webhook-test-secret';
+
+describe('webhook server', () => {
+  let harness: E2EHarness;
+  let server: http.Server;
+  let port: number;
+
+  before(async () => {
+    harness = await startHarness();
+    config.bot.webhook.url = 'https://bot.example.com';
+    config.bot.webhook.secret = SECRET;
+    config.bot.webhook.port = 0;
+    server = await startWebhookServer(harness.bot.asTelegramBot());
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(async () => {
+    await stopWebhookServer(harness.bot.asTelegramBot(), server);
+    await harness.stop();
+  });
+
+  // POST a body to the server, returning the response status
+  function post(path: string, body: string | Buffer, headers: http.OutgoingHttpHeaders = {}): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const req = http.request({ port, path, method: 'POST', headers }, (res) => {
+        res.resume();
+        resolve(res.statusCode!);
+      });
+      // The server may close the connection before an oversized body is sent
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+
+  function update(chatId: number, text: string): string {
+    return JSON.stringify({
+      update_id: 1,
+      message: {
+        message_id: 1,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: chatId, type: 'private' },
+        from: { id: chatId, is_bot: false, first_name: 'Test' },
+        text
+      }
+    });
+  }
+
+  it('registers the webhook with its secret', () => {
+    assert.deepEqual(harness.bot.webhook, { url: 'https://bot.example.com/telegram/webhook', secretToken: SECRET });
+  });
+
+  it('feeds updates carrying the secret token into the bot', async () => {
+    const status = await post('/telegram/webhook', update(14001, '/help'), { 'X-Telegram-Bot-Api-Secret-Token': SECRET });
+    assert.equal(status, 200);
+    await harness.bot.user(14001).expectReply('Copperx Payout Bot Commands');
+  });
+
+  it('rejects requests with a missing or wrong secret token', async () => {
+    assert.equal(await post('/telegram/webhook', update(14002, '/help')), 401);
+    assert.equal(await post('/telegram/webhook', update(14002, '/help'), { 'X-Telegram-Bot-Api-Secret-Token': 'wrong' }), 401);
+    assert.deepEqual(harness.bot.user(14002).messages, []);
+  });
+
+  it('answers 404 off the webhook path', async () => {
+    assert.equal(await post('/other', update(14003, '/help'), { 'X-Telegram-Bot-Api-Secret-Token': SECRET }), 404);
+    assert.deepEqual(harness.bot.user(14003).messages, []);
+  });
+
+  it('rejects oversized bodies', async () => {
+    const status = await post('/telegram/webhook', Buffer.alloc(2 * 1024 * 1024, ' '), { 'X-Telegram-Bot-Api-Secret-Token': SECRET });
+    assert.equal(status, 413);
+
+    // Without a Content-Length the limit is enforced while reading
+    const chunked = await post('/telegram/webhook', Buffer.alloc(2 * 1024 * 1024, ' '), {
+      'X-Telegram-Bot-Api-Secret-Token': SECRET,
+      'Transfer-Encoding': 'chunked'
+    });
+    assert.equal(chunked, 413);
+  });
+});
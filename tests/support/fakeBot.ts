@@ -0,0 +1,406 @@
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import TelegramBot from 'node-telegram-bot-api';
+
+// Milliseconds to wait for an expected reply before failing
+const DEFAULT_TIMEOUT = 5000;
+
+/**
+ * A message sent by the bot, as recorded by the fake transport
+ */
+export interface SentMessage {
+  chatId: number;
+  messageId: number;
+  text: string;
+  options?: TelegramBot.SendMessageOptions;
+  // Current inline keyboard; cleared by editMessageReplyMarkup
+  replyMarkup?: TelegramBot.InlineKeyboardMarkup;
+  // File sent with sendDocument; text holds its caption
+  document?: { fileName: string; content: Buffer };
+  deleted: boolean;
+}
+
+/**
+ * A text message sent by a user; the bot may delete it
+ */
+export interface ReceivedMessage {
+  chatId: number;
+  messageId: number;
+  text: string;
+  deleted: boolean;
+}
+
+/**
+ * An answer given to a callback query
+ */
+export interface CallbackAnswer {
+  queryId: string;
+  text?: string;
+}
+
+type TextCallback = (msg: TelegramBot.Message, match: RegExpExecArray | null) => void;
+
+/**
+ * In-process stand-in for TelegramBot
+ *
+ * Implements the part of the node-telegram-bot-api surface the bot uses,
+ * dispatches injected updates the way the library does, and records
+ * everything the bot sends so conversations can be scripted and asserted.
+ */
+export class FakeTelegramBot extends EventEmitter {
+  readonly sent: SentMessage[] = [];
+  readonly answers: CallbackAnswer[] = [];
+  readonly received: ReceivedMessage[] = [];
+  // Menu last published with setMyCommands
+  commands: TelegramBot.BotCommand[] = [];
+  // Webhook last registered with setWebHook
+  webhook: { url: string; secretToken?: string } | null = null;
+
+  private readonly textCallbacks: { regexp: RegExp; callback: TextCallback }[] = [];
+  // Contents of files uploaded by users, by file ID
+  private readonly files = new Map<string, Buffer>();
+  private nextMessageId = 1;
+  private nextUpdateId = 1;
+  private nextQueryId = 1;
+  private nextFileId = 1;
+
+  /**
+   * The fake typed as the real bot, for passing to handlers
+   */
+  asTelegramBot(): TelegramBot {
+    return this as unknown as TelegramBot;
+  }
+
+  /**
+   * A scripted user chatting with the bot
+   * @param chatId - Private chat ID, also used as the user ID
+   */
+  user(chatId: number): FakeUser {
+    return new FakeUser(this, chatId);
+  }
+
+  /**
+   * Chats the bot has sent messages to
+   */
+  get chatIds(): number[] {
+    return [...new Set(this.sent.map((message) => message.chatId))];
+  }
+
+  // TelegramBot surface
+
+  onText(regexp: RegExp, callback: TextCallback): void {
+    this.textCallbacks.push({ regexp, callback });
+  }
+
+  processUpdate(update: TelegramBot.Update): void {
+    if (update.message) {
+      const message = update.message;
+      this.emit('message', message);
+
+      if (message.document) {
+        this.emit('document', message);
+      }
+
+      if (message.text !== undefined) {
+        this.emit('text', message);
+
+        for (const { regexp, callback } of this.textCallbacks) {
+          regexp.lastIndex = 0;
+          const match = regexp.exec(message.text);
+          if (match) {
+            regexp.lastIndex = 0;
+            callback(message, match);
+          }
+        }
+      }
+    } else if (update.callback_query) {
+      this.emit('callback_query', update.callback_query);
+    }
+  }
+
+  async sendMessage(
+    chatId: number | string,
+    text: string,
+    options?: TelegramBot.SendMessageOptions
+  ): Promise<TelegramBot.Message> {
+    const message: SentMessage = {
+      chatId: Number(chatId),
+      messageId: this.nextMessageId++,
+      text,
+      options,
+      replyMarkup: options?.reply_markup && 'inline_keyboard' in options.reply_markup
+        ? options.reply_markup
+        : undefined,
+      deleted: false
+    };
+
+    this.sent.push(message);
+    this.emit('fake:sent', message);
+
+    return this.toTelegramMessage(message.chatId, message.messageId, text, true);
+  }
+
+  async sendDocument(
+    chatId: number | string,
+    doc: Buffer,
+    options?: TelegramBot.SendDocumentOptions,
+    fileOptions?: TelegramBot.FileOptions
+  ): Promise<TelegramBot.Message> {
+    const message: SentMessage = {
+      chatId: Number(chatId),
+      messageId: this.nextMessageId++,
+      text: options?.caption ?? '',
+      document: { fileName: fileOptions?.filename ?? 'file', content: doc },
+      deleted: false
+    };
+
+    this.sent.push(message);
+    this.emit('fake:sent', message);
+
+    return this.toTelegramMessage(message.chatId, message.messageId, message.text, true);
+  }
+
+  getFileStream(fileId: string): Readable {
+    const content = this.files.get(fileId);
+    if (!content) {
+      throw new Error(`ETELEGRAM: 400 Bad Request: file ${fileId} not found`);
+    }
+    return Readable.from([content]);
+  }
+
+  async answerCallbackQuery(queryId: string, options?: Partial<TelegramBot.AnswerCallbackQueryOptions>): Promise<boolean> {
+    this.answers.push({ queryId, text: options?.text });
+    this.emit('fake:answer', this.answers[this.answers.length - 1]);
+    return true;
+  }
+
+  async editMessageReplyMarkup(
+    replyMarkup: TelegramBot.InlineKeyboardMarkup,
+    options?: TelegramBot.EditMessageReplyMarkupOptions
+  ): Promise<TelegramBot.Message | boolean> {
+    const message = this.findMessage(options?.chat_id, options?.message_id);
+    message.replyMarkup = replyMarkup.inline_keyboard.length > 0 ? replyMarkup : undefined;
+    return true;
+  }
+
+  async editMessageText(text: string, options?: TelegramBot.EditMessageTextOptions): Promise<TelegramBot.Message | boolean> {
+    const message = this.findMessage(options?.chat_id, options?.message_id);
+    message.text = text;
+    message.replyMarkup = options?.reply_markup;
+    return true;
+  }
+
+  async deleteMessage(chatId: number | string, messageId: number): Promise<boolean> {
+    const received = this.received.find((m) => m.chatId === Number(chatId) && m.messageId === messageId);
+    (received ?? this.findMessage(chatId, messageId)).deleted = true;
+    return true;
+  }
+
+  async getMe(): Promise<TelegramBot.User> {
+    return { id: 1, is_bot: true, first_name: 'Copperx', username: 'copperx_test_bot' };
+  }
+
+  async setMyCommands(commands: TelegramBot.BotCommand[]): Promise<boolean> {
+    this.commands = commands;
+    return true;
+  }
+
+  async setWebHook(url: string, options?: TelegramBot.SetWebHookOptions): Promise<boolean> {
+    this.webhook = { url, secretToken: options?.secret_token };
+    return true;
+  }
+
+  async deleteWebHook(): Promise<boolean> {
+    this.webhook = null;
+    return true;
+  }
+
+  // Injection
+
+  /**
+   * Deliver a text message from a user
+   */
+  injectText(chatId: number, text: string): TelegramBot.Message {
+    const message = this.toTelegramMessage(chatId, this.nextMessageId++, text, false);
+    this.received.push({ chatId, messageId: message.message_id, text, deleted: false });
+    this.processUpdate({ update_id: this.nextUpdateId++, message });
+    return message;
+  }
+
+  /**
+   * Deliver a document from a user
+   */
+  injectDocument(chatId: number, fileName: string, content: Buffer, mimeType?: string): TelegramBot.Message {
+    const fileId = `file-${this.nextFileId++}`;
+    this.files.set(fileId, content);
+
+    const { text, ...message } = this.toTelegramMessage(chatId, this.nextMessageId++, '', false);
+    const document: TelegramBot.Message = {
+      ...message,
+      document: { file_id: fileId, file_unique_id: fileId, file_name: fileName, mime_type: mimeType, file_size: content.length }
+    };
+    this.processUpdate({ update_id: this.nextUpdateId++, message: document });
+    return document;
+  }
+
+  /**
+   * Deliver a tap on an inline keyboard button
+   * @param chatId - Chat of the tapping user
+   * @param message - Message carrying the keyboard
+   * @param data - callback_data of the button
+   * @returns The ID of the callback query
+   */
+  injectCallback(chatId: number, message: SentMessage, data: string): string {
+    const queryId = String(this.nextQueryId++);
+
+    this.processUpdate({
+      update_id: this.nextUpdateId++,
+      callback_query: {
+        id: queryId,
+        from: { id: chatId, is_bot: false, first_name: 'Test' },
+        chat_instance: String(chatId),
+        data,
+        message: this.toTelegramMessage(chatId, message.messageId, message.text, true)
+      }
+    });
+
+    return queryId;
+  }
+
+  private findMessage(chatId: number | string | undefined, messageId: number | undefined): SentMessage {
+    const message = this.sent.find((m) => m.chatId === Number(chatId) && m.messageId === messageId);
+    if (!message) {
+      throw new Error(`ETELEGRAM: 400 Bad Request: message ${messageId} not found in chat ${chatId}`);
+    }
+    return message;
+  }
+
+  private toTelegramMessage(chatId: number, messageId: number, text: string, fromBot: boolean): TelegramBot.Message {
+    return {
+      message_id: messageId,
+      date: Math.floor(Date.now() / 1000),
+      chat: { id: chatId, type: 'private' },
+      from: fromBot
+        ? { id: 1, is_bot: true, first_name: 'Copperx' }
+        : { id: chatId, is_bot: false, first_name: 'Test', username: `user${chatId}` },
+      text
+    };
+  }
+}
+
+/**
+ * A user in a private chat with the fake bot
+ *
+ * Replies are consumed in order: each expectation looks only at messages
+ * sent after the last one it matched.
+ */
+export class FakeUser {
+  private cursor = 0;
+
+  constructor(private readonly bot: FakeTelegramBot, readonly chatId: number) {}
+
+  /**
+   * Messages sent to this chat so far
+   */
+  get messages(): SentMessage[] {
+    return this.bot.sent.filter((message) => message.chatId === this.chatId);
+  }
+
+  /**
+   * Send a text message or command to the bot
+   */
+  say(text: string): void {
+    this.bot.injectText(this.chatId, text);
+  }
+
+  /**
+   * Send a file to the bot as a document
+   */
+  upload(fileName: string, content: string | Buffer, mimeType?: string): void {
+    this.bot.injectDocument(this.chatId, fileName, Buffer.from(content), mimeType);
+  }
+
+  /**
+   * Tap the button with the given label on the newest message showing it
+   * @returns The answer given to the tap
+   */
+  async tap(label: string | RegExp, timeout: number = DEFAULT_TIMEOUT): Promise<CallbackAnswer> {
+    const found = [...this.messages].reverse()
+      .map((message) => ({ message, button: findButton(message, label) }))
+      .find(({ button }) => button);
+
+    if (!found) {
+      throw new Error(`No button ${label} in chat ${this.chatId}\n${this.transcript()}`);
+    }
+
+    const queryId = this.bot.injectCallback(this.chatId, found.message, found.button!.callback_data!);
+    return waitFor(this.bot, 'fake:answer', () => this.bot.answers.find((answer) => answer.queryId === queryId), timeout,
+      () => `No answer to tap on ${label}`);
+  }
+
+  /**
+   * Wait for the next reply matching a pattern, skipping others
+   * @param pattern - Text or expression the reply must contain
+   * @returns The matching message
+   */
+  async expectReply(pattern: string | RegExp, timeout: number = DEFAULT_TIMEOUT): Promise<SentMessage> {
+    const matches = (message: SentMessage) => typeof pattern === 'string'
+      ? message.text.includes(pattern)
+      : pattern.test(message.text);
+
+    const message = await waitFor(this.bot, 'fake:sent', () => this.messages.slice(this.cursor).find(matches), timeout,
+      () => `Expected a reply matching ${pattern} in chat ${this.chatId}\n${this.transcript()}`);
+
+    this.cursor = this.messages.indexOf(message) + 1;
+    return message;
+  }
+
+  /**
+   * Readable log of the chat for failure messages
+   */
+  transcript(): string {
+    return this.messages
+      .map((message, index) => `${index < this.cursor ? ' ' : '>'} [${message.messageId}] ${message.text}`)
+      .join('\n');
+  }
+}
+
+function findButton(message: SentMessage, label: string | RegExp): TelegramBot.InlineKeyboardButton | undefined {
+  if (message.deleted || !message.replyMarkup) return undefined;
+
+  return message.replyMarkup.inline_keyboard.flat().find((button) =>
+    typeof label === 'string' ? button.text === label : label.test(button.text)
+  );
+}
+
+/**
+ * Resolve once a condition holds, re-checking whenever the bot emits an event
+ */
+function waitFor<T>(
+  bot: FakeTelegramBot,
+  event: string,
+  check: () => T | undefined,
+  timeout: number,
+  describe: () => string
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onEvent = () => {
+      const value = check();
+      if (value !== undefined) {
+        cleanup();
+        resolve(value);
+      }
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(describe()));
+    }, timeout);
+    const cleanup = () => {
+      clearTimeout(timer);
+      bot.off(event, onEvent);
+    };
+
+    bot.on(event, onEvent);
+    onEvent();
+  });
+}
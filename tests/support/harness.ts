@@ -0,0 +1,81 @@
+import { config } from '../../src/config';
+import { MockCopperxServer } from '../../src/mock';
+import { closeStore } from '../../src/store';
+import { FakeTelegramBot, FakeUser } from './fakeBot';
+
+/**
+ * A running bot wired to the fake transport and the mock API
+ */
+export interface E2EHarness {
+  bot: FakeTelegramBot;
+  mock: MockCopperxServer;
+  login: (user: FakeUser, email: string) => Promise<void>;
+  stop: () => Promise<void>;
+}
+
+// Withdrawal addresses used across tests: lowercase and checksummed EVM, and Solana
+export const EVM_ADDRESS = '0x3f5ce5fbfe3e9af3971dd833d26ba9b5c936f0be';
+export const CHECKSUMMED_ADDRESS = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+export const SOLANA_ADDRESS = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+
+/**
+ * Start the mock API and register every handler on a fake bot
+ *
+ * Handlers register into module-level registries, so start one harness per
+ * test file and give each test its own chat ID.
+ */
+export async function startHarness(): Promise<E2EHarness> {
+  const mock = new MockCopperxServer();
+  const url = await mock.start(0);
+
+  // Point the app at the mock before any module creating API clients is loaded
+  config.api.baseUrl = url;
+  config.pusher.wsHost = 'localhost';
+  config.pusher.wsPort = mock.port;
+  config.callbacks.secret = config.callbacks.secret || 'e2e-callback-secret';
+  config.session.secret = config.session.secret || 'e2e-session-secret';
+  config.store.driver = 'memory';
+
+  const { setupMiddleware } = await import('../../src/middleware');
+  const { setupCommandHandlers } = await import('../../src/commands');
+  const { cleanupPusher } = await import('../../src/services/notification');
+
+  const bot = new FakeTelegramBot();
+  setupMiddleware(bot.asTelegramBot());
+  await setupCommandHandlers(bot.asTelegramBot());
+
+  return {
+    bot,
+    mock,
+    // Log a chat in as a seeded account
+    login: async (user, email) => {
+      user.say('/login');
+      await user.expectReply('enter your Copperx account email');
+      user.say(email);
+      await user.expectReply(`OTP sent to ${email}`);
+      user.say('123456');
+      await user.expectReply('You are now logged in');
+    },
+    stop: async () => {
+      for (const chatId of bot.chatIds) {
+        await cleanupPusher(chatId);
+      }
+      await closeStore();
+      await mock.stop();
+    }
+  };
+}
+
+/**
+ * Wait until a condition holds, polling every few milliseconds
+ */
+export async function eventually(check: () => boolean, timeout: number = 5000): Promise<void> {
+  const deadline = Date.now() + timeout;
+
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
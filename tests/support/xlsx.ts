@@ -0,0 +1,107 @@
+import zlib from 'zlib';
+
+/**
+ * Options for building malformed or unusual workbooks
+ */
+export interface XlsxOptions {
+  // More files to put in the archive, by path
+  extraFiles?: Record<string, string>;
+  // Declare each file's unpacked size as its packed size, as a zip bomb would
+  understateSizes?: boolean;
+}
+
+/**
+ * Build a minimal .xlsx workbook with one sheet
+ *
+ * Text cells go through the shared string table and numbers are stored as
+ * numbers, as Excel writes them.
+ * @param rows - Cell values by row
+ */
+export function buildXlsx(rows: (string | number)[][], options: XlsxOptions = {}): Buffer {
+  const strings: string[] = [];
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((value, column) => {
+      const reference = `${String.fromCharCode(65 + column)}${rowIndex + 1}`;
+      if (typeof value === 'number') {
+        return `<c r="${reference}"><v>${value}</v></c>`;
+      }
+      strings.push(value);
+      return `<c r="${reference}" t="s"><v>${strings.length - 1}</v></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  return buildZip({
+    '[Content_Types].xml': '<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"/>',
+    'xl/workbook.xml': '<workbook><sheets><sheet name="Payouts" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+    'xl/sharedStrings.xml': `<sst>${strings.map((text) => `<si><t>${escapeXml(text)}</t></si>`).join('')}</sst>`,
+    'xl/worksheets/sheet1.xml': `<worksheet><sheetData>${sheetRows.join('')}</sheetData></worksheet>`,
+    ...options.extraFiles
+  }, options.understateSizes);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * ZIP archive of deflated files
+ */
+function buildZip(files: Record<string, string>, understateSizes: boolean = false): Buffer {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, text] of Object.entries(files)) {
+    const content = Buffer.from(text, 'utf8');
+    const compressed = zlib.deflateRawSync(content);
+    const fileName = Buffer.from(name, 'utf8');
+    const size = understateSizes ? compressed.length : content.length;
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt32LE(crc32(content), 14);
+    header.writeUInt32LE(compressed.length, 18);
+    header.writeUInt32LE(size, 22);
+    header.writeUInt16LE(fileName.length, 26);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 4);
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(crc32(content), 16);
+    entry.writeUInt32LE(compressed.length, 20);
+    entry.writeUInt32LE(size, 24);
+    entry.writeUInt16LE(fileName.length, 28);
+    entry.writeUInt32LE(offset, 42);
+
+    local.push(header, fileName, compressed);
+    central.push(entry, fileName);
+    offset += header.length + fileName.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...local, directory, end]);
+}
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}